@@ -21,9 +21,11 @@ import Permissions from "@/pages/permissions";
 import ApprovalRequests from "@/pages/approval-requests";
 import FileUploadDemo from "@/pages/file-upload-demo";
 import { AuthProvider, RequireAuth, RequireAdmin, useAuth } from "@/hooks/use-auth";
+import { useLiveUpdates } from "@/hooks/use-live-updates";
 
 function Router() {
   const { user, isAdmin } = useAuth();
+  useLiveUpdates(!!user);
   
   return (
     <Switch>
@@ -16,6 +16,7 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { useState } from "react";
+import { formulaSyntaxError } from "@shared/formula";
 import { ShieldCheck, AlertTriangle, ClipboardCheck, User, Settings, Code } from "lucide-react";
 
 // Form schema for button properties
@@ -291,16 +292,18 @@ export function ButtonPropertiesEditor({ element, onUpdate }: ButtonPropertiesEd
                   </FormLabel>
                   <FormControl>
                     <Textarea 
-                      placeholder="// Return true if validation passes, false otherwise
-// Example: return formData.status === 'complete';"
+                      placeholder={`// Example: 'Status' = "Complete" && !IsBlank('Email')`}
                       className="font-mono text-sm"
                       rows={5}
                       {...field} 
                       value={field.value || ""}
                     />
                   </FormControl>
+                  {formulaSyntaxError(field.value) && (
+                    <p className="text-xs text-destructive mt-1">{formulaSyntaxError(field.value)}</p>
+                  )}
                   <p className="text-xs text-muted-foreground mt-1">
-                    Write JavaScript code that returns true if the form should be submitted, or false otherwise.
+                    A formula that must be true for the action to run. Reference form fields in single quotes.
                   </p>
                 </FormItem>
               )}
@@ -361,14 +364,16 @@ export function ButtonPropertiesEditor({ element, onUpdate }: ButtonPropertiesEd
                   </FormLabel>
                   <FormControl>
                     <Textarea 
-                      placeholder="// Code to run after successful action
-// Example: showNotification('Action completed successfully');"
+                      placeholder={`// Example: Notify("Saved " & 'Title', "success"); Navigate("/done")`}
                       className="font-mono text-sm"
                       rows={3}
                       {...field} 
                       value={field.value || ""}
                     />
                   </FormControl>
+                  {formulaSyntaxError(field.value) && (
+                    <p className="text-xs text-destructive mt-1">{formulaSyntaxError(field.value)}</p>
+                  )}
                 </FormItem>
               )}
             />
@@ -384,14 +389,19 @@ export function ButtonPropertiesEditor({ element, onUpdate }: ButtonPropertiesEd
                   </FormLabel>
                   <FormControl>
                     <Textarea 
-                      placeholder="// Code to run if action fails
-// Example: showError('Action failed: ' + error.message);"
+                      placeholder={`// Example: Notify("Action failed: " & ErrorMessage, "error")`}
                       className="font-mono text-sm"
                       rows={3}
                       {...field} 
                       value={field.value || ""}
                     />
                   </FormControl>
+                  {formulaSyntaxError(field.value) && (
+                    <p className="text-xs text-destructive mt-1">{formulaSyntaxError(field.value)}</p>
+                  )}
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Formulas can call Notify(message, kind) and Navigate(path); the error action can also read ErrorMessage.
+                  </p>
                 </FormItem>
               )}
             />
@@ -0,0 +1,124 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Download, RotateCcw } from "lucide-react";
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type ExcelRevision = {
+  revision: number;
+  fileUrl: string;
+  createdAt: string;
+  createdBy?: string;
+  action: "original" | "insert" | "update" | "delete";
+  current: boolean;
+};
+
+const actionLabels: Record<ExcelRevision["action"], string> = {
+  original: "Original file",
+  insert: "Row added",
+  update: "Row edited",
+  delete: "Row deleted",
+};
+
+interface ExcelRevisionsProps {
+  dataSourceId: number;
+  // Called after a rollback so the editor can show the restored file
+  onRollback?: (revision: ExcelRevision) => void;
+}
+
+// Saved workbook revisions of an Excel data source, with download and rollback
+export function ExcelRevisions({ dataSourceId, onRollback }: ExcelRevisionsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: revisions = [], isLoading } = useQuery<ExcelRevision[]>({
+    queryKey: [`/api/datasources/${dataSourceId}/revisions`],
+  });
+
+  const rollback = useMutation({
+    mutationFn: (revision: ExcelRevision) =>
+      apiRequest<{ revision: ExcelRevision }>(
+        `/api/datasources/${dataSourceId}/revisions/${revision.revision}/rollback`,
+        { method: "POST" }
+      ),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/datasources/${dataSourceId}/revisions`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/datasources/${dataSourceId}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/datasources"] });
+      toast({
+        title: "Success",
+        description: `Rolled back to revision ${result.revision.revision}`,
+      });
+      onRollback?.({ ...result.revision, current: true });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to roll back",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading revisions...</p>;
+  }
+
+  if (revisions.length === 0) {
+    return <p className="text-sm text-gray-500">No revisions yet. Edits made in data tables are saved as new revisions.</p>;
+  }
+
+  return (
+    <div className="max-h-[240px] overflow-y-auto border rounded-md">
+      <Table>
+        <TableHeader className="sticky top-0 bg-background z-10">
+          <TableRow>
+            <TableHead className="w-16">Revision</TableHead>
+            <TableHead>Change</TableHead>
+            <TableHead>Saved</TableHead>
+            <TableHead className="w-24" />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {revisions.map((revision) => (
+            <TableRow key={revision.revision}>
+              <TableCell>
+                <div className="flex items-center gap-2">
+                  {revision.revision}
+                  {revision.current && <Badge variant="outline" className="text-xs">Current</Badge>}
+                </div>
+              </TableCell>
+              <TableCell>{actionLabels[revision.action] || revision.action}</TableCell>
+              <TableCell className="text-sm text-gray-600">
+                {new Date(revision.createdAt).toLocaleString()}
+                {revision.createdBy && ` by ${revision.createdBy}`}
+              </TableCell>
+              <TableCell>
+                <div className="flex space-x-1">
+                  <Button variant="ghost" size="icon" className="h-8 w-8" asChild>
+                    <a href={revision.fileUrl} download aria-label={`Download revision ${revision.revision}`}>
+                      <Download className="h-4 w-4" />
+                    </a>
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => rollback.mutate(revision)}
+                    disabled={revision.current || rollback.isPending}
+                    aria-label={`Roll back to revision ${revision.revision}`}
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                  </Button>
+                </div>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
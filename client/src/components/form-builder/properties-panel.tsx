@@ -45,6 +45,7 @@ import {
 import { useQuery } from "@tanstack/react-query";
 import { ActionEditor } from "./action-editor";
 import { ButtonPropertiesEditor } from "./button-properties-editor";
+import { formulaSyntaxError } from "@shared/formula";
 
 // Define a type for data source fields
 interface DataSourceField {
@@ -1278,7 +1279,7 @@ export function PropertiesPanel({
                     </Button>
                   </TooltipTrigger>
                   <TooltipContent className="max-w-xs">
-                    <p>Use PowerApps-like formulas to filter data dynamically. Reference other fields in single quotes.</p>
+                    <p>A PowerApps-like formula that must be true for a row to show. Bare names are the row's columns; reference form fields in single quotes.</p>
                   </TooltipContent>
                 </Tooltip>
               </TooltipProvider>
@@ -1293,8 +1294,12 @@ export function PropertiesPanel({
               />
             </FormControl>
             <div className="mt-2 text-xs text-gray-500">
-              <p>Example: <code className="bg-muted px-1">StartsWith(Title, 'SearchBox')</code></p>
-              <p className="mt-1">Available functions: Filter, StartsWith, EndsWith, Contains, IsBlank, IsEmpty</p>
+              {formulaSyntaxError(localElement.filterExpression) && (
+                <p className="mb-1 text-destructive">{formulaSyntaxError(localElement.filterExpression)}</p>
+              )}
+              <p>Example: <code className="bg-muted px-1">StartsWith(Title, 'SearchBox') && Amount &gt; 100</code></p>
+              <p className="mt-1">Operators: = &lt;&gt; &lt; &gt; && || ! &amp; in + - * /</p>
+              <p className="mt-1">Functions include If, And, Or, Not, IsBlank, IsEmpty, Coalesce, Filter, LookUp, CountRows, CountIf, Sum, Average, Min, Max, StartsWith, EndsWith, Contains, Len, Upper, Lower, Trim, Left, Right, Mid, Find, Substitute, Text, Value, Now, Today, Date, DateAdd, DateDiff, Year, Month, Day</p>
             </div>
           </div>
         )}
@@ -1530,6 +1535,54 @@ export function PropertiesPanel({
                       </FormItem>
                     )}
                   />
+                  
+                  <FormField
+                    control={form.control}
+                    name="allowInsert"
+                    render={({ field }) => (
+                      <FormItem className="flex flex-row items-start space-x-3 space-y-0 p-2 border rounded-md">
+                        <FormControl>
+                          <Checkbox
+                            checked={field.value}
+                            onCheckedChange={(checked) => {
+                              field.onChange(checked);
+                              handleFormFieldChange("allowInsert", checked);
+                            }}
+                          />
+                        </FormControl>
+                        <div className="space-y-1 leading-none">
+                          <FormLabel>Allow Adding Rows</FormLabel>
+                          <FormDescription className="text-xs">
+                            Users can add rows to the table
+                          </FormDescription>
+                        </div>
+                      </FormItem>
+                    )}
+                  />
+                  
+                  <FormField
+                    control={form.control}
+                    name="allowDelete"
+                    render={({ field }) => (
+                      <FormItem className="flex flex-row items-start space-x-3 space-y-0 p-2 border rounded-md">
+                        <FormControl>
+                          <Checkbox
+                            checked={field.value}
+                            onCheckedChange={(checked) => {
+                              field.onChange(checked);
+                              handleFormFieldChange("allowDelete", checked);
+                            }}
+                          />
+                        </FormControl>
+                        <div className="space-y-1 leading-none">
+                          <FormLabel>Allow Deleting Rows</FormLabel>
+                          <FormDescription className="text-xs">
+                            Users can delete rows (needs key columns)
+                          </FormDescription>
+                        </div>
+                      </FormItem>
+                    )}
+                  />
                 </div>
               </div>
             </div>
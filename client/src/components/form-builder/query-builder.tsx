@@ -0,0 +1,271 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  BUILDER_OPERATORS,
+  isUnaryOperator,
+  type BuilderCondition,
+  type BuilderOperator,
+  type QueryBuilderSpec,
+} from "@shared/query-builder";
+import { errorMessage, type SchemaColumn } from "./schema-browser";
+
+interface QueryBuilderProps {
+  // The editor's connection settings; a saved data source's are used when omitted
+  config?: Record<string, any>;
+  dataSourceId?: number;
+  // MongoDB sources store a filter document rather than SQL
+  documents: boolean;
+  // Columns come from the fields ticked in the schema browser
+  value: QueryBuilderSpec;
+  onChange: (spec: QueryBuilderSpec) => void;
+}
+
+const inputClassName = "w-full px-2 py-1 border border-gray-300 rounded-md text-sm";
+
+// Column types whose condition values are numbers or booleans rather than text
+const NUMERIC_TYPE = /int|num|dec|float|double|real|money|serial|number/;
+const BOOLEAN_TYPE = /bool|^bit$/;
+
+function conditionValue(text: string, column?: SchemaColumn): BuilderCondition["value"] {
+  const type = column?.type.toLowerCase() || "";
+  // Only whole numbers as typed, so "1." or "007" stay text while being edited
+  if (NUMERIC_TYPE.test(type) && text.trim() !== "" && String(Number(text)) === text) {
+    return Number(text);
+  }
+  if (BOOLEAN_TYPE.test(type) && (text === "true" || text === "false")) {
+    return text === "true";
+  }
+  return text;
+}
+
+// Conditions, sort and row limit of a database data source's query, with the query it generates and its first rows
+export function QueryBuilder({ config, dataSourceId, documents, value, onChange }: QueryBuilderProps) {
+  const connection = { config, dataSourceId };
+
+  // Shares the schema browser's cached column list
+  const { data: columnData } = useQuery({
+    queryKey: ["/api/datasources/schema/columns", connection, value.schema || "", value.table],
+    queryFn: () => apiRequest<{ columns: SchemaColumn[] }>("/api/datasources/schema/columns", {
+      method: "POST",
+      data: { ...connection, schema: value.schema || "", table: value.table },
+    }),
+  });
+  const columns = columnData?.columns || [];
+
+  // Preview once editing pauses rather than on every keystroke
+  const [previewSpec, setPreviewSpec] = useState(value);
+  useEffect(() => {
+    const timer = setTimeout(() => setPreviewSpec(value), 500);
+    return () => clearTimeout(timer);
+  }, [value]);
+
+  const preview = useQuery({
+    queryKey: ["/api/datasources/query-builder/preview", connection, previewSpec],
+    queryFn: () => apiRequest<{ query: string; rows: any[] }>("/api/datasources/query-builder/preview", {
+      method: "POST",
+      data: { ...connection, builder: previewSpec },
+    }),
+    retry: false,
+  });
+  const previewColumns = Array.from(new Set((preview.data?.rows || []).flatMap((row) => Object.keys(row))));
+
+  const updateCondition = (index: number, changes: Partial<BuilderCondition>) => {
+    onChange({
+      ...value,
+      conditions: value.conditions.map((condition, i) => (i === index ? { ...condition, ...changes } : condition)),
+    });
+  };
+
+  const updateSort = (index: number, changes: Partial<QueryBuilderSpec["sort"][number]>) => {
+    onChange({
+      ...value,
+      sort: value.sort.map((order, i) => (i === index ? { ...order, ...changes } : order)),
+    });
+  };
+
+  return (
+    <div className="space-y-4 border rounded-md p-3">
+      <p className="text-xs text-gray-500">
+        Reading {value.columns.length > 0 ? `${value.columns.length} ticked columns` : "every column"} of {value.table}.
+        A value starting with : is taken from the form field of that name, e.g. :region; @currentUserId is the signed-in user.
+      </p>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <label className="text-sm font-medium">Conditions</label>
+          {value.conditions.length > 1 && (
+            <select
+              className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+              value={value.match}
+              onChange={(e) => onChange({ ...value, match: e.target.value as QueryBuilderSpec["match"] })}
+            >
+              <option value="all">Match all conditions</option>
+              <option value="any">Match any condition</option>
+            </select>
+          )}
+        </div>
+        {value.conditions.map((condition, index) => {
+          const column = columns.find((candidate) => candidate.name === condition.field);
+          const text = condition.parameter ?? (condition.value === undefined || condition.value === null ? "" : String(condition.value));
+          return (
+            <div key={index} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2 items-center">
+              <select
+                className={inputClassName}
+                value={condition.field}
+                onChange={(e) => updateCondition(index, { field: e.target.value })}
+              >
+                {columns.map((candidate) => (
+                  <option key={candidate.name} value={candidate.name}>{candidate.name}</option>
+                ))}
+              </select>
+              <select
+                className={inputClassName}
+                value={condition.operator}
+                onChange={(e) => updateCondition(index, { operator: e.target.value as BuilderOperator })}
+              >
+                {BUILDER_OPERATORS.map((operator) => (
+                  <option key={operator.value} value={operator.value}>{operator.label}</option>
+                ))}
+              </select>
+              {isUnaryOperator(condition.operator) ? (
+                <span />
+              ) : (
+                <input
+                  type="text"
+                  className={inputClassName}
+                  placeholder="Value or :fieldName"
+                  value={text}
+                  onChange={(e) => {
+                    const input = e.target.value;
+                    // Parameters are kept apart from literals so they are bound, not quoted
+                    updateCondition(index, /^[:@]/.test(input)
+                      ? { parameter: input, value: undefined }
+                      : { parameter: undefined, value: conditionValue(input, column) });
+                  }}
+                />
+              )}
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                aria-label="Remove condition"
+                onClick={() => onChange({ ...value, conditions: value.conditions.filter((_, i) => i !== index) })}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          );
+        })}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={columns.length === 0}
+          onClick={() => onChange({
+            ...value,
+            conditions: [...value.conditions, { field: columns[0].name, operator: "eq", value: "" }],
+          })}
+        >
+          <Plus className="h-4 w-4 mr-1" /> Add Condition
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium">Sort</label>
+        {value.sort.map((order, index) => (
+          <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2 items-center">
+            <select
+              className={inputClassName}
+              value={order.field}
+              onChange={(e) => updateSort(index, { field: e.target.value })}
+            >
+              {columns.map((candidate) => (
+                <option key={candidate.name} value={candidate.name}>{candidate.name}</option>
+              ))}
+            </select>
+            <select
+              className={inputClassName}
+              value={order.direction}
+              onChange={(e) => updateSort(index, { direction: e.target.value as "asc" | "desc" })}
+            >
+              <option value="asc">Ascending</option>
+              <option value="desc">Descending</option>
+            </select>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              aria-label="Remove sort"
+              onClick={() => onChange({ ...value, sort: value.sort.filter((_, i) => i !== index) })}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={columns.length === 0}
+          onClick={() => onChange({ ...value, sort: [...value.sort, { field: columns[0].name, direction: "asc" }] })}
+        >
+          <Plus className="h-4 w-4 mr-1" /> Add Sort
+        </Button>
+      </div>
+
+      <div className="space-y-2 w-40">
+        <label className="text-sm font-medium">Row Limit</label>
+        <input
+          type="number"
+          min={1}
+          className={inputClassName}
+          value={value.limit}
+          onChange={(e) => onChange({ ...value, limit: parseInt(e.target.value) || 1 })}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium">{documents ? "Generated Filter" : "Generated SQL"}</label>
+        <pre className="p-2 bg-gray-50 border rounded-md text-xs whitespace-pre-wrap break-all">
+          {preview.data?.query || (preview.isLoading ? "..." : "")}
+        </pre>
+        {preview.error ? (
+          <p className="text-sm text-red-500">{errorMessage(preview.error, "The query failed")}</p>
+        ) : preview.data && (
+          <div className="max-h-[240px] overflow-auto border rounded-md">
+            {preview.data.rows.length === 0 ? (
+              <p className="p-2 text-sm text-gray-500">No rows match.</p>
+            ) : (
+              <table className="min-w-full text-xs">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {previewColumns.map((name) => (
+                      <th key={name} className="px-2 py-1 text-left font-medium text-gray-500">{name}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {preview.data.rows.map((row, index) => (
+                    <tr key={index}>
+                      {previewColumns.map((name) => (
+                        <td key={name} className="px-2 py-1 whitespace-nowrap">
+                          {row[name] === null || row[name] === undefined
+                            ? ""
+                            : typeof row[name] === "object" ? JSON.stringify(row[name]) : String(row[name])}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+        <p className="text-xs text-gray-500">Preview of the first rows; parameters are empty here.</p>
+      </div>
+    </div>
+  );
+}
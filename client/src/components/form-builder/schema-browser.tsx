@@ -0,0 +1,222 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { ChevronDown, ChevronRight, Database, Eye, KeyRound, Layers, Table2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { apiRequest } from "@/lib/queryClient";
+
+export type SchemaColumn = {
+  name: string;
+  type: string;
+  nullable: boolean;
+  primaryKey: boolean;
+};
+
+type SchemaTable = {
+  name: string;
+  kind: "table" | "view" | "collection";
+};
+
+type SchemaNamespace = {
+  name: string;
+  tables: SchemaTable[];
+};
+
+export type SelectedTable = {
+  schema?: string;
+  name: string;
+  kind: SchemaTable["kind"];
+};
+
+interface SchemaBrowserProps {
+  // The editor's connection settings; a saved data source's are used when omitted
+  config?: Record<string, any>;
+  dataSourceId?: number;
+  selectedTable?: { schema?: string; name?: string };
+  // Field selection of the selected table
+  fields: Array<{ name: string; selected: boolean }>;
+  onSelectTable: (table: SelectedTable, columns: SchemaColumn[]) => void;
+  onToggleField: (name: string, column: SchemaColumn) => void;
+}
+
+const tableIcons = {
+  table: Table2,
+  view: Eye,
+  collection: Layers,
+};
+
+export function errorMessage(error: unknown, fallback: string): string {
+  if (!(error instanceof Error)) return fallback;
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(body).message || fallback;
+  } catch {
+    return body || fallback;
+  }
+}
+
+// Tree of a database's schemas, tables (or collections) and columns for picking the data source's table and fields
+export function SchemaBrowser({ config, dataSourceId, selectedTable, fields, onSelectTable, onToggleField }: SchemaBrowserProps) {
+  const queryClient = useQueryClient();
+  const connection = { config, dataSourceId };
+  const [expandedSchemas, setExpandedSchemas] = useState<Record<string, boolean>>({});
+  const [expandedTables, setExpandedTables] = useState<Record<string, boolean>>({});
+  const [loadingTable, setLoadingTable] = useState<string | null>(null);
+  const [selectError, setSelectError] = useState<string | null>(null);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["/api/datasources/schema", connection],
+    queryFn: () => apiRequest<{ schemas: SchemaNamespace[] }>("/api/datasources/schema", {
+      method: "POST",
+      data: connection,
+    }),
+  });
+  const schemas = data?.schemas || [];
+
+  const columnsQuery = (schema: string, table: string) => ({
+    queryKey: ["/api/datasources/schema/columns", connection, schema, table],
+    queryFn: () => apiRequest<{ columns: SchemaColumn[] }>("/api/datasources/schema/columns", {
+      method: "POST",
+      data: { ...connection, schema, table },
+    }),
+  });
+
+  const tableKey = (schema: string, table: string) => `${schema}.${table}`;
+
+  const selectTable = async (schema: string, table: SchemaTable) => {
+    const key = tableKey(schema, table.name);
+    setExpandedTables((current) => ({ ...current, [key]: true }));
+    setLoadingTable(key);
+    setSelectError(null);
+    try {
+      const result = await queryClient.fetchQuery(columnsQuery(schema, table.name));
+      onSelectTable({ schema: schema || undefined, name: table.name, kind: table.kind }, result.columns);
+    } catch (error) {
+      setSelectError(errorMessage(error, "Failed to read the table columns"));
+    } finally {
+      setLoadingTable(null);
+    }
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading schema...</p>;
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-500">{errorMessage(error, "Failed to read the database schema")}</p>;
+  }
+
+  if (schemas.length === 0) {
+    return <p className="text-sm text-gray-500">No tables found.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="max-h-[320px] overflow-y-auto border rounded-md p-2 text-sm">
+        {schemas.map((schema) => {
+          // A single schema, or the one holding the selected table, starts open
+          const schemaOpen = expandedSchemas[schema.name]
+            ?? (schemas.length === 1 || (selectedTable?.schema ?? "") === schema.name);
+          return (
+            <div key={schema.name}>
+              <button
+                type="button"
+                className="flex items-center gap-1 w-full px-1 py-1 rounded hover:bg-gray-100 text-left"
+                onClick={() => setExpandedSchemas((current) => ({ ...current, [schema.name]: !schemaOpen }))}
+              >
+                {schemaOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                <Database className="h-4 w-4 text-gray-500" />
+                <span className="font-medium">{schema.name || "default"}</span>
+                <span className="text-xs text-gray-400">({schema.tables.length})</span>
+              </button>
+
+              {schemaOpen && schema.tables.map((table) => {
+                const key = tableKey(schema.name, table.name);
+                const isSelected = selectedTable?.name === table.name
+                  && (!selectedTable.schema || selectedTable.schema === schema.name);
+                const Icon = tableIcons[table.kind];
+                return (
+                  <div key={key} className="ml-5">
+                    <div className={`flex items-center gap-1 px-1 py-1 rounded ${isSelected ? "bg-primary/10" : "hover:bg-gray-100"}`}>
+                      <button
+                        type="button"
+                        aria-label={expandedTables[key] ? `Collapse ${table.name}` : `Expand ${table.name}`}
+                        onClick={() => setExpandedTables((current) => ({ ...current, [key]: !current[key] }))}
+                      >
+                        {expandedTables[key] ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                      </button>
+                      <button
+                        type="button"
+                        className="flex items-center gap-1 flex-1 text-left"
+                        onClick={() => selectTable(schema.name, table)}
+                      >
+                        <Icon className="h-4 w-4 text-gray-500" />
+                        <span className={isSelected ? "font-medium text-primary" : ""}>{table.name}</span>
+                        {table.kind === "view" && <Badge variant="outline" className="text-xs">view</Badge>}
+                        {loadingTable === key && <span className="text-xs text-gray-400">loading...</span>}
+                      </button>
+                    </div>
+
+                    {expandedTables[key] && (
+                      <TableColumns
+                        query={columnsQuery(schema.name, table.name)}
+                        selectable={isSelected}
+                        fields={fields}
+                        onToggleField={onToggleField}
+                      />
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          );
+        })}
+      </div>
+      {selectError && <p className="text-sm text-red-500">{selectError}</p>}
+      <p className="text-xs text-gray-500">
+        Click a table to use it for this data source, then tick the columns to include.
+      </p>
+    </div>
+  );
+}
+
+interface TableColumnsProps {
+  query: { queryKey: unknown[]; queryFn: () => Promise<{ columns: SchemaColumn[] }> };
+  // Only the selected table's columns can be ticked
+  selectable: boolean;
+  fields: Array<{ name: string; selected: boolean }>;
+  onToggleField: (name: string, column: SchemaColumn) => void;
+}
+
+function TableColumns({ query, selectable, fields, onToggleField }: TableColumnsProps) {
+  const { data, isLoading, error } = useQuery(query);
+
+  if (isLoading) {
+    return <p className="ml-6 py-1 text-xs text-gray-400">Loading columns...</p>;
+  }
+  if (error) {
+    return <p className="ml-6 py-1 text-xs text-red-500">{errorMessage(error, "Failed to read the columns")}</p>;
+  }
+
+  return (
+    <div className="ml-6 border-l pl-2">
+      {(data?.columns || []).map((column) => {
+        const field = fields.find((candidate) => candidate.name === column.name);
+        return (
+          <label key={column.name} className="flex items-center gap-2 py-0.5">
+            {selectable && (
+              <Checkbox
+                checked={field?.selected || false}
+                onCheckedChange={() => onToggleField(column.name, column)}
+              />
+            )}
+            <span>{column.name}</span>
+            {column.primaryKey && <KeyRound className="h-3 w-3 text-amber-500" aria-label="Primary key" />}
+            <span className="text-xs text-gray-500">{column.type}</span>
+            {!column.nullable && <span className="text-xs text-gray-400">not null</span>}
+          </label>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { FormElement, SubmissionTarget } from "@shared/schema";
+import { formValueElements } from "@shared/form-fields";
+import { getKeyColumns } from "@shared/row-key";
+
+interface SubmissionTargetModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  formElements: FormElement[];
+  target: SubmissionTarget | null;
+  // Called with the new target, or null to only keep submissions in the app
+  onChange: (target: SubmissionTarget | null) => void;
+}
+
+const selectClassName =
+  "w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary";
+
+// Maps a form's fields to the columns of a database table its submissions are also written to
+export function SubmissionTargetModal({ isOpen, onClose, formElements, target, onChange }: SubmissionTargetModalProps) {
+  const [dataSourceId, setDataSourceId] = useState<string>("");
+  const [mode, setMode] = useState<"insert" | "upsert">("insert");
+  const [keyColumns, setKeyColumns] = useState<string[]>([]);
+  // Form field name → column; fields without a column aren't written
+  const [columnsByField, setColumnsByField] = useState<Record<string, string>>({});
+
+  const { data: dataSources = [] } = useQuery<any[]>({
+    queryKey: ["/api/datasources"],
+    enabled: isOpen,
+  });
+
+  useEffect(() => {
+    if (isOpen) {
+      setDataSourceId(target ? String(target.dataSourceId) : "");
+      setMode(target?.mode || "insert");
+      setKeyColumns(target?.keyColumns || []);
+      setColumnsByField(Object.fromEntries((target?.mappings || []).map((mapping) => [mapping.field, mapping.column])));
+    }
+  }, [isOpen, target]);
+
+  const databaseSources = dataSources.filter((dataSource) => dataSource.type === "database");
+  const dataSource = databaseSources.find((candidate) => String(candidate.id) === dataSourceId);
+  const columns: string[] = Array.isArray(dataSource?.fields) ? dataSource.fields.map((field: any) => field.name) : [];
+  const fieldNames = Array.from(new Set(formValueElements(formElements).map((element) => element.name)));
+  const isReadOnly = dataSource && dataSource.config?.readOnly !== false;
+
+  // Pick the data source, mapping fields to columns with the same name
+  const selectDataSource = (id: string) => {
+    setDataSourceId(id);
+    const selected = databaseSources.find((candidate) => String(candidate.id) === id);
+    const selectedColumns: string[] = Array.isArray(selected?.fields) ? selected.fields.map((field: any) => field.name) : [];
+    setColumnsByField(Object.fromEntries(
+      fieldNames
+        .filter((name) => selectedColumns.includes(name))
+        .map((name) => [name, name])
+    ));
+    setKeyColumns([]);
+  };
+
+  const toggleKeyColumn = (column: string) => {
+    setKeyColumns(keyColumns.includes(column)
+      ? keyColumns.filter((name) => name !== column)
+      : [...keyColumns, column]);
+  };
+
+  const mappings = Object.entries(columnsByField)
+    .filter(([field, column]) => column && fieldNames.includes(field))
+    .map(([field, column]) => ({ field, column }));
+
+  const handleSave = () => {
+    onChange({
+      dataSourceId: parseInt(dataSourceId),
+      mappings,
+      mode,
+      keyColumns: mode === "upsert" && keyColumns.length > 0 ? keyColumns : undefined,
+    });
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Submission Target</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <p className="text-sm text-gray-500">
+            Each submission is also written as a row of a database table. Submissions are still kept in the app as an audit copy.
+          </p>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Data Source</label>
+              <select className={selectClassName} value={dataSourceId} onChange={(e) => selectDataSource(e.target.value)}>
+                <option value="">Select a database data source</option>
+                {databaseSources.map((candidate) => (
+                  <option key={candidate.id} value={String(candidate.id)}>{candidate.name}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Write Mode</label>
+              <select className={selectClassName} value={mode} onChange={(e) => setMode(e.target.value as "insert" | "upsert")}>
+                <option value="insert">Insert a new row</option>
+                <option value="upsert">Update the row with the same key, or insert</option>
+              </select>
+            </div>
+          </div>
+
+          {isReadOnly && (
+            <p className="text-sm text-red-500">
+              This data source is read-only. Allow writes in its settings before submitting to it.
+            </p>
+          )}
+
+          {dataSource && (
+            <div className="border rounded-md divide-y">
+              <div className="grid grid-cols-2 gap-4 px-3 py-2 text-xs font-medium text-gray-500 uppercase">
+                <span>Form Field</span>
+                <span>Column</span>
+              </div>
+              {fieldNames.map((name) => (
+                <div key={name} className="grid grid-cols-2 gap-4 items-center px-3 py-2">
+                  <span className="text-sm truncate">{name}</span>
+                  <select
+                    className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                    value={columnsByField[name] || ""}
+                    onChange={(e) => setColumnsByField({ ...columnsByField, [name]: e.target.value })}
+                  >
+                    <option value="">Not written</option>
+                    {columns.map((column) => (
+                      <option key={column} value={column}>{column}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {dataSource && mode === "upsert" && (
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Key Columns</label>
+              <div className="flex flex-wrap gap-4">
+                {columns.map((column) => (
+                  <div key={column} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`key-${column}`}
+                      checked={keyColumns.includes(column)}
+                      onCheckedChange={() => toggleKeyColumn(column)}
+                    />
+                    <Label htmlFor={`key-${column}`}>{column}</Label>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500">
+                Rows with the same values in these columns are updated.
+                {getKeyColumns(dataSource.fields).length > 0 &&
+                  ` Leave empty to use the data source's key (${getKeyColumns(dataSource.fields).join(", ")}).`}
+              </p>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          {target && (
+            <Button variant="outline" className="mr-auto" onClick={() => { onChange(null); onClose(); }}>
+              Remove Target
+            </Button>
+          )}
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleSave} disabled={!dataSource || mappings.length === 0}>Apply</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
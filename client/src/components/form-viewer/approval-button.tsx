@@ -14,6 +14,8 @@ import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
+import { savedSubmissionTargetError, savedSubmissionDescription, SAVED_SUBMISSION_TITLE } from "@/lib/submissions";
+import { evaluateCondition, evaluateFormula } from "@shared/formula-eval";
 
 interface ApprovalButtonProps {
   element: FormElement;
@@ -47,29 +49,46 @@ export function ApprovalButton({
     return variant;
   };
 
-  // Evaluate validation rules
+  // The validation rule is a formula over the form's fields that must be true
   const isValid = () => {
-    if (!buttonAction.validationRules) return true;
+    if (!buttonAction.validationRules?.trim()) return true;
     
     try {
-      // Using Function constructor to evaluate the validation rules
-      // The function gets access to formData
-      const validateFn = new Function('formData', `
-        try {
-          ${buttonAction.validationRules}
-        } catch (error) {
-          console.error("Validation rule error:", error);
-          return false;
-        }
-      `);
-      
-      return validateFn(formData);
+      return evaluateCondition(buttonAction.validationRules, { form: formData });
     } catch (error) {
       console.error("Error evaluating validation rules:", error);
       return false;
     }
   };
   
+  const navigate = (target: string) => {
+    if (target.startsWith('http')) {
+      window.location.href = target;
+    } else {
+      window.location.pathname = target;
+    }
+  };
+  
+  // Run an action formula; Notify shows a toast and Navigate leaves the page
+  const runActionFormula = (formula: string, variables?: Record<string, unknown>) => {
+    try {
+      evaluateFormula(formula, {
+        form: formData,
+        variables,
+        actions: {
+          notify: (message, kind) => toast({
+            title: kind === "error" ? "Error" : kind === "warning" ? "Warning" : kind === "success" ? "Success" : "Notice",
+            description: message,
+            variant: kind === "error" ? "destructive" : "default"
+          }),
+          navigate
+        }
+      });
+    } catch (error) {
+      console.error("Error running button action formula:", error);
+    }
+  };
+  
   // Handle submit form request
   const submitFormMutation = useMutation({
     mutationFn: async () => {
@@ -87,6 +106,18 @@ export function ApprovalButton({
       handleSuccessAction();
     },
     onError: (error) => {
+      // Saved, but not written to the submission target: resubmitting would save it twice
+      const targetError = savedSubmissionTargetError(error);
+      if (targetError) {
+        toast({
+          title: SAVED_SUBMISSION_TITLE,
+          description: savedSubmissionDescription(targetError),
+          variant: "destructive"
+        });
+        if (onSuccess) onSuccess();
+        handleSuccessAction();
+        return;
+      }
       toast({
         title: "Error",
         description: "Failed to submit form. Please try again.",
@@ -164,49 +195,23 @@ export function ApprovalButton({
   
   // Handle custom success actions
   const handleSuccessAction = () => {
-    if (!buttonAction.onSuccess) return;
-    
-    try {
-      const successFn = new Function('formData', `
-        try {
-          ${buttonAction.onSuccess}
-        } catch (error) {
-          console.error("Success callback error:", error);
-        }
-      `);
-      
-      successFn(formData);
-    } catch (error) {
-      console.error("Error executing success callback:", error);
+    if (buttonAction.onSuccess?.trim()) {
+      runActionFormula(buttonAction.onSuccess);
     }
     
     // Handle navigation if specified
     if (buttonAction.navigateTo) {
-      if (buttonAction.navigateTo.startsWith('http')) {
-        window.location.href = buttonAction.navigateTo;
-      } else {
-        window.location.pathname = buttonAction.navigateTo;
-      }
+      navigate(buttonAction.navigateTo);
     }
   };
   
-  // Handle custom error actions
+  // Handle custom error actions; the formula can read the failure as ErrorMessage
   const handleErrorAction = (error: any) => {
-    if (!buttonAction.onError) return;
+    if (!buttonAction.onError?.trim()) return;
     
-    try {
-      const errorFn = new Function('error', 'formData', `
-        try {
-          ${buttonAction.onError}
-        } catch (err) {
-          console.error("Error callback error:", err);
-        }
-      `);
-      
-      errorFn(error, formData);
-    } catch (err) {
-      console.error("Error executing error callback:", err);
-    }
+    runActionFormula(buttonAction.onError, {
+      ErrorMessage: error instanceof Error ? error.message : String(error)
+    });
   };
   
   // Main button click handler
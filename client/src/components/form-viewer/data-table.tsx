@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef, useMemo } from "react";
 import { 
   Table, TableBody, TableCell, TableHead, 
   TableHeader, TableRow 
@@ -9,95 +9,49 @@ import {
 } from "@/components/ui/pagination";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { FormElement } from "@shared/schema";
-import { Download, Search, ArrowUpDown, Check, X } from "lucide-react";
+import { FormElement, DataSource } from "@shared/schema";
+import { encodeRowKey, getKeyColumns } from "@shared/row-key";
+import { formParameterNames } from "@shared/query-params";
+import { formatFieldValue } from "@/lib/field-format";
+import { FormulaError, parseFormula } from "@shared/formula";
+import { evaluateCondition } from "@shared/formula-eval";
+import { Download, Search, ArrowUpDown, Check, X, Plus, Trash2 } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
-import { apiRequest } from "@/lib/queryClient";
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
+  AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle
+} from "@/components/ui/alert-dialog";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest, throwIfResNotOk } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useDataSourceRowsChanged } from "@/hooks/use-live-updates";
 import * as XLSX from "xlsx";
 
-// PowerApps-like formula evaluator
-const evaluateFilterExpression = (expression: string, item: any, formData: Record<string, any>): boolean => {
-  if (!expression) return true;
-  
-  try {
-    // Replace field references with actual values
-    let processedExpression = expression;
-    
-    // Match field references in single quotes like 'FieldName'
-    const fieldRegex = /'([^']+)'/g;
-    let match;
-    while ((match = fieldRegex.exec(expression)) !== null) {
-      const fieldName = match[1];
-      // Replace field reference with the actual value from formData
-      const fieldValue = formData[fieldName] !== undefined ? JSON.stringify(formData[fieldName]) : "null";
-      processedExpression = processedExpression.replace(`'${fieldName}'`, fieldValue);
-    }
-    
-    // Simple implementation of common PowerApps functions
-    const filter = (items: any[], predicate: (item: any) => boolean) => {
-      if (!Array.isArray(items)) return [];
-      return items.filter(predicate);
-    };
-    
-    const startsWith = (text: string, prefix: string) => {
-      if (typeof text !== 'string' || typeof prefix !== 'string') return false;
-      return text.startsWith(prefix);
-    };
-    
-    const endsWith = (text: string, suffix: string) => {
-      if (typeof text !== 'string' || typeof suffix !== 'string') return false;
-      return text.endsWith(suffix);
-    };
-    
-    const contains = (text: string, substring: string) => {
-      if (typeof text !== 'string' || typeof substring !== 'string') return false;
-      return text.includes(substring);
-    };
-    
-    const isBlank = (value: any) => {
-      return value === null || value === undefined || value === '';
-    };
-    
-    const isEmpty = (collection: any[]) => {
-      return !Array.isArray(collection) || collection.length === 0;
-    };
-    
-    // Make item properties available to the evaluation
-    const itemProperties = { ...item };
-    
-    // Create a function context with all available functions and properties
-    const context = {
-      ...itemProperties,
-      Filter: filter,
-      StartsWith: startsWith,
-      EndsWith: endsWith,
-      Contains: contains,
-      IsBlank: isBlank,
-      IsEmpty: isEmpty
-    };
-    
-    // Create a function to evaluate the expression with the context
-    const evalFn = new Function(...Object.keys(context), `return ${processedExpression};`);
-    
-    // Execute the function with the context values
-    return !!evalFn(...Object.values(context));
-  } catch (error) {
-    console.error("Error evaluating filter expression:", error);
-    return true; // Default to showing the item if there's an error
-  }
-};
-
 interface DataTableProps {
   element: FormElement;
   formId: number;
   formData?: Record<string, any>;
 }
 
+// apiRequest errors read "<status>: <body>"; pull out the server's message if there is one
+function serverErrorMessage(error: unknown, fallback: string): string {
+  if (!(error instanceof Error)) return fallback;
+  const body = error.message.replace(/^\d{3}: /, "");
+  try {
+    return JSON.parse(body).message || fallback;
+  } catch {
+    return body || fallback;
+  }
+}
+
 export function DataTable({ element, formId, formData }: DataTableProps) {
   const [data, setData] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // The data source's row limit left rows out
+  const [truncated, setTruncated] = useState(false);
+  // Why the filter expression couldn't be applied to some or all rows
+  const [filterError, setFilterError] = useState<string | null>(null);
   const [currentPage, setCurrentPage] = useState(1);
   const [sortField, setSortField] = useState<string | null>(null);
   const [sortDirection, setSortDirection] = useState<"asc" | "desc">("asc");
@@ -106,18 +60,94 @@ export function DataTable({ element, formId, formData }: DataTableProps) {
   const [editingCell, setEditingCell] = useState<{rowIndex: number, field: string} | null>(null);
   const [editValue, setEditValue] = useState<string>("");
   const [saving, setSaving] = useState(false);
+  // Row being added (field -> input value) and row awaiting delete confirmation
+  const [newRow, setNewRow] = useState<Record<string, string> | null>(null);
+  const [rowToDelete, setRowToDelete] = useState<any | null>(null);
+  // Bumped to refetch after rows are added or deleted, here or elsewhere
+  const [reloadKey, setReloadKey] = useState(0);
+  // Server-driven mode: total row count and the debounced search term sent to the server
+  const [totalRows, setTotalRows] = useState(0);
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const hasLoaded = useRef(false);
   const { toast } = useToast();
 
+  // Key columns of the data source; without them rows can't be written back
+  const dataSourceId = element.dataSourceId || element.dataSource?.id;
+  const { data: dataSource } = useQuery<DataSource>({
+    queryKey: [`/api/datasources/${dataSourceId}`],
+    enabled: !!dataSourceId,
+  });
+  const keyColumns = getKeyColumns(dataSource?.fields);
+  useDataSourceRowsChanged(dataSourceId, () => setReloadKey((key) => key + 1));
+  // Field types and display formats, by field name
+  const sourceFields = new Map(
+    (Array.isArray(dataSource?.fields) ? dataSource.fields as Array<{ name: string; type: string; format?: string }> : [])
+      .map((field) => [field.name, field])
+  );
+  const sourceConfig = typeof dataSource?.config === "string"
+    ? JSON.parse(dataSource.config || "{}")
+    : (dataSource?.config as Record<string, any> | undefined) || {};
+  // REST and SharePoint sources are read-only, database sources unless writes are allowed
+  const isWritable = (dataSource?.type === 'database' && sourceConfig.readOnly === false) || dataSource?.type === 'excel';
+  const canEdit = keyColumns.length > 0 && isWritable;
+  const canInsert = element.allowInsert === true && !!dataSourceId && isWritable;
+  const canDelete = element.allowDelete === true && canEdit;
+
   const rowsPerPage = element.rowsPerPage || 10;
   const isSearchable = element.searchable !== false;
   const showPagination = element.pagination !== false;
   const isExportable = element.exportable === true;
   
+  // With pagination on, paging, sorting and search happen on the server.
+  // Filter expressions are evaluated per row in the browser, so they need the full data set.
+  const serverMode = showPagination && !element.filterExpression;
+  
+  // Query sent to the server in server-driven mode (null in client mode)
+  const serverQuery = serverMode
+    ? JSON.stringify({
+        page: currentPage,
+        sort: sortField ? `${sortDirection === "desc" ? "-" : ""}${sortField}` : "",
+        search: debouncedSearch.trim()
+      })
+    : null;
+  
+  // Values of the form fields named as :parameters in the data source's stored query
+  const parameterNames = formParameterNames(sourceConfig.query);
+  const queryParams = parameterNames.length > 0
+    ? JSON.stringify(Object.fromEntries(parameterNames.map((name) => [name, formData?.[name] ?? null])))
+    : "";
+  
+  // Build the /data query string for server-driven mode
+  const buildServerParams = (page: number, pageSize: number) => {
+    const { sort, search } = JSON.parse(serverQuery || "{}");
+    const params = new URLSearchParams({
+      page: String(page),
+      pageSize: String(pageSize)
+    });
+    if (queryParams) params.set("params", queryParams);
+    if (sort) params.set("sort", sort);
+    if (search) {
+      params.set("search", search);
+      params.set("searchFields", (element.columns || []).map((column: { field: string }) => column.field).join(","));
+    }
+    return params;
+  };
+  
+  // Debounce the search box so typing doesn't fire a request per keystroke
+  useEffect(() => {
+    const handle = setTimeout(() => setDebouncedSearch(searchTerm), 300);
+    return () => clearTimeout(handle);
+  }, [searchTerm]);
+  
+  // Go back to the first page when the server-side search or the query's parameters change
+  useEffect(() => {
+    if (serverMode) {
+      setCurrentPage(1);
+    }
+  }, [debouncedSearch, queryParams]);
+  
   // Fetch data from data source
   useEffect(() => {
-    // Get data source ID from either format (direct or nested)
-    const dataSourceId = element.dataSourceId || element.dataSource?.id;
-    
     // Make sure we have a data source connected to the element
     if (!dataSourceId) {
       setLoading(false);
@@ -125,29 +155,65 @@ export function DataTable({ element, formId, formData }: DataTableProps) {
       return;
     }
 
+    let cancelled = false;
+
     const fetchData = async () => {
       try {
-        setLoading(true);
+        // Only show the loading placeholder on first load, not on every page change
+        if (!hasLoaded.current) {
+          setLoading(true);
+        }
         console.log("Fetching data from source:", dataSourceId);
         
-        const response = await apiRequest<any[]>(
-          `/api/datasources/${dataSourceId}/data`
+        if (serverQuery) {
+          const params = buildServerParams(currentPage, rowsPerPage);
+          const response = await apiRequest<{ rows: any[]; total: number; truncated?: boolean }>(
+            `/api/datasources/${dataSourceId}/data?${params.toString()}`
+          );
+          if (cancelled) return;
+          
+          if (response && Array.isArray(response.rows)) {
+            setData(response.rows);
+            setFilteredData(response.rows);
+            setTotalRows(response.total);
+            setTruncated(Boolean(response.truncated));
+            setError(null);
+          } else {
+            setError("Invalid data format received");
+            setData([]);
+            setFilteredData([]);
+          }
+          return;
+        }
+        
+        // The rows come as a plain array, so truncation is flagged in a header
+        const res = await fetch(
+          `/api/datasources/${dataSourceId}/data${queryParams ? `?${new URLSearchParams({ params: queryParams })}` : ""}`,
+          { credentials: "include" }
         );
+        await throwIfResNotOk(res);
+        const response: any[] = await res.json();
+        if (cancelled) return;
         
         if (response && Array.isArray(response)) {
           console.log(`Received ${response.length} records from data source`);
           setData(response);
           setFilteredData(response);
+          setTruncated(res.headers.get("X-Rows-Truncated") === "true");
         } else {
           setError("Invalid data format received");
           setData([]);
           setFilteredData([]);
         }
       } catch (err: any) {
+        if (cancelled) return;
         console.error("Error fetching data:", err);
         // Extract the specific error message if available
         let errorMessage = "Failed to load data";
-        if (err.message) {
+        if (err instanceof Error && err.message.startsWith("504: ")) {
+          // The query ran past the data source's timeout and was cancelled
+          errorMessage = `Timed out: ${serverErrorMessage(err, "the data source took too long to respond")}`;
+        } else if (err.message) {
           errorMessage = `Failed to load data: ${err.message}`;
         } else if (typeof err.response?.data?.message === 'string') {
           errorMessage = `Failed to load data: ${err.response.data.message}`;
@@ -158,14 +224,21 @@ export function DataTable({ element, formId, formData }: DataTableProps) {
         setData([]);
         setFilteredData([]);
       } finally {
-        setLoading(false);
+        if (!cancelled) {
+          hasLoaded.current = true;
+          setLoading(false);
+        }
       }
     };
 
     if (dataSourceId) {
       fetchData();
     }
-  }, [element.dataSourceId, element.dataSource?.id]);
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [element.dataSourceId, element.dataSource?.id, serverQuery, queryParams, rowsPerPage, reloadKey]);
 
   // Define column type for better type safety
   type TableColumn = {
@@ -177,22 +250,49 @@ export function DataTable({ element, formId, formData }: DataTableProps) {
     width?: number;
   };
 
+  // Parsed once per change of the expression rather than once per row
+  const filterFormula = useMemo(() => {
+    if (!element.filterExpression?.trim()) {
+      return { node: null, error: null };
+    }
+    try {
+      return { node: parseFormula(element.filterExpression), error: null };
+    } catch (error) {
+      return { node: null, error: error instanceof FormulaError ? error.message : String(error) };
+    }
+  }, [element.filterExpression]);
+
   // Filter data based on search term and/or filter expression
   useEffect(() => {
+    // The server already filtered the current page
+    if (serverMode) {
+      return;
+    }
+    
     if (!data.length) {
       setFilteredData([]);
+      setFilterError(filterFormula.error);
       return;
     }
     
     // First apply filter expression if present
     let filteredResult = data;
     
-    // Apply PowerApps-like filter expression if present
-    if (element.filterExpression && formData) {
-      console.log("Applying filter expression:", element.filterExpression);
-      filteredResult = data.filter(item => evaluateFilterExpression(element.filterExpression || "", item, formData || {}));
-      console.log(`Filter expression reduced data from ${data.length} to ${filteredResult.length} items`);
+    // Apply the filter formula, with each row's columns and the form's fields in scope
+    let formulaError = filterFormula.error;
+    if (filterFormula.node) {
+      const node = filterFormula.node;
+      filteredResult = data.filter(item => {
+        try {
+          return evaluateCondition(node, { record: item, form: formData || {} });
+        } catch (error) {
+          // Rows the formula can't be evaluated for stay visible
+          formulaError = formulaError || (error instanceof Error ? error.message : String(error));
+          return true;
+        }
+      });
     }
+    setFilterError(formulaError);
     
     // Then apply search term if present
     if (searchTerm.trim()) {
@@ -208,7 +308,7 @@ export function DataTable({ element, formId, formData }: DataTableProps) {
 
     setFilteredData(filteredResult);
     setCurrentPage(1); // Reset to first page after filtering
-  }, [searchTerm, data, element.columns, element.filterExpression, formData]);
+  }, [searchTerm, data, element.columns, filterFormula, formData, serverMode]);
 
   // Sort data
   const handleSort = (field: string) => {
@@ -219,11 +319,17 @@ export function DataTable({ element, formId, formData }: DataTableProps) {
       setSortField(field);
       setSortDirection("asc");
     }
+    
+    // A new server-side order starts from the first page
+    if (serverMode) {
+      setCurrentPage(1);
+    }
   };
 
   // Apply sorting
   useEffect(() => {
-    if (!sortField) {
+    // The server returns rows already sorted
+    if (!sortField || serverMode) {
       return;
     }
 
@@ -252,12 +358,31 @@ export function DataTable({ element, formId, formData }: DataTableProps) {
   }, [sortField, sortDirection]);
 
   // Export to Excel
-  const handleExport = () => {
+  const handleExport = async () => {
     // Get visible columns only
     const visibleColumns = element.columns?.filter((col: TableColumn) => col.visible !== false) || [];
     
+    // In server mode only the current page is loaded, so fetch every matching row (up to the server's page limit)
+    let rows = filteredData;
+    if (serverQuery && dataSourceId) {
+      const params = buildServerParams(1, 1000);
+      try {
+        const response = await apiRequest<{ rows: any[]; total: number }>(
+          `/api/datasources/${dataSourceId}/data?${params.toString()}`
+        );
+        rows = response.rows;
+      } catch (error) {
+        toast({
+          title: "Error",
+          description: "Failed to load data for export",
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+    
     // Map data to only include visible columns
-    const exportData = filteredData.map(row => {
+    const exportData = rows.map(row => {
       const newRow: Record<string, any> = {};
       visibleColumns.forEach((col: TableColumn) => {
         newRow[col.header || col.field] = row[col.field];
@@ -277,10 +402,11 @@ export function DataTable({ element, formId, formData }: DataTableProps) {
     XLSX.writeFile(workbook, fileName);
   };
 
-  // Calculate pagination
-  const totalPages = Math.ceil(filteredData.length / rowsPerPage);
-  const startIndex = (currentPage - 1) * rowsPerPage;
-  const paginatedData = filteredData.slice(startIndex, startIndex + rowsPerPage);
+  // Calculate pagination - in server mode filteredData already holds just the current page
+  const recordCount = serverMode ? totalRows : filteredData.length;
+  const totalPages = Math.ceil(recordCount / rowsPerPage);
+  const startIndex = serverMode ? 0 : (currentPage - 1) * rowsPerPage;
+  const paginatedData = serverMode ? filteredData : filteredData.slice(startIndex, startIndex + rowsPerPage);
 
   // Handle page change
   const goToPage = (page: number) => {
@@ -313,8 +439,6 @@ export function DataTable({ element, formId, formData }: DataTableProps) {
     try {
       setSaving(true);
       
-      // Get data source ID
-      const dataSourceId = element.dataSourceId || element.dataSource?.id;
       if (!dataSourceId) {
         toast({
           title: "Error",
@@ -330,18 +454,15 @@ export function DataTable({ element, formId, formData }: DataTableProps) {
       
       // Create an updated version of the row
       const updatedRow = { ...row, [field]: editValue };
+      const originalIndex = data.indexOf(row);
       
-      // Get the original index from the data array (this is needed for the API call)
-      // If we can't find it in the data array, use the rowIndex as a fallback
-      const originalIndex = data.findIndex(item => JSON.stringify(item) === JSON.stringify(row));
-      const indexToUse = originalIndex !== -1 ? originalIndex : rowIndex;
-      
-      // Send update to the server
+      // Send only the changed value; the row is addressed by its key columns
+      const rowKey = encodeURIComponent(encodeRowKey(row, keyColumns));
       const response = await apiRequest(
-        `/api/datasources/${dataSourceId}/data/${indexToUse}`,
+        `/api/datasources/${dataSourceId}/data/${rowKey}`,
         {
           method: "PUT",
-          data: updatedRow,
+          data: { values: { [field]: editValue } },
         }
       );
       
@@ -373,7 +494,7 @@ export function DataTable({ element, formId, formData }: DataTableProps) {
       console.error("Error updating cell:", error);
       toast({
         title: "Error",
-        description: error instanceof Error ? error.message : "Failed to update the value",
+        description: serverErrorMessage(error, "Failed to update the value"),
         variant: "destructive",
       });
     } finally {
@@ -381,6 +502,75 @@ export function DataTable({ element, formId, formData }: DataTableProps) {
     }
   };
 
+  // Insert the new row, sending only the editable columns that were filled in
+  const saveNewRow = async () => {
+    if (!newRow || !dataSourceId) return;
+    
+    try {
+      setSaving(true);
+      
+      const values: Record<string, string> = {};
+      for (const column of visibleColumns) {
+        if (column.editable && newRow[column.field] !== undefined && newRow[column.field] !== "") {
+          values[column.field] = newRow[column.field];
+        }
+      }
+      
+      await apiRequest(`/api/datasources/${dataSourceId}/data`, {
+        method: "POST",
+        data: { values },
+      });
+      
+      toast({
+        title: "Success",
+        description: "Row added successfully",
+      });
+      
+      setNewRow(null);
+      setReloadKey(key => key + 1);
+    } catch (error) {
+      console.error("Error adding row:", error);
+      toast({
+        title: "Error",
+        description: serverErrorMessage(error, "Failed to add the row"),
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+  
+  // Delete the row awaiting confirmation
+  const deleteRow = async () => {
+    if (!rowToDelete || !dataSourceId) return;
+    
+    try {
+      setSaving(true);
+      
+      const rowKey = encodeURIComponent(encodeRowKey(rowToDelete, keyColumns));
+      await apiRequest(`/api/datasources/${dataSourceId}/data/${rowKey}`, {
+        method: "DELETE",
+      });
+      
+      toast({
+        title: "Success",
+        description: "Row deleted successfully",
+      });
+      
+      setReloadKey(key => key + 1);
+    } catch (error) {
+      console.error("Error deleting row:", error);
+      toast({
+        title: "Error",
+        description: serverErrorMessage(error, "Failed to delete the row"),
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+      setRowToDelete(null);
+    }
+  };
+
   if (loading) {
     return (
       <div className="w-full p-8 text-center">
@@ -415,7 +605,9 @@ export function DataTable({ element, formId, formData }: DataTableProps) {
     );
   }
 
-  if (!filteredData.length) {
+  // Keep the table (and its search box) visible when a search matches nothing,
+  // and when rows can be added to an empty table
+  if (!filteredData.length && !searchTerm && !canInsert) {
     return (
       <div className="border rounded-md p-4 text-center">
         <p>No data available</p>
@@ -445,6 +637,19 @@ export function DataTable({ element, formId, formData }: DataTableProps) {
             </div>
           )}
           
+          {canInsert && (
+            <Button 
+              variant="outline" 
+              size="sm" 
+              onClick={() => setNewRow({})}
+              disabled={newRow !== null}
+              className="gap-1"
+            >
+              <Plus className="h-4 w-4" />
+              Add Row
+            </Button>
+          )}
+          
           {isExportable && (
             <Button 
               variant="outline" 
@@ -462,7 +667,7 @@ export function DataTable({ element, formId, formData }: DataTableProps) {
       {/* Data count badge */}
       <div>
         <Badge variant="outline" className="text-xs">
-          {filteredData.length} {filteredData.length === 1 ? 'record' : 'records'}
+          {recordCount} {recordCount === 1 ? 'record' : 'records'}
         </Badge>
       </div>
       
@@ -486,9 +691,57 @@ export function DataTable({ element, formId, formData }: DataTableProps) {
                   </div>
                 </TableHead>
               ))}
+              {(canInsert || canDelete) && <TableHead className="w-20" />}
             </TableRow>
           </TableHeader>
           <TableBody>
+            {newRow && (
+              <TableRow>
+                {visibleColumns.map((column: TableColumn) => (
+                  <TableCell key={column.field}>
+                    {column.editable ? (
+                      <Input
+                        value={newRow[column.field] ?? ""}
+                        onChange={(e) => setNewRow({ ...newRow, [column.field]: e.target.value })}
+                        placeholder={column.header || column.field}
+                        className="h-8 py-1"
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') {
+                            saveNewRow();
+                          } else if (e.key === 'Escape') {
+                            setNewRow(null);
+                          }
+                        }}
+                      />
+                    ) : (
+                      <span className="text-muted-foreground text-xs">Auto</span>
+                    )}
+                  </TableCell>
+                ))}
+                <TableCell>
+                  <div className="flex space-x-1">
+                    <Button 
+                      variant="ghost" 
+                      size="icon"
+                      className="h-8 w-8" 
+                      onClick={saveNewRow}
+                      disabled={saving}
+                    >
+                      <Check className="h-4 w-4 text-green-600" />
+                    </Button>
+                    <Button 
+                      variant="ghost" 
+                      size="icon"
+                      className="h-8 w-8" 
+                      onClick={() => setNewRow(null)}
+                      disabled={saving}
+                    >
+                      <X className="h-4 w-4 text-red-600" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            )}
             {paginatedData.map((row, rowIndex) => (
               <TableRow key={rowIndex}>
                 {visibleColumns.map((column: TableColumn) => {
@@ -537,27 +790,68 @@ export function DataTable({ element, formId, formData }: DataTableProps) {
                           </div>
                         </div>
                       ) : (
-                        <div className={column.editable ? "cursor-pointer hover:bg-gray-50 p-1 rounded" : ""}
+                        <div className={column.editable && canEdit ? "cursor-pointer hover:bg-gray-50 p-1 rounded" : ""}
                             onClick={() => {
-                              if (column.editable && !editingCell) {
+                              if (column.editable && canEdit && !editingCell) {
                                 startEditing(rowIndex, column.field, value);
                               }
                             }}
                         >
-                          {value !== undefined && value !== null
-                            ? String(value)
-                            : ''}
+                          {formatFieldValue(value, sourceFields.get(column.field))}
                         </div>
                       )}
                     </TableCell>
                   );
                 })}
+                {(canInsert || canDelete) && (
+                  <TableCell>
+                    {canDelete && (
+                      <Button 
+                        variant="ghost" 
+                        size="icon"
+                        className="h-8 w-8" 
+                        onClick={() => setRowToDelete(row)}
+                        disabled={saving}
+                        aria-label="Delete row"
+                      >
+                        <Trash2 className="h-4 w-4 text-red-600" />
+                      </Button>
+                    )}
+                  </TableCell>
+                )}
               </TableRow>
             ))}
           </TableBody>
         </Table>
       </div>
       
+      <AlertDialog open={rowToDelete !== null} onOpenChange={(open) => !open && setRowToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete row?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This permanently removes the row from the data source.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={saving}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={deleteRow} disabled={saving}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+      
+      {filterError && (
+        <p className="text-sm text-destructive">
+          Filter expression error: {filterError}
+        </p>
+      )}
+      
+      {truncated && (
+        <p className="text-sm text-muted-foreground">
+          Only the first rows are shown: this data source's row limit left the rest out.
+        </p>
+      )}
+      
       {/* Pagination */}
       {showPagination && totalPages > 1 && (
         <Pagination>
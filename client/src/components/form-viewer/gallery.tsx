@@ -2,6 +2,7 @@ import { useState, useEffect } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { FormElement } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
+import { useDataSourceRowsChanged } from "@/hooks/use-live-updates";
 
 interface GalleryProps {
   element: FormElement;
@@ -13,6 +14,10 @@ export function Gallery({ element, formId, formData }: GalleryProps) {
   const [items, setItems] = useState<any[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Bumped to reload the items when the data source's rows change
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useDataSourceRowsChanged(element.dataSourceId || element.dataSource?.id, () => setReloadKey((key) => key + 1));
 
   useEffect(() => {
     // Get data source ID from either format (direct or nested)
@@ -43,7 +48,7 @@ export function Gallery({ element, formId, formData }: GalleryProps) {
 
       fetchData();
     }
-  }, [element.dataSourceId, element.dataSource?.id]);
+  }, [element.dataSourceId, element.dataSource?.id, reloadKey]);
 
   if (loading) {
     return (
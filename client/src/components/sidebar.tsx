@@ -30,13 +30,9 @@ export function Sidebar({ isOpen }: SidebarProps) {
   const [hoverMenuOpen, setHoverMenuOpen] = useState<boolean>(false);
   const { isAdmin, user } = useAuth();
   
-  // Fetch applications with a short refetch interval to keep sidebar in sync
+  // Fetch applications; live change events keep the list in sync
   const { data: applications = [], isLoading: isLoadingApps } = useQuery<Application[]>({
     queryKey: ['/api/applications'],
-    enabled: true,
-    refetchOnWindowFocus: true,
-    staleTime: 2000, // Data is considered fresh for 2 seconds
-    refetchInterval: 5000, // Refetch every 5 seconds
   });
   
   // Handle hover on app items
@@ -0,0 +1,31 @@
+import { useEffect, useRef } from "react";
+import type { LiveEvent } from "@shared/live-events";
+import { invalidateForLiveEvent, subscribeLiveEvents } from "@/lib/live-events";
+
+// Keep cached queries in sync with changes pushed by the server while signed in
+export function useLiveUpdates(enabled: boolean) {
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+    return subscribeLiveEvents(invalidateForLiveEvent);
+  }, [enabled]);
+}
+
+// Call `onChange` when the rows of a data source change, e.g. to reload a table
+export function useDataSourceRowsChanged(dataSourceId: number | string | undefined, onChange: () => void) {
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    if (!dataSourceId) {
+      return;
+    }
+    const id = Number(dataSourceId);
+    return subscribeLiveEvents((event: LiveEvent) => {
+      if (event.type === "datasource-rows" && event.id === id) {
+        onChangeRef.current();
+      }
+    });
+  }, [dataSourceId]);
+}
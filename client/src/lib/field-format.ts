@@ -0,0 +1,50 @@
+import { format as formatDate, isValid, parseISO } from "date-fns";
+import { normalizeFieldType } from "@shared/field-types";
+
+type FormattedField = {
+  type: string;
+  format?: string;
+};
+
+// Number formats from FIELD_FORMATS: grouping and a fixed or maximum number of decimals
+function formatNumber(value: number, pattern: string): string {
+  if (pattern === "0%") {
+    return `${(value * 100).toLocaleString(undefined, { maximumFractionDigits: 1 })}%`;
+  }
+  const decimals = pattern.split(".")[1] || "";
+  return value.toLocaleString(undefined, {
+    useGrouping: pattern.includes(","),
+    minimumFractionDigits: decimals.replace(/#/g, "").length,
+    maximumFractionDigits: decimals.length,
+  });
+}
+
+// Text shown for a value of a data source field, using the field's display format if it has one
+export function formatFieldValue(value: unknown, field?: FormattedField): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  if (!field) {
+    return typeof value === "object" ? JSON.stringify(value) : String(value);
+  }
+
+  const type = normalizeFieldType(field.type);
+  const pattern = field.format;
+
+  if ((type === "number" || type === "integer") && pattern) {
+    const number = typeof value === "number" ? value : Number(value);
+    return Number.isFinite(number) ? formatNumber(number, pattern) : String(value);
+  }
+
+  if ((type === "date" || type === "datetime") && pattern) {
+    // Date-only values are local dates, not UTC midnight
+    const date = typeof value === "string" ? parseISO(value) : new Date(value as any);
+    return isValid(date) ? formatDate(date, pattern) : String(value);
+  }
+
+  if (type === "boolean" && typeof value === "boolean") {
+    return pattern === "Yes/No" ? (value ? "Yes" : "No") : String(value);
+  }
+
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
@@ -0,0 +1,76 @@
+import type { Query } from "@tanstack/react-query";
+import type { LiveEvent } from "@shared/live-events";
+import { queryClient } from "./queryClient";
+
+type LiveEventListener = (event: LiveEvent) => void;
+
+const listeners = new Set<LiveEventListener>();
+let source: EventSource | null = null;
+
+// One event stream per tab, opened for the first listener and closed after the last
+export function subscribeLiveEvents(listener: LiveEventListener): () => void {
+  listeners.add(listener);
+  if (!source) {
+    source = new EventSource("/api/events", { withCredentials: true });
+    source.addEventListener("change", (message) => {
+      let event: LiveEvent;
+      try {
+        event = JSON.parse((message as MessageEvent).data);
+      } catch {
+        return;
+      }
+      for (const current of Array.from(listeners)) {
+        current(event);
+      }
+    });
+  }
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && source) {
+      source.close();
+      source = null;
+    }
+  };
+}
+
+// Whether a cached query reads what the event says changed
+function isAffected(event: LiveEvent, query: Query): boolean {
+  const [key, ...rest] = query.queryKey;
+  if (typeof key !== "string") {
+    return false;
+  }
+
+  switch (event.type) {
+    case "applications":
+      return key === "/api/applications" || key.startsWith("/api/applications/");
+    case "forms":
+      return key === "/api/forms" ||
+        (event.id !== undefined && key === `/api/forms/${event.id}`) ||
+        // Forms listed per application in the sidebar
+        (key === "/api/applications" && rest[1] === "forms") ||
+        (key.startsWith("/api/applications/") && key.endsWith("/forms")) ||
+        // Forms are what use data sources
+        key === "/api/datasources/usage";
+    case "submissions":
+      return key === `/api/forms/${event.formId}/submissions`;
+    case "approvals":
+      return key.startsWith("/api/approval-requests");
+    case "datasources":
+      return key === "/api/datasources" ||
+        key === "/api/datasources/usage" ||
+        key === "/api/datasources/drift" ||
+        (event.id !== undefined && key.startsWith(`/api/datasources/${event.id}`)) ||
+        // A removed source may still be cached under its own id
+        (event.id === undefined && key.startsWith("/api/datasources/"));
+    case "datasource-rows":
+      return key.startsWith(`/api/datasources/${event.id}/`);
+    default:
+      return false;
+  }
+}
+
+// Refetch the cached queries an event affects; inactive ones refetch when next used
+export function invalidateForLiveEvent(event: LiveEvent) {
+  queryClient.invalidateQueries({ predicate: (query) => isAffected(event, query) });
+}
@@ -0,0 +1,24 @@
+// A submission that was saved but could not be written to the form's
+// submission target comes back as a 422 with the saved submission and
+// the target's error. It must not be sent again, or it is saved twice.
+
+export function savedSubmissionTargetError(error: unknown): string | undefined {
+  if (!(error instanceof Error) || !error.message.startsWith("422:")) {
+    return undefined;
+  }
+  try {
+    const body = JSON.parse(error.message.replace(/^\d{3}:\s*/, ""));
+    if (body && body.id !== undefined && body.target) {
+      return body.target.message || "The row could not be written";
+    }
+  } catch {
+    // Not a submission response
+  }
+  return undefined;
+}
+
+export const SAVED_SUBMISSION_TITLE = "Form submitted with errors";
+
+export function savedSubmissionDescription(targetError: string): string {
+  return `Your submission was saved, but writing it to the target table failed: ${targetError}. Please don't submit it again.`;
+}
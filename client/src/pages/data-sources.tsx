@@ -25,29 +25,69 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger
 } from "@/components/ui/dropdown-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { DataSourceModal } from "@/components/form-builder/data-source-modal";
 import { useToast } from "@/hooks/use-toast";
-import { Plus, MoreHorizontal, Edit, Trash, Database, FileText } from "lucide-react";
+import { describeUsage, type DataSourceUsage } from "@shared/data-source-usage";
+import type { SchemaDriftReport } from "@shared/schema-drift";
+import { Plus, MoreHorizontal, Edit, Trash, Database, FileText, RefreshCw, ArrowRightLeft, AlertTriangle, ListChecks } from "lucide-react";
+
+// Distinct forms and joined sources in a list of uses, for the "Used by" column
+function usedBy(usages: DataSourceUsage[]): string[] {
+  return Array.from(new Set(usages.map(usage =>
+    usage.kind === "join" ? `Join "${usage.dataSourceName}"` : usage.formName
+  )));
+}
 
 export default function DataSources() {
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [dataSourceModalOpen, setDataSourceModalOpen] = useState(false);
+  // The source being deleted or rebound, with the dialog asking about it
+  const [sourceToDelete, setSourceToDelete] = useState<any | null>(null);
+  const [sourceToRebind, setSourceToRebind] = useState<any | null>(null);
+  const [rebindTargetId, setRebindTargetId] = useState<string>("");
+  // The source whose schema changes are shown
+  const [driftSource, setDriftSource] = useState<any | null>(null);
   const { toast } = useToast();
   
   // Fetch data sources
-  const { data: dataSources, isLoading } = useQuery({
+  const { data: dataSources, isLoading } = useQuery<any[]>({
     queryKey: ['/api/datasources']
   });
   
-  // Delete data source mutation
+  // Forms, submission targets and joins using each data source
+  const { data: usage = {} } = useQuery<Record<string, DataSourceUsage[]>>({
+    queryKey: ['/api/datasources/usage']
+  });
+  const usagesOf = (source: any | null): DataSourceUsage[] => source ? usage[source.id] || [] : [];
+  
+  // Columns gone from or retyped in the backing sources, from the server's background check
+  const { data: drift = {} } = useQuery<Record<string, SchemaDriftReport>>({
+    queryKey: ['/api/datasources/drift']
+  });
+  const driftOf = (source: any | null): SchemaDriftReport | undefined => source ? drift[source.id] : undefined;
+  
+  // Delete data source mutation; sources still in use are deleted only once confirmed
   const deleteMutation = useMutation({
     mutationFn: async (dataSourceId: number) => {
-      return apiRequest('DELETE', `/api/datasources/${dataSourceId}`, null);
+      const force = usagesOf(sourceToDelete).length > 0 ? '?force=true' : '';
+      return apiRequest(`/api/datasources/${dataSourceId}${force}`, { method: 'DELETE' });
     },
     onSuccess: () => {
+      setSourceToDelete(null);
       queryClient.invalidateQueries({ queryKey: ['/api/datasources'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/datasources/usage'] });
       toast({
         title: "Data source deleted",
         description: "The data source has been deleted successfully"
@@ -63,10 +103,112 @@ export default function DataSources() {
     }
   });
   
-  const handleDelete = (dataSourceId: number) => {
-    if (window.confirm("Are you sure you want to delete this data source?")) {
-      deleteMutation.mutate(dataSourceId);
+  // Drop the server's cached rows so forms read the source again
+  const refreshMutation = useMutation({
+    mutationFn: async (dataSourceId: number) => {
+      return apiRequest(`/api/datasources/${dataSourceId}/refresh`, { method: 'POST' });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Data source refreshed",
+        description: "Cached data was cleared; forms will load fresh data"
+      });
+    },
+    onError: (error) => {
+      console.error('Error refreshing data source:', error);
+      toast({
+        title: "Error",
+        description: "Failed to refresh data source",
+        variant: "destructive"
+      });
     }
+  });
+  
+  // Move every use of a data source to another one
+  const rebindMutation = useMutation({
+    mutationFn: async ({ dataSourceId, targetId }: { dataSourceId: number; targetId: number }) => {
+      return apiRequest<{ forms: number; dataSources: number }>(`/api/datasources/${dataSourceId}/rebind`, {
+        method: 'POST',
+        data: { targetId }
+      });
+    },
+    onSuccess: (result) => {
+      setSourceToRebind(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/datasources/usage'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/forms'] });
+      toast({
+        title: "Data source rebound",
+        description: `${result.forms} form(s) and ${result.dataSources} joined source(s) now use the new data source`
+      });
+    },
+    onError: (error) => {
+      console.error('Error rebinding data source:', error);
+      const message = error instanceof Error ? error.message.replace(/^\d{3}: /, '') : '';
+      let description = "Failed to rebind data source";
+      try {
+        description = JSON.parse(message).message || description;
+      } catch {
+        // Not a JSON error body
+      }
+      toast({
+        title: "Error",
+        description,
+        variant: "destructive"
+      });
+    }
+  });
+  
+  // Check a source now rather than waiting for the background check
+  const checkDriftMutation = useMutation({
+    mutationFn: async (dataSourceId: number) => {
+      return apiRequest<SchemaDriftReport>(`/api/datasources/${dataSourceId}/drift`, { method: 'POST' });
+    },
+    onSuccess: (report) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/datasources/drift'] });
+      toast({
+        title: report.error ? "Could not check the data source" : "Schema checked",
+        description: report.error || (report.drifts.length > 0
+          ? `${report.drifts.length} column(s) changed since the fields were saved`
+          : "The saved fields match the data source")
+      });
+    },
+    onError: (error) => {
+      console.error('Error checking data source schema:', error);
+      toast({
+        title: "Error",
+        description: "Failed to check the data source",
+        variant: "destructive"
+      });
+    }
+  });
+  
+  // Replace the saved fields with the source's current columns
+  const resyncMutation = useMutation({
+    mutationFn: async (dataSourceId: number) => {
+      return apiRequest(`/api/datasources/${dataSourceId}/resync`, { method: 'POST' });
+    },
+    onSuccess: () => {
+      setDriftSource(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/datasources'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/datasources/drift'] });
+      toast({
+        title: "Fields re-synced",
+        description: "The data source's fields now match its columns"
+      });
+    },
+    onError: (error) => {
+      console.error('Error re-syncing data source fields:', error);
+      toast({
+        title: "Error",
+        description: "Failed to re-sync the data source's fields",
+        variant: "destructive"
+      });
+    }
+  });
+  
+  const openRebind = (source: any) => {
+    setRebindTargetId("");
+    setSourceToRebind(source);
   };
   
   return (
@@ -111,6 +253,7 @@ export default function DataSources() {
                       <TableHead>Name</TableHead>
                       <TableHead>Type</TableHead>
                       <TableHead>Connection</TableHead>
+                      <TableHead>Used by</TableHead>
                       <TableHead>Created</TableHead>
                       <TableHead className="text-right">Actions</TableHead>
                     </TableRow>
@@ -118,7 +261,21 @@ export default function DataSources() {
                   <TableBody>
                     {dataSources?.map((source) => (
                       <TableRow key={source.id}>
-                        <TableCell className="font-medium">{source.name}</TableCell>
+                        <TableCell className="font-medium">
+                          <div className="flex items-center gap-2">
+                            <span>{source.name}</span>
+                            {driftOf(source) && (
+                              <Badge
+                                variant="outline"
+                                className="cursor-pointer border-amber-400 bg-amber-50 text-amber-700"
+                                onClick={() => setDriftSource(source)}
+                              >
+                                <AlertTriangle className="h-3 w-3 mr-1" />
+                                {driftOf(source)!.error ? "Check failed" : "Schema changed"}
+                              </Badge>
+                            )}
+                          </div>
+                        </TableCell>
                         <TableCell>
                           <div className="flex items-center">
                             {source.type === "database" ? (
@@ -136,6 +293,15 @@ export default function DataSources() {
                             <span>{source.config.url}</span>
                           )}
                         </TableCell>
+                        <TableCell>
+                          {usagesOf(source).length > 0 ? (
+                            <span title={usagesOf(source).map(describeUsage).join("\n")}>
+                              {usedBy(usagesOf(source)).join(", ")}
+                            </span>
+                          ) : (
+                            <span className="text-gray-400">Not used</span>
+                          )}
+                        </TableCell>
                         <TableCell>{new Date(source.createdAt).toLocaleDateString()}</TableCell>
                         <TableCell className="text-right">
                           <DropdownMenu>
@@ -149,7 +315,21 @@ export default function DataSources() {
                                 <Edit className="h-4 w-4 mr-2" />
                                 <span>Edit</span>
                               </DropdownMenuItem>
-                              <DropdownMenuItem onClick={() => handleDelete(source.id)}>
+                              <DropdownMenuItem onClick={() => refreshMutation.mutate(source.id)}>
+                                <RefreshCw className="h-4 w-4 mr-2" />
+                                <span>Refresh now</span>
+                              </DropdownMenuItem>
+                              <DropdownMenuItem onClick={() => checkDriftMutation.mutate(source.id)}>
+                                <ListChecks className="h-4 w-4 mr-2" />
+                                <span>Check for schema changes</span>
+                              </DropdownMenuItem>
+                              {usagesOf(source).length > 0 && (
+                                <DropdownMenuItem onClick={() => openRebind(source)}>
+                                  <ArrowRightLeft className="h-4 w-4 mr-2" />
+                                  <span>Rebind to another source</span>
+                                </DropdownMenuItem>
+                              )}
+                              <DropdownMenuItem onClick={() => setSourceToDelete(source)}>
                                 <Trash className="h-4 w-4 mr-2" />
                                 <span>Delete</span>
                               </DropdownMenuItem>
@@ -170,6 +350,135 @@ export default function DataSources() {
         isOpen={dataSourceModalOpen} 
         onClose={() => setDataSourceModalOpen(false)} 
       />
+      
+      <Dialog open={sourceToDelete !== null} onOpenChange={(open) => !open && setSourceToDelete(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete "{sourceToDelete?.name}"?</DialogTitle>
+            <DialogDescription>
+              {usagesOf(sourceToDelete).length > 0
+                ? "This data source is still in use. Deleting it leaves these without data:"
+                : "This data source isn't used by any form."}
+            </DialogDescription>
+          </DialogHeader>
+          {usagesOf(sourceToDelete).length > 0 && (
+            <ul className="max-h-60 overflow-y-auto text-sm list-disc pl-5 space-y-1">
+              {usagesOf(sourceToDelete).map((usage, index) => (
+                <li key={index}>{describeUsage(usage)}</li>
+              ))}
+            </ul>
+          )}
+          <DialogFooter>
+            {usagesOf(sourceToDelete).length > 0 && (
+              <Button
+                variant="outline"
+                onClick={() => {
+                  const source = sourceToDelete;
+                  setSourceToDelete(null);
+                  openRebind(source);
+                }}
+              >
+                Rebind first
+              </Button>
+            )}
+            <Button variant="outline" onClick={() => setSourceToDelete(null)}>Cancel</Button>
+            <Button
+              variant="destructive"
+              disabled={deleteMutation.isPending}
+              onClick={() => sourceToDelete && deleteMutation.mutate(sourceToDelete.id)}
+            >
+              {usagesOf(sourceToDelete).length > 0 ? "Delete anyway" : "Delete"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+      
+      <Dialog open={driftSource !== null} onOpenChange={(open) => !open && setDriftSource(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Schema changes in "{driftSource?.name}"</DialogTitle>
+            <DialogDescription>
+              {driftOf(driftSource)?.error
+                ? `The data source couldn't be read: ${driftOf(driftSource)!.error}`
+                : "These saved fields no longer match the data source's columns."}
+            </DialogDescription>
+          </DialogHeader>
+          {(driftOf(driftSource)?.drifts.length ?? 0) > 0 && (
+            <ul className="text-sm list-disc pl-5 space-y-1">
+              {driftOf(driftSource)!.drifts.map((change) => (
+                <li key={change.field}>
+                  <span className="font-medium">{change.field}</span>
+                  {change.kind === "missing"
+                    ? " is missing"
+                    : ` changed from ${change.storedType} to ${change.currentType}`}
+                </li>
+              ))}
+            </ul>
+          )}
+          {(driftOf(driftSource)?.affected.length ?? 0) > 0 && (
+            <div className="space-y-1">
+              <p className="text-sm font-medium">Affected form elements</p>
+              <ul className="max-h-48 overflow-y-auto text-sm list-disc pl-5 space-y-1">
+                {driftOf(driftSource)!.affected.map((element, index) => (
+                  <li key={index}>
+                    Form "{element.formName}": {element.elementLabel} ({element.field})
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDriftSource(null)}>Close</Button>
+            {!driftOf(driftSource)?.error && (
+              <Button
+                disabled={resyncMutation.isPending}
+                onClick={() => driftSource && resyncMutation.mutate(driftSource.id)}
+              >
+                Re-sync fields
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+      
+      <Dialog open={sourceToRebind !== null} onOpenChange={(open) => !open && setSourceToRebind(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rebind "{sourceToRebind?.name}"</DialogTitle>
+            <DialogDescription>
+              Everything below is switched to the data source you pick. Columns are kept by name,
+              so the new source should have the same fields.
+            </DialogDescription>
+          </DialogHeader>
+          <ul className="max-h-60 overflow-y-auto text-sm list-disc pl-5 space-y-1">
+            {usagesOf(sourceToRebind).map((usage, index) => (
+              <li key={index}>{describeUsage(usage)}</li>
+            ))}
+          </ul>
+          <Select value={rebindTargetId} onValueChange={setRebindTargetId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select a data source" />
+            </SelectTrigger>
+            <SelectContent>
+              {dataSources?.filter((source) => source.id !== sourceToRebind?.id).map((source) => (
+                <SelectItem key={source.id} value={String(source.id)}>{source.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSourceToRebind(null)}>Cancel</Button>
+            <Button
+              disabled={!rebindTargetId || rebindMutation.isPending}
+              onClick={() => sourceToRebind && rebindMutation.mutate({
+                dataSourceId: sourceToRebind.id,
+                targetId: parseInt(rebindTargetId)
+              })}
+            >
+              Rebind
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
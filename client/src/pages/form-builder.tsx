@@ -6,10 +6,11 @@ import { FormElementsList } from "@/components/form-builder/form-elements-list";
 import { FormCanvas } from "@/components/form-builder/form-canvas";
 import { PropertiesPanel } from "@/components/form-builder/properties-panel";
 import { DataSourceModal } from "@/components/form-builder/data-source-modal";
+import { SubmissionTargetModal } from "@/components/form-builder/submission-target-modal";
 import { FormRenderer } from "@/components/form-viewer/form-renderer";
 import { Button } from "@/components/ui/button";
-import { Database, ArrowLeft, Loader2 } from "lucide-react";
-import { FormElement, Form, Application } from "@shared/schema";
+import { Database, ArrowLeft, Loader2, TableProperties } from "lucide-react";
+import { FormElement, Form, Application, SubmissionTarget } from "@shared/schema";
 import { Dialog, DialogContent } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
@@ -22,6 +23,8 @@ export default function FormBuilder() {
   const [formElements, setFormElements] = useState<FormElement[]>([]);
   const [selectedElement, setSelectedElement] = useState<FormElement | null>(null);
   const [dataSourceModalOpen, setDataSourceModalOpen] = useState(false);
+  const [submissionTargetModalOpen, setSubmissionTargetModalOpen] = useState(false);
+  const [submissionTarget, setSubmissionTarget] = useState<SubmissionTarget | null>(null);
   const [previewModalOpen, setPreviewModalOpen] = useState(false);
   const [formName, setFormName] = useState("New Form");
   const [formDescription, setFormDescription] = useState("");
@@ -52,6 +55,7 @@ export default function FormBuilder() {
     if (formData) {
       setFormName(formData.name);
       setFormDescription(formData.description || "");
+      setSubmissionTarget((formData.submissionTarget as SubmissionTarget | null) ?? null);
       // Make sure elements is typed correctly
       if (Array.isArray(formData.elements)) {
         setFormElements(formData.elements as FormElement[]);
@@ -66,6 +70,7 @@ export default function FormBuilder() {
       name: string, 
       description: string,
       elements: FormElement[],
+      submissionTarget: SubmissionTarget | null,
       applicationId?: number
     }) => {
       console.log("Saving form with name:", formData.name);
@@ -166,6 +171,7 @@ export default function FormBuilder() {
       name: formName, 
       description: formDescription,
       elements: formElements,
+      submissionTarget,
       applicationId: applicationId
     });
   };
@@ -239,6 +245,14 @@ export default function FormBuilder() {
                   <Database className="h-4 w-4" />
                   <span>Configure Data Source</span>
                 </Button>
+                <Button 
+                  variant="outline"
+                  className="w-full mt-2 flex items-center justify-center space-x-2"
+                  onClick={() => setSubmissionTargetModalOpen(true)}
+                >
+                  <TableProperties className="h-4 w-4" />
+                  <span>{submissionTarget ? "Edit Submission Target" : "Submission Target"}</span>
+                </Button>
               </div>
             </div>
             
@@ -273,6 +287,15 @@ export default function FormBuilder() {
         formId={savedFormId}
       />
       
+      {/* Submission Target Modal (applied when the form is saved) */}
+      <SubmissionTargetModal
+        isOpen={submissionTargetModalOpen}
+        onClose={() => setSubmissionTargetModalOpen(false)}
+        formElements={formElements}
+        target={submissionTarget}
+        onChange={setSubmissionTarget}
+      />
+      
       {/* Preview Modal */}
       <Dialog open={previewModalOpen} onOpenChange={setPreviewModalOpen}>
         <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
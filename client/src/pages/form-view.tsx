@@ -7,6 +7,7 @@ import { useToast } from "@/hooks/use-toast";
 import { ArrowLeft, Loader2 } from "lucide-react";
 import { Form, FormElement, Application } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
+import { savedSubmissionTargetError, savedSubmissionDescription, SAVED_SUBMISSION_TITLE } from "@/lib/submissions";
 import { useAuth } from "@/hooks/use-auth";
 
 export default function FormView() {
@@ -47,6 +48,16 @@ export default function FormView() {
         description: "Your form has been submitted successfully"
       });
     } catch (error) {
+      // Saved, but not written to the submission target: resubmitting would save it twice
+      const targetError = savedSubmissionTargetError(error);
+      if (targetError) {
+        toast({
+          title: SAVED_SUBMISSION_TITLE,
+          description: savedSubmissionDescription(targetError),
+          variant: "destructive"
+        });
+        return;
+      }
       console.error('Error submitting form:', error);
       toast({
         title: "Error",
@@ -21,9 +21,6 @@ export default function UserDashboard() {
   // Fetch all forms
   const { data: forms = [], isLoading } = useQuery<Form[]>({
     queryKey: ["/api/forms"],
-    refetchInterval: 5000,
-    staleTime: 2000,
-    refetchOnWindowFocus: true,
   });
 
   // Filter forms: only show published forms
@@ -38,8 +35,6 @@ export default function UserDashboard() {
   // Show the application name with each form
   const { data: applications = [] } = useQuery<any[]>({
     queryKey: ["/api/applications"],
-    refetchInterval: 5000,
-    staleTime: 2000,
   });
 
   const getApplicationName = (applicationId: number) => {
@@ -0,0 +1,3 @@
+-- Add the submission target (a mapped database table) to forms
+ALTER TABLE forms
+ADD COLUMN IF NOT EXISTS submission_target JSONB;
\ No newline at end of file
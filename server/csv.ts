@@ -0,0 +1,109 @@
+// Reading and writing delimited text files (CSV, TSV) for file data sources
+
+export const CSV_DELIMITERS = [',', ';', '\t', '|'];
+
+export type TextEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+// Extensions that are parsed as delimited text rather than as a workbook
+export function isDelimitedFile(fileUrl: string): boolean {
+  return /\.(csv|tsv|txt)(\?.*)?$/i.test(fileUrl);
+}
+
+/**
+ * Pick the encoding of a text file: a byte order mark wins, then strict
+ * UTF-8 decoding, and anything that isn't valid UTF-8 is treated as
+ * Windows-1252 (what Excel on Windows writes for "CSV").
+ */
+export function detectEncoding(buffer: Buffer): TextEncoding {
+  if (buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) return 'utf-8';
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) return 'utf-16le';
+  if (buffer[0] === 0xfe && buffer[1] === 0xff) return 'utf-16be';
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+}
+
+export function decodeText(buffer: Buffer, encoding?: string): string {
+  const resolved = !encoding || encoding === 'auto' ? detectEncoding(buffer) : encoding;
+  // TextDecoder drops the byte order mark for us
+  return new TextDecoder(resolved).decode(buffer);
+}
+
+// The delimiter that splits the first lines into the most consistent number of columns
+export function detectDelimiter(text: string): string {
+  const sample = text.split(/\r?\n/).filter(line => line.trim() !== '').slice(0, 10);
+  if (sample.length === 0) {
+    return ',';
+  }
+
+  let best = ',';
+  let bestScore = 0;
+  for (const delimiter of CSV_DELIMITERS) {
+    const counts = sample.map(line => parseCsv(line, delimiter)[0]?.length ?? 1);
+    if (counts[0] < 2) continue;
+    // Reward delimiters that give every line the same column count
+    const consistent = counts.filter(count => count === counts[0]).length;
+    const score = consistent * 100 + counts[0];
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+// Parse delimited text into rows of cells, honouring quoted fields (RFC 4180)
+export function parseCsv(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+export function formatCsv(rows: any[][], delimiter: string): string {
+  const formatCell = (value: any) => {
+    const text = value === null || value === undefined ? '' : String(value);
+    return /["\r\n]/.test(text) || text.includes(delimiter)
+      ? `"${text.replace(/"/g, '""')}"`
+      : text;
+  };
+  return rows.map(row => row.map(formatCell).join(delimiter)).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,79 @@
+// The interface every database backend implements. DatabaseConnector looks
+// backends up in the registry (./registry) by a data source's dbType, so a
+// new database only needs a module under ./backends and a registerBackend call.
+
+import type { BackendConfigField } from '@shared/database-backends';
+import type { PooledConnection } from './connection-manager';
+import type { DatabaseResponse, QueryResult } from './connector';
+import type { QueryDialect, SqlDialect } from './data-query';
+import { buildSqlInsert, buildSqlUpdate, buildSqlDelete, type SqlStatement } from './data-write';
+import {
+  buildTablesQuery,
+  buildColumnsQuery,
+  groupTables,
+  toSchemaColumns,
+  type SchemaNamespace,
+  type SchemaColumn
+} from './introspection';
+
+// Runs a statement on the data source's pooled connection, throwing its error
+export type QueryRunner = (query: string, params?: any[]) => Promise<QueryResult>;
+
+// A table, view or collection to describe; a MongoDB pipeline is sampled for its output fields
+export interface ColumnTarget {
+  schema?: string;
+  table: string;
+  pipeline?: any[];
+}
+
+export interface DatabaseBackend {
+  // The dbType of data sources using this backend, lower case
+  type: string;
+  label: string;
+  /**
+   * The language of stored queries, and the SQL rules for identifiers,
+   * placeholders and paging. A new SQL backend uses the closest dialect.
+   */
+  dialect: QueryDialect;
+  // Connection settings shown in the data source editor, in order
+  fields: BackendConfigField[];
+  // Settings that connect to the environment's own database, for "Use default environment database"
+  defaultConnection?: () => Record<string, any>;
+
+  // Connect once, reporting the server version and the tables with their fields
+  test(config: any): Promise<DatabaseResponse>;
+  // A long-lived pool, kept per data source by the connection manager
+  createPool(config: any, maxConnections: number): Promise<PooledConnection>;
+
+  listSchemas(run: QueryRunner, config: any): Promise<SchemaNamespace[]>;
+  listColumns(run: QueryRunner, config: any, target: ColumnTarget): Promise<SchemaColumn[]>;
+
+  // Single-row writes, run through the pool like any other statement
+  buildInsert(config: any, values: Record<string, any>): SqlStatement;
+  buildUpdate(config: any, key: Record<string, any>, values: Record<string, any>): SqlStatement;
+  buildDelete(config: any, key: Record<string, any>): SqlStatement;
+}
+
+// Introspection and writes of a SQL backend, from its dialect's catalog queries and statements
+export function sqlOperations(dialect: SqlDialect): Pick<
+  DatabaseBackend,
+  'dialect' | 'listSchemas' | 'listColumns' | 'buildInsert' | 'buildUpdate' | 'buildDelete'
+> {
+  return {
+    dialect,
+    listSchemas: async (run, config) => {
+      const statement = buildTablesQuery(dialect, config);
+      return groupTables((await run(statement.query, statement.params)).rows);
+    },
+    listColumns: async (run, config, target) => {
+      const statement = buildColumnsQuery(dialect, target, config);
+      return toSchemaColumns((await run(statement.query, statement.params)).rows);
+    },
+    buildInsert: (config, values) => buildSqlInsert(dialect, config, values),
+    buildUpdate: (config, key, values) => buildSqlUpdate(dialect, config, key, values),
+    buildDelete: (config, key) => buildSqlDelete(dialect, config, key)
+  };
+}
+
+// Fields a connection test preselects for a new data source
+export const PRESELECTED_FIELD_NAMES = ['id', 'name', 'title', 'email', 'description'];
@@ -0,0 +1,179 @@
+import * as mssql from 'mssql';
+import { sqlOperations, PRESELECTED_FIELD_NAMES, type DatabaseBackend } from '../backend';
+import type { QueryResult } from '../connector';
+
+// Read a statement's rows as they arrive; once `maxRows` are in, the
+// request is cancelled instead of reading (and holding) the rest
+function readRows(request: mssql.Request, query: string, maxRows: number): Promise<QueryResult> {
+  return new Promise((resolve, reject) => {
+    const rows: any[] = [];
+    let stopped = false;
+    request.stream = true;
+    request.on('row', (row: any) => {
+      if (stopped) {
+        return;
+      }
+      rows.push(row);
+      if (rows.length >= maxRows) {
+        stopped = true;
+        request.cancel();
+      }
+    });
+    // Cancelling at the limit fails the request; the rows read are the result
+    request.on('error', (error: Error) => {
+      if (!stopped) {
+        reject(error);
+      }
+    });
+    request.on('done', (result: { rowsAffected?: number[] }) => {
+      resolve({ rows, rowCount: stopped ? undefined : result.rowsAffected?.[0] });
+    });
+    request.query(query);
+  });
+}
+
+export const mssqlBackend: DatabaseBackend = {
+  type: 'mssql',
+  label: 'Microsoft SQL Server',
+  ...sqlOperations('mssql'),
+  fields: [
+    { key: 'server', label: 'Server/Host', type: 'text', placeholder: 'localhost', defaultValue: 'localhost', required: true },
+    { key: 'port', label: 'Port', type: 'text', placeholder: '1433', defaultValue: '1433' },
+    { key: 'database', label: 'Database Name', type: 'text', required: true },
+    { key: 'schema', label: 'Schema', type: 'text', placeholder: 'dbo', fromTable: 'schema' },
+    { key: 'user', label: 'Username', type: 'text' },
+    { key: 'password', label: 'Password', type: 'password' }
+  ],
+
+  async test(config) {
+    const {
+      server,
+      port = 1433,
+      database,
+      user,
+      password,
+      trustServerCertificate = true
+    } = config;
+
+    try {
+      // Configure connection
+      const sqlConfig: mssql.config = {
+        server,
+        port: parseInt(port.toString()),
+        database,
+        user,
+        password,
+        options: {
+          trustServerCertificate,
+          encrypt: true
+        }
+      };
+
+      // Connect to SQL Server
+      const pool = await mssql.connect(sqlConfig);
+
+      // Test connection by querying SQL Server version
+      const versionResult = await pool.request().query('SELECT @@VERSION as version');
+      const version = versionResult.recordset[0].version;
+
+      // Query schema information
+      const tableResult = await pool.request().query(`
+        SELECT
+          TABLE_NAME as table_name,
+          COLUMN_NAME as column_name,
+          DATA_TYPE as data_type
+        FROM
+          INFORMATION_SCHEMA.COLUMNS
+        WHERE
+          TABLE_CATALOG = '${database}'
+        ORDER BY
+          TABLE_NAME, ORDINAL_POSITION
+      `);
+
+      // Group columns by table
+      const fieldsByTable = tableResult.recordset.reduce((acc: any, row: any) => {
+        const { table_name, column_name, data_type } = row;
+        if (!acc[table_name]) {
+          acc[table_name] = [];
+        }
+        acc[table_name].push({
+          name: column_name,
+          type: data_type,
+          selected: PRESELECTED_FIELD_NAMES.includes(column_name.toLowerCase())
+        });
+        return acc;
+      }, {});
+
+      await pool.close();
+
+      return {
+        success: true,
+        message: 'SQL Server connection successful',
+        info: {
+          server,
+          database,
+          version
+        },
+        tables: Object.keys(fieldsByTable),
+        fields: fieldsByTable
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `SQL Server connection failed: ${error instanceof Error ? error.message : String(error)}`,
+        error: error instanceof Error ? error : new Error(String(error))
+      };
+    }
+  },
+
+  async createPool(config, maxConnections) {
+    const {
+      server,
+      port = 1433,
+      database,
+      user,
+      password,
+      trustServerCertificate = true
+    } = config;
+
+    // Use a dedicated pool rather than the driver's global one
+    const pool = new mssql.ConnectionPool({
+      server,
+      port: parseInt(port.toString()),
+      database,
+      user,
+      password,
+      options: {
+        trustServerCertificate,
+        encrypt: true
+      },
+      pool: {
+        max: maxConnections,
+        min: 0
+      }
+    });
+    await pool.connect();
+
+    return {
+      // Positional parameters are bound as @p1, @p2, ... SQL Server has no
+      // read-only transactions, so read-only sources rely on the statement check.
+      query: async (query, params = [], options) => {
+        const request = pool.request();
+        params.forEach((value, index) => request.input(`p${index + 1}`, value));
+        const cancel = () => request.cancel();
+        options?.signal?.addEventListener('abort', cancel, { once: true });
+        try {
+          // Reads with a row limit stop at it instead of holding the whole result
+          if (options?.maxRows) {
+            return await readRows(request, query, options.maxRows);
+          }
+          const result = await request.query(query);
+          return { rows: result.recordset || [], rowCount: result.rowsAffected?.[0] };
+        } finally {
+          options?.signal?.removeEventListener('abort', cancel);
+        }
+      },
+      close: () => pool.close()
+    };
+  }
+};
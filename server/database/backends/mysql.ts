@@ -0,0 +1,247 @@
+import * as mysql from 'mysql2/promise';
+import { sqlOperations, PRESELECTED_FIELD_NAMES, type DatabaseBackend } from '../backend';
+import type { ConnectionQueryOptions } from '../connection-manager';
+import type { QueryResult } from '../connector';
+
+/**
+ * Read a statement's rows as they arrive, on a connection of the callback
+ * pool under the promise one (only it can stream). Once `maxRows` are in,
+ * the statement is killed and the rows still on the wire are dropped.
+ */
+function readRows(
+  pool: mysql.Pool,
+  query: string,
+  params: any[],
+  maxRows: number,
+  options: ConnectionQueryOptions
+): Promise<QueryResult> {
+  return new Promise((resolve, reject) => {
+    pool.pool.getConnection((connectError, connection) => {
+      if (connectError) {
+        return reject(connectError);
+      }
+
+      const rows: any[] = [];
+      let rowCount: number | undefined;
+      let stopped = false;
+      let failure: Error | undefined;
+
+      // KILL QUERY has to be sent over a second connection
+      const cancel = () => {
+        pool.query(`KILL QUERY ${Number(connection.threadId)}`).catch(() => undefined);
+      };
+      options.signal?.addEventListener('abort', cancel, { once: true });
+
+      const finish = () => {
+        options.signal?.removeEventListener('abort', cancel);
+        const settle = () => {
+          // Killing the statement at the limit fails it; the rows read are the result
+          if (failure && !stopped) {
+            reject(failure);
+          } else {
+            resolve({ rows, rowCount });
+          }
+        };
+        if (stopped) {
+          // A late KILL QUERY must not reach the next statement on this connection
+          connection.destroy();
+          settle();
+        } else if (options.readOnly) {
+          // Nothing to commit in a read-only transaction
+          connection.query('ROLLBACK', () => {
+            connection.release();
+            settle();
+          });
+        } else {
+          connection.release();
+          settle();
+        }
+      };
+
+      const run = () => {
+        let returnsRows = false;
+        connection.execute(query, params)
+          .on('fields', () => {
+            returnsRows = true;
+          })
+          .on('result', (result: any) => {
+            // Write statements resolve to a result header instead of rows
+            if (!returnsRows) {
+              rowCount = result.affectedRows;
+            } else if (!stopped) {
+              rows.push(result);
+              if (rows.length >= maxRows) {
+                stopped = true;
+                cancel();
+              }
+            }
+          })
+          .on('error', (error: Error) => {
+            failure = error;
+          })
+          .on('end', finish);
+      };
+
+      if (options.readOnly) {
+        connection.query('START TRANSACTION READ ONLY', (error: Error | null) => {
+          if (error) {
+            failure = error;
+            finish();
+          } else {
+            run();
+          }
+        });
+      } else {
+        run();
+      }
+    });
+  });
+}
+
+export const mysqlBackend: DatabaseBackend = {
+  type: 'mysql',
+  label: 'MySQL',
+  ...sqlOperations('mysql'),
+  fields: [
+    { key: 'server', label: 'Server/Host', type: 'text', placeholder: 'localhost', defaultValue: 'localhost', required: true },
+    { key: 'port', label: 'Port', type: 'text', placeholder: '3306', defaultValue: '3306' },
+    { key: 'database', label: 'Database Name', type: 'text', required: true },
+    { key: 'schema', label: 'Schema', type: 'text', fromTable: 'schema' },
+    { key: 'user', label: 'Username', type: 'text' },
+    { key: 'password', label: 'Password', type: 'password' }
+  ],
+
+  async test(config) {
+    const {
+      host,
+      server = 'localhost',
+      port = 3306,
+      database,
+      user,
+      password
+    } = config;
+
+    let connection;
+
+    try {
+      connection = await mysql.createConnection({
+        host: host || server,
+        port: parseInt(port.toString()),
+        database,
+        user,
+        password
+      });
+
+      // Test the connection
+      const [versionRows] = await connection.execute('SELECT VERSION() as version');
+      const version = Array.isArray(versionRows) && versionRows.length > 0
+        ? (versionRows[0] as any).version
+        : 'Unknown';
+
+      // Get metadata about tables in the database
+      const [tableRows] = await connection.execute(`
+        SELECT
+          TABLE_NAME as table_name,
+          COLUMN_NAME as column_name,
+          DATA_TYPE as data_type
+        FROM
+          INFORMATION_SCHEMA.COLUMNS
+        WHERE
+          TABLE_SCHEMA = ?
+        ORDER BY
+          TABLE_NAME, ORDINAL_POSITION
+        LIMIT 100
+      `, [database]);
+
+      // Group columns by table
+      const fieldsByTable = (tableRows as any[]).reduce((acc: any, row: any) => {
+        const { table_name, column_name, data_type } = row;
+        if (!acc[table_name]) {
+          acc[table_name] = [];
+        }
+        acc[table_name].push({
+          name: column_name,
+          type: data_type,
+          selected: PRESELECTED_FIELD_NAMES.includes(column_name.toLowerCase())
+        });
+        return acc;
+      }, {});
+
+      return {
+        success: true,
+        message: 'MySQL connection successful',
+        info: {
+          server: host,
+          database,
+          version
+        },
+        tables: Object.keys(fieldsByTable),
+        fields: fieldsByTable
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `MySQL connection failed: ${error instanceof Error ? error.message : String(error)}`,
+        error: error instanceof Error ? error : new Error(String(error))
+      };
+    } finally {
+      if (connection) {
+        await connection.end();
+      }
+    }
+  },
+
+  async createPool(config, maxConnections) {
+    const {
+      host,
+      server = 'localhost',
+      port = 3306,
+      database,
+      user,
+      password
+    } = config;
+
+    const pool = mysql.createPool({
+      host: host || server,
+      port: parseInt(port.toString()),
+      database,
+      user,
+      password,
+      connectionLimit: maxConnections
+    });
+
+    return {
+      query: async (query, params, options) => {
+        // Reads with a row limit stop at it instead of holding the whole result
+        if (options?.maxRows) {
+          return readRows(pool, query, params || [], options.maxRows, options);
+        }
+
+        const connection = await pool.getConnection();
+        // KILL QUERY has to be sent over a second connection
+        const cancel = () => {
+          pool.query(`KILL QUERY ${Number(connection.threadId)}`).catch(() => undefined);
+        };
+        options?.signal?.addEventListener('abort', cancel, { once: true });
+        try {
+          if (options?.readOnly) {
+            await connection.query('START TRANSACTION READ ONLY');
+          }
+          const [rows, fields] = await connection.execute(query, params || []);
+          // Write statements resolve to a result header instead of rows
+          if (!Array.isArray(rows)) {
+            return { rows: [], rowCount: (rows as mysql.ResultSetHeader).affectedRows };
+          }
+          return { rows: rows as any[], fields };
+        } finally {
+          options?.signal?.removeEventListener('abort', cancel);
+          if (options?.readOnly) {
+            await connection.query('ROLLBACK').catch(() => undefined);
+          }
+          connection.release();
+        }
+      },
+      close: () => pool.end()
+    };
+  }
+};
@@ -0,0 +1,169 @@
+import oracledb from 'oracledb';
+import { sqlOperations, PRESELECTED_FIELD_NAMES, type DatabaseBackend } from '../backend';
+
+// Initialize the Oracle client once, if the driver needs it
+function initOracleClient() {
+  if (typeof oracledb.initOracleClient === 'function') {
+    try {
+      oracledb.initOracleClient();
+    } catch (err) {
+      console.log('Oracle client already initialized or not needed in this environment');
+    }
+  }
+}
+
+// The connect string of a config: the one given, or host:port/service
+function connectString(config: any): string | undefined {
+  const { connectString, host, port = 1521, service } = config;
+  if (!connectString && host && service) {
+    return `${host}:${port}/${service}`;
+  }
+  return connectString;
+}
+
+export const oracleBackend: DatabaseBackend = {
+  type: 'oracle',
+  label: 'Oracle',
+  ...sqlOperations('oracle'),
+  fields: [
+    {
+      key: 'connectString',
+      label: 'Connection String (optional)',
+      type: 'text',
+      placeholder: 'host:port/service',
+      help: 'If provided, host/port/service fields are ignored',
+      fullWidth: true
+    },
+    { key: 'host', label: 'Host', type: 'text', placeholder: 'localhost', defaultValue: 'localhost', required: true, requiredUnless: 'connectString' },
+    { key: 'port', label: 'Port', type: 'text', placeholder: '1521', defaultValue: '1521' },
+    { key: 'service', label: 'Service Name', type: 'text', placeholder: 'orcl', required: true, requiredUnless: 'connectString' },
+    { key: 'user', label: 'Username', type: 'text' },
+    { key: 'password', label: 'Password', type: 'password' }
+  ],
+
+  async test(config) {
+    const { host, service, user, password } = config;
+
+    let connection;
+
+    try {
+      initOracleClient();
+
+      // Connect to Oracle
+      connection = await oracledb.getConnection({
+        connectString: connectString(config),
+        user,
+        password
+      });
+
+      // Test connection by querying Oracle version
+      const versionResult = await connection.execute('SELECT BANNER as version FROM V$VERSION WHERE BANNER LIKE \'Oracle%\'');
+      const version = versionResult && versionResult.rows && versionResult.rows.length > 0 ? (versionResult.rows[0] as any[])[0] : 'Unknown';
+
+      // Query schema information
+      const tableResult = await connection.execute(`
+        SELECT
+          TABLE_NAME,
+          COLUMN_NAME,
+          DATA_TYPE
+        FROM
+          ALL_TAB_COLUMNS
+        WHERE
+          OWNER = :owner
+        ORDER BY
+          TABLE_NAME, COLUMN_ID
+      `, [user.toUpperCase()], { outFormat: oracledb.OUT_FORMAT_OBJECT });
+
+      // Group columns by table
+      const fieldsByTable = (tableResult.rows as any[]).reduce((acc: any, row: any) => {
+        const { TABLE_NAME, COLUMN_NAME, DATA_TYPE } = row;
+        if (!acc[TABLE_NAME]) {
+          acc[TABLE_NAME] = [];
+        }
+        acc[TABLE_NAME].push({
+          name: COLUMN_NAME,
+          type: DATA_TYPE,
+          selected: PRESELECTED_FIELD_NAMES.includes(COLUMN_NAME.toLowerCase())
+        });
+        return acc;
+      }, {});
+
+      return {
+        success: true,
+        message: 'Oracle connection successful',
+        info: {
+          server: host || 'via connection string',
+          service: service || 'via connection string',
+          version
+        },
+        tables: Object.keys(fieldsByTable),
+        fields: fieldsByTable
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `Oracle connection failed: ${error instanceof Error ? error.message : String(error)}`,
+        error: error instanceof Error ? error : new Error(String(error))
+      };
+    } finally {
+      if (connection) {
+        try {
+          await connection.close();
+        } catch (e) {
+          console.error('Error closing Oracle connection:', e);
+        }
+      }
+    }
+  },
+
+  async createPool(config, maxConnections) {
+    const { user, password } = config;
+
+    initOracleClient();
+
+    const pool = await oracledb.createPool({
+      connectString: connectString(config),
+      user,
+      password,
+      poolMin: 0,
+      poolMax: maxConnections
+    });
+
+    return {
+      query: async (query, params = [], options) => {
+        const connection = await pool.getConnection();
+        const cancel = () => {
+          connection.break().catch(() => undefined);
+        };
+        options?.signal?.addEventListener('abort', cancel, { once: true });
+        try {
+          if (options?.readOnly) {
+            await connection.execute('SET TRANSACTION READ ONLY');
+          }
+          const result = await connection.execute(
+            query,
+            params,
+            {
+              outFormat: oracledb.OUT_FORMAT_OBJECT,
+              autoCommit: !options?.readOnly,
+              // The driver fetches no more rows than this (0 is all of them)
+              maxRows: options?.maxRows ?? 0
+            }
+          );
+          if (options?.readOnly) {
+            await connection.rollback();
+          }
+          return { rows: (result.rows as any[]) || [], rowCount: result.rowsAffected };
+        } finally {
+          options?.signal?.removeEventListener('abort', cancel);
+          try {
+            await connection.close();
+          } catch (e) {
+            console.error('Error closing Oracle connection:', e);
+          }
+        }
+      },
+      close: () => pool.close(0)
+    };
+  }
+};
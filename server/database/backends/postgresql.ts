@@ -0,0 +1,182 @@
+import { Pool as PgPool, neonConfig, type PoolClient } from '@neondatabase/serverless';
+import ws from 'ws';
+import { sqlOperations, PRESELECTED_FIELD_NAMES, type DatabaseBackend } from '../backend';
+import { sqlKeywords } from '../statement-guard';
+
+// Configure Neon serverless
+neonConfig.webSocketConstructor = ws;
+
+// The server process of a client, for pg_cancel_backend. The driver sets it
+// on connect but its type declarations leave it out.
+function backendProcessId(client: PoolClient): number | undefined {
+  const { processID } = client as PoolClient & { processID?: number };
+  return processID;
+}
+
+// Single reads that can be opened as a cursor; DECLARE takes no writes, not even in a CTE
+function isCursorQuery(query: string): boolean {
+  const { keywords, statements } = sqlKeywords('postgresql', query);
+  return statements === 1
+    && ['SELECT', 'WITH', 'VALUES'].includes(keywords[0])
+    && !keywords.some(keyword => ['INSERT', 'UPDATE', 'DELETE', 'MERGE', 'INTO'].includes(keyword));
+}
+
+export const postgresqlBackend: DatabaseBackend = {
+  type: 'postgresql',
+  label: 'PostgreSQL',
+  ...sqlOperations('postgresql'),
+  fields: [
+    { key: 'server', label: 'Server/Host', type: 'text', placeholder: 'localhost', defaultValue: 'localhost', required: true },
+    { key: 'port', label: 'Port', type: 'text', placeholder: '5432', defaultValue: '5432' },
+    { key: 'database', label: 'Database Name', type: 'text', required: true },
+    { key: 'schema', label: 'Schema', type: 'text', placeholder: 'public', fromTable: 'schema' },
+    { key: 'user', label: 'Username', type: 'text' },
+    { key: 'password', label: 'Password', type: 'password' }
+  ],
+  defaultConnection: () => ({ connectionString: process.env.DATABASE_URL }),
+
+  async test(config) {
+    const {
+      connectionString,
+      host,
+      server = 'localhost',
+      port = 5432,
+      database,
+      user,
+      password
+    } = config;
+
+    let pool;
+
+    try {
+      // Use either connection string or individual parameters
+      if (connectionString) {
+        pool = new PgPool({ connectionString });
+      } else {
+        pool = new PgPool({
+          host: host || server,
+          port: parseInt(port.toString()),
+          database,
+          user,
+          password,
+          ssl: true
+        });
+      }
+
+      const client = await pool.connect();
+
+      try {
+        // Test the connection
+        const versionResult = await client.query('SELECT version()');
+
+        // Get metadata about tables in the database
+        const tableQuery = await client.query(`
+          SELECT table_name, column_name, data_type
+          FROM information_schema.columns
+          WHERE table_schema = 'public'
+          ORDER BY table_name, ordinal_position
+          LIMIT 100
+        `);
+
+        // Group columns by table to create field metadata
+        const fieldsByTable = tableQuery.rows.reduce((acc: any, row: any) => {
+          const { table_name, column_name, data_type } = row;
+          if (!acc[table_name]) {
+            acc[table_name] = [];
+          }
+          acc[table_name].push({
+            name: column_name,
+            type: data_type,
+            selected: PRESELECTED_FIELD_NAMES.includes(column_name.toLowerCase())
+          });
+          return acc;
+        }, {});
+
+        return {
+          success: true,
+          message: 'PostgreSQL connection successful',
+          info: {
+            server: host || 'via connection string',
+            database: database || 'via connection string',
+            version: versionResult.rows[0].version
+          },
+          tables: Object.keys(fieldsByTable),
+          fields: fieldsByTable
+        };
+      } finally {
+        client.release();
+        await pool.end();
+      }
+    } catch (error) {
+      console.error('PostgreSQL connection error:', error);
+      return {
+        success: false,
+        message: `PostgreSQL connection failed: ${error instanceof Error ? error.message : String(error)}`,
+        error: error instanceof Error ? error : new Error(String(error))
+      };
+    }
+  },
+
+  async createPool(config, maxConnections) {
+    const {
+      connectionString,
+      host,
+      server = 'localhost',
+      port = 5432,
+      database,
+      user,
+      password
+    } = config;
+
+    // Use either connection string or individual parameters
+    const pool = connectionString
+      ? new PgPool({ connectionString, max: maxConnections })
+      : new PgPool({
+          host: host || server,
+          port: parseInt(port.toString()),
+          database,
+          user,
+          password,
+          ssl: true,
+          max: maxConnections
+        });
+
+    return {
+      query: async (query, params, options) => {
+        const client = await pool.connect();
+        // Cancel the running statement from another connection when the caller gives up
+        const cancel = () => {
+          pool.query('SELECT pg_cancel_backend($1)', [backendProcessId(client)]).catch(() => undefined);
+        };
+        options?.signal?.addEventListener('abort', cancel, { once: true });
+        // Reads with a row limit fetch up to it from a cursor instead of holding the whole result
+        const maxRows = options?.maxRows && isCursorQuery(query) ? options.maxRows : undefined;
+        try {
+          if (options?.readOnly) {
+            await client.query('BEGIN READ ONLY');
+          } else if (maxRows) {
+            // Cursors only live inside a transaction
+            await client.query('BEGIN');
+          }
+          if (maxRows) {
+            await client.query(`DECLARE row_limit NO SCROLL CURSOR FOR ${query.trim().replace(/;\s*$/, '')}`, params);
+            const result = await client.query(`FETCH FORWARD ${maxRows} FROM row_limit`);
+            return { rows: result.rows, fields: result.fields };
+          }
+          const result = await client.query(query, params);
+          return { rows: result.rows, fields: result.fields, rowCount: result.rowCount ?? undefined };
+        } finally {
+          options?.signal?.removeEventListener('abort', cancel);
+          if (options?.readOnly) {
+            // Nothing to commit in a read-only transaction
+            await client.query('ROLLBACK').catch(() => undefined);
+          } else if (maxRows) {
+            await client.query('COMMIT').catch(() => undefined);
+          }
+          client.release();
+        }
+      },
+      close: () => pool.end()
+    };
+  }
+};
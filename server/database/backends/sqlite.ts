@@ -0,0 +1,110 @@
+import Database from 'better-sqlite3';
+import { sqlOperations, PRESELECTED_FIELD_NAMES, type DatabaseBackend } from '../backend';
+import { QueryTimeoutError } from '../query-limits';
+
+export const sqliteBackend: DatabaseBackend = {
+  type: 'sqlite',
+  label: 'SQLite',
+  ...sqlOperations('sqlite'),
+  fields: [
+    { key: 'filename', label: 'Database Filename', type: 'text', placeholder: '/path/to/database.db', required: true, fullWidth: true }
+  ],
+
+  async test(config) {
+    const { filename } = config;
+
+    let db;
+
+    try {
+      // Connect to SQLite database
+      db = new Database(filename);
+
+      // Test connection by getting SQLite version
+      const versionRow: any = db.prepare('SELECT sqlite_version() as version').get();
+      const version = versionRow?.version || 'Unknown';
+
+      // Get table list
+      const tables = db.prepare("SELECT name FROM sqlite_master WHERE type='table' AND name NOT LIKE 'sqlite_%'").all();
+      const tableNames = tables.map((t: any) => t.name);
+
+      // Get schema for each table
+      const fieldsByTable: Record<string, any[]> = {};
+
+      for (const tableName of tableNames) {
+        const columns = db.prepare(`PRAGMA table_info("${tableName}")`).all();
+        fieldsByTable[tableName] = columns.map((col: any) => ({
+          name: col.name,
+          type: col.type,
+          selected: PRESELECTED_FIELD_NAMES.includes(col.name.toLowerCase())
+        }));
+      }
+
+      return {
+        success: true,
+        message: 'SQLite connection successful',
+        info: {
+          filename,
+          version
+        },
+        tables: tableNames,
+        fields: fieldsByTable
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `SQLite connection failed: ${error instanceof Error ? error.message : String(error)}`,
+        error: error instanceof Error ? error : new Error(String(error))
+      };
+    } finally {
+      if (db) {
+        db.close();
+      }
+    }
+  },
+
+  // A single handle per file is reused
+  async createPool(config) {
+    const { filename } = config;
+
+    const db = new Database(filename);
+
+    return {
+      query: async (query, params = [], options) => {
+        const stmt = db.prepare(query);
+
+        if (options?.readOnly && !stmt.readonly) {
+          throw new Error('Only read-only statements are allowed on this data source');
+        }
+
+        // Statements that return data are read, everything else is run. Reading
+        // blocks the event loop, so the time limit is checked between rows.
+        if (stmt.reader) {
+          const deadline = options?.timeoutMs ? Date.now() + options.timeoutMs : Infinity;
+          const rows: any[] = [];
+          const iterator = stmt.iterate(...params);
+          try {
+            for (let next = iterator.next(); !next.done; next = iterator.next()) {
+              if (Date.now() > deadline) {
+                throw new QueryTimeoutError(options!.timeoutMs!);
+              }
+              rows.push(next.value);
+              if (options?.maxRows && rows.length >= options.maxRows) {
+                break;
+              }
+            }
+          } finally {
+            // Leaving early has to release the statement
+            iterator.return?.();
+          }
+          return { rows };
+        }
+
+        const info = stmt.run(...params);
+        return { rows: [], rowCount: info.changes };
+      },
+      close: async () => {
+        db.close();
+      }
+    };
+  }
+};
@@ -0,0 +1,222 @@
+import type { QueryResult } from './connector';
+
+export interface ConnectionQueryOptions {
+  // Run in a read-only transaction where the driver supports one
+  readOnly?: boolean;
+  // Stop reading rows after this many
+  maxRows?: number;
+  // The caller's time limit; drivers that block the event loop (SQLite) check it themselves
+  timeoutMs?: number;
+  // Aborted when the query times out or its request goes away; the driver cancels the statement
+  signal?: AbortSignal;
+}
+
+// A long-lived connection pool (or client) for a single data source
+export interface PooledConnection {
+  query(query: string, params?: any[], options?: ConnectionQueryOptions): Promise<QueryResult>;
+  close(): Promise<void>;
+}
+
+interface PoolEntry {
+  fingerprint: string;
+  connection: Promise<PooledConnection>;
+  activeCount: number;
+  lastUsed: number;
+  stale: boolean;
+}
+
+// Every pool is busy and `maxPools` leaves no room for another
+export class PoolLimitError extends Error {
+  constructor(maxPools: number) {
+    super(`All ${maxPools} data source pools are busy; try again once a running query has finished`);
+    this.name = 'PoolLimitError';
+  }
+}
+
+export interface ConnectionManagerOptions {
+  maxConnectionsPerPool: number;
+  maxPools: number;
+  idleTimeoutMs: number;
+}
+
+/**
+ * Keeps one pool per data source alive between requests instead of
+ * opening and tearing down a connection for every query.
+ *
+ * Pools are keyed by data source id (or an ad-hoc key for unsaved configs)
+ * and carry a fingerprint of the config they were built from, so a changed
+ * config transparently rebuilds the pool. Pools that have been idle longer
+ * than `idleTimeoutMs` are closed by a background sweep. At most `maxPools`
+ * pools are open at once: the least recently used idle one is closed to make
+ * room, and a new pool is refused with a `PoolLimitError` while all are busy.
+ */
+export class ConnectionManager {
+  private pools: Map<string, PoolEntry>;
+  private sweepTimer?: NodeJS.Timeout;
+  readonly options: ConnectionManagerOptions;
+
+  constructor(options: ConnectionManagerOptions) {
+    this.pools = new Map();
+    this.options = options;
+  }
+
+  // Run `fn` with the pooled connection for `key`, creating it if needed
+  async withConnection<T>(
+    key: string | number,
+    fingerprint: string,
+    create: (maxConnections: number) => Promise<PooledConnection>,
+    fn: (connection: PooledConnection) => Promise<T>
+  ): Promise<T> {
+    const poolKey = String(key);
+    let entry = this.pools.get(poolKey);
+
+    // Config changed since the pool was built - retire the old one
+    if (entry && entry.fingerprint !== fingerprint) {
+      this.retire(poolKey, entry);
+      entry = undefined;
+    }
+
+    // Register the new entry synchronously so concurrent callers share it
+    if (!entry) {
+      this.ensureCapacity();
+      entry = {
+        fingerprint,
+        connection: create(this.options.maxConnectionsPerPool),
+        activeCount: 0,
+        lastUsed: Date.now(),
+        stale: false
+      };
+      this.pools.set(poolKey, entry);
+      this.startSweep();
+    }
+
+    entry.activeCount++;
+    entry.lastUsed = Date.now();
+
+    try {
+      const connection = await entry.connection;
+      return await fn(connection);
+    } catch (error) {
+      // Don't keep a pool around that never managed to connect
+      const failed = await entry.connection.then(() => false, () => true);
+      if (failed && this.pools.get(poolKey) === entry) {
+        this.pools.delete(poolKey);
+      }
+      throw error;
+    } finally {
+      entry.activeCount--;
+      entry.lastUsed = Date.now();
+      if (entry.stale && entry.activeCount === 0) {
+        await this.closeEntry(entry);
+      }
+    }
+  }
+
+  // Drop the pool for a key, e.g. after its data source config was changed or deleted
+  async invalidate(key: string | number): Promise<void> {
+    const poolKey = String(key);
+    const entry = this.pools.get(poolKey);
+    if (entry) {
+      await this.retire(poolKey, entry);
+    }
+  }
+
+  // Close every pool, e.g. on shutdown
+  async closeAll(): Promise<void> {
+    const entries = Array.from(this.pools.values());
+    this.pools.clear();
+    this.stopSweep();
+    await Promise.all(entries.map(entry => this.closeEntry(entry)));
+  }
+
+  // Close pools that have not been used for longer than the idle timeout
+  async evictIdle(now: number = Date.now()): Promise<void> {
+    const entries = Array.from(this.pools.entries());
+    for (const [poolKey, entry] of entries) {
+      if (entry.activeCount === 0 && now - entry.lastUsed >= this.options.idleTimeoutMs) {
+        this.pools.delete(poolKey);
+        await this.closeEntry(entry);
+      }
+    }
+    if (this.pools.size === 0) {
+      this.stopSweep();
+    }
+  }
+
+  get size(): number {
+    return this.pools.size;
+  }
+
+  // Make room for a new pool by closing the least recently used idle one;
+  // throws when every pool is in use rather than going over the limit
+  private ensureCapacity() {
+    if (this.pools.size < this.options.maxPools) {
+      return;
+    }
+
+    let oldestKey: string | undefined;
+    let oldestEntry: PoolEntry | undefined;
+    const entries = Array.from(this.pools.entries());
+    for (const [poolKey, entry] of entries) {
+      if (entry.activeCount === 0 && (!oldestEntry || entry.lastUsed < oldestEntry.lastUsed)) {
+        oldestKey = poolKey;
+        oldestEntry = entry;
+      }
+    }
+
+    if (!oldestKey || !oldestEntry) {
+      throw new PoolLimitError(this.options.maxPools);
+    }
+    this.retire(oldestKey, oldestEntry);
+  }
+
+  // Remove an entry from the map; it is closed now if idle, otherwise once its last user is done
+  private retire(poolKey: string, entry: PoolEntry): Promise<void> {
+    entry.stale = true;
+    if (this.pools.get(poolKey) === entry) {
+      this.pools.delete(poolKey);
+    }
+    return entry.activeCount === 0 ? this.closeEntry(entry) : Promise.resolve();
+  }
+
+  private async closeEntry(entry: PoolEntry): Promise<void> {
+    let connection: PooledConnection;
+    try {
+      connection = await entry.connection;
+    } catch {
+      // Pools that failed to connect have nothing to close
+      return;
+    }
+
+    try {
+      await connection.close();
+    } catch (error) {
+      console.error('Error closing pooled connection:', error);
+    }
+  }
+
+  private startSweep() {
+    if (this.sweepTimer) {
+      return;
+    }
+    const interval = Math.max(1000, Math.min(60000, Math.floor(this.options.idleTimeoutMs / 2)));
+    this.sweepTimer = setInterval(() => {
+      this.evictIdle().catch(error => console.error('Error evicting idle pools:', error));
+    }, interval);
+    // Never keep the process alive just for the sweep
+    this.sweepTimer.unref();
+  }
+
+  private stopSweep() {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = undefined;
+    }
+  }
+}
+
+export const connectionManager = new ConnectionManager({
+  maxConnectionsPerPool: parseInt(process.env.DATASOURCE_POOL_MAX || '5'),
+  maxPools: parseInt(process.env.DATASOURCE_MAX_POOLS || '50'),
+  idleTimeoutMs: parseInt(process.env.DATASOURCE_POOL_IDLE_MS || String(5 * 60 * 1000))
+});
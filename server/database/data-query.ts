@@ -0,0 +1,506 @@
+// Paging, sorting and filtering for data source reads, pushed down into
+// each backend: SQL per dialect, MongoDB find options, or in memory for files.
+
+export type FilterOperator = 'eq' | 'ne' | 'contains' | 'startsWith' | 'endsWith' | 'gt' | 'gte' | 'lt' | 'lte';
+
+export interface FilterCondition {
+  field: string;
+  operator: FilterOperator;
+  value: any;
+}
+
+export interface SortSpec {
+  field: string;
+  direction: 'asc' | 'desc';
+}
+
+export interface DataQueryOptions {
+  page: number;
+  pageSize: number;
+  sort: SortSpec[];
+  filters: FilterCondition[];
+  // Free-text search, matched case-insensitively against any of `fields`
+  search?: { term: string; fields: string[] };
+}
+
+export interface PagedResult {
+  rows: any[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export class DataQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DataQueryError';
+  }
+}
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 1000;
+
+const FILTER_OPERATORS: FilterOperator[] = ['eq', 'ne', 'contains', 'startsWith', 'endsWith', 'gt', 'gte', 'lt', 'lte'];
+
+// Field names are column names, never MongoDB operators or operator paths
+function checkFieldName(field: string): void {
+  if (field.startsWith('$') || field.includes('.$')) {
+    throw new DataQueryError(`Invalid field name "${field}"`);
+  }
+}
+
+// Filter values are compared as they are; objects would be read as MongoDB operators
+export function isScalar(value: unknown): boolean {
+  return value === undefined || value === null || ['string', 'number', 'boolean'].includes(typeof value);
+}
+
+/**
+ * Parse `page`, `pageSize`, `sort`, `filter`, `search` and `searchFields` from
+ * a request query string. Returns null when none of them are present, so
+ * callers can keep serving the plain array response.
+ *
+ * - sort: `name,-createdAt` or `name:asc,createdAt:desc`
+ * - filter: JSON array of `{ field, operator, value }`
+ * - searchFields: comma-separated list of fields the search term applies to
+ */
+export function parseDataQueryOptions(query: Record<string, any>): DataQueryOptions | null {
+  const keys = ['page', 'pageSize', 'sort', 'filter', 'search'];
+  if (!keys.some(key => query[key] !== undefined)) {
+    return null;
+  }
+
+  const page = query.page !== undefined ? parseInt(String(query.page)) : 1;
+  if (isNaN(page) || page < 1) {
+    throw new DataQueryError('page must be a positive integer');
+  }
+
+  const pageSize = query.pageSize !== undefined ? parseInt(String(query.pageSize)) : DEFAULT_PAGE_SIZE;
+  if (isNaN(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+    throw new DataQueryError(`pageSize must be between 1 and ${MAX_PAGE_SIZE}`);
+  }
+
+  const sort: SortSpec[] = [];
+  if (query.sort) {
+    for (const part of String(query.sort).split(',').map(p => p.trim()).filter(Boolean)) {
+      if (part.startsWith('-')) {
+        sort.push({ field: part.slice(1), direction: 'desc' });
+      } else {
+        const [field, direction = 'asc'] = part.split(':');
+        if (direction !== 'asc' && direction !== 'desc') {
+          throw new DataQueryError(`Invalid sort direction "${direction}"`);
+        }
+        sort.push({ field, direction });
+      }
+    }
+  }
+
+  const filters: FilterCondition[] = [];
+  if (query.filter) {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(String(query.filter));
+    } catch {
+      throw new DataQueryError('filter must be a JSON array');
+    }
+    if (!Array.isArray(parsed)) {
+      throw new DataQueryError('filter must be a JSON array');
+    }
+    for (const condition of parsed) {
+      const operator = condition?.operator || 'eq';
+      if (!condition || typeof condition.field !== 'string' || !condition.field) {
+        throw new DataQueryError('Each filter needs a field');
+      }
+      if (!FILTER_OPERATORS.includes(operator)) {
+        throw new DataQueryError(`Unsupported filter operator "${operator}"`);
+      }
+      if (!isScalar(condition.value)) {
+        throw new DataQueryError(`The filter value for "${condition.field}" must be a string, number, boolean or null`);
+      }
+      filters.push({ field: condition.field, operator, value: condition.value });
+    }
+  }
+
+  let search: DataQueryOptions['search'];
+  if (query.search && String(query.search).trim()) {
+    const fields = query.searchFields
+      ? String(query.searchFields).split(',').map(f => f.trim()).filter(Boolean)
+      : [];
+    search = { term: String(query.search).trim(), fields };
+  }
+
+  const options: DataQueryOptions = { page, pageSize, sort, filters, search };
+  referencedFields(options).forEach(checkFieldName);
+  return options;
+}
+
+// Names of every field the options refer to, for validation against known columns
+export function referencedFields(options: DataQueryOptions): string[] {
+  return [
+    ...options.sort.map(s => s.field),
+    ...options.filters.map(f => f.field),
+    ...(options.search?.fields || [])
+  ];
+}
+
+// SQL
+
+export type SqlDialect = 'postgresql' | 'mysql' | 'mssql' | 'oracle' | 'sqlite';
+
+// The language of a database source's stored queries: SQL, or MongoDB filters and pipelines
+export type QueryDialect = SqlDialect | 'mongodb';
+
+export interface SqlSource {
+  // Either a table (optionally schema-qualified) or a stored query to wrap
+  table?: string;
+  schema?: string;
+  query?: string;
+  // Values already bound to the stored query's placeholders, numbered from 1
+  params?: any[];
+}
+
+export interface SqlPageQuery {
+  query: string;
+  countQuery: string;
+  params: any[];
+}
+
+export function quoteIdentifier(dialect: SqlDialect, name: string): string {
+  switch (dialect) {
+    case 'mysql':
+      return '`' + name.replace(/`/g, '``') + '`';
+    case 'mssql':
+      return '[' + name.replace(/]/g, ']]') + ']';
+    default:
+      return '"' + name.replace(/"/g, '""') + '"';
+  }
+}
+
+export function placeholder(dialect: SqlDialect, index: number): string {
+  switch (dialect) {
+    case 'postgresql':
+      return `$${index}`;
+    case 'mssql':
+      return `@p${index}`;
+    case 'oracle':
+      return `:${index}`;
+    default:
+      return '?';
+  }
+}
+
+// The FROM target for a table or stored query
+export function sqlFromClause(dialect: SqlDialect, source: SqlSource): string {
+  if (source.query) {
+    // Strip a trailing semicolon so the query can be used as a sub-select
+    return `(${source.query.trim().replace(/;\s*$/, '')}) q`;
+  }
+  if (!source.table) {
+    throw new DataQueryError('A table or query is required');
+  }
+
+  // MySQL and SQLite have no separate schema level worth qualifying
+  const schema = dialect === 'postgresql' ? (source.schema || 'public')
+    : dialect === 'mssql' || dialect === 'oracle' ? source.schema
+    : undefined;
+
+  return schema
+    ? `${quoteIdentifier(dialect, schema)}.${quoteIdentifier(dialect, source.table)}`
+    : quoteIdentifier(dialect, source.table);
+}
+
+// Every row of a table or stored query, or at most `limit` rows in the dialect's own syntax
+export function buildSqlSelectQuery(dialect: SqlDialect, source: SqlSource, limit?: number): string {
+  const from = sqlFromClause(dialect, source);
+  if (!limit) {
+    return `SELECT * FROM ${from}`;
+  }
+  switch (dialect) {
+    case 'mssql':
+      return `SELECT TOP (${limit}) * FROM ${from}`;
+    case 'oracle':
+      return `SELECT * FROM ${from} FETCH FIRST ${limit} ROWS ONLY`;
+    default:
+      return `SELECT * FROM ${from} LIMIT ${limit}`;
+  }
+}
+
+export function textExpression(dialect: SqlDialect, column: string): string {
+  switch (dialect) {
+    case 'mysql':
+      return `LOWER(CAST(${column} AS CHAR))`;
+    case 'mssql':
+      return `LOWER(CAST(${column} AS NVARCHAR(MAX)))`;
+    case 'oracle':
+      return `LOWER(TO_CHAR(${column}))`;
+    default:
+      return `LOWER(CAST(${column} AS TEXT))`;
+  }
+}
+
+export function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, match => '\\' + match);
+}
+
+/**
+ * Build the WHERE clause for the filters and search term. Values are always
+ * bound as parameters, identifiers are quoted for the dialect.
+ */
+export function buildSqlWhere(
+  dialect: SqlDialect,
+  options: Pick<DataQueryOptions, 'filters' | 'search'>,
+  params: any[] = []
+): { where: string; params: any[] } {
+  const clauses: string[] = [];
+  const bind = (value: any) => {
+    params.push(value);
+    return placeholder(dialect, params.length);
+  };
+  // MySQL already escapes LIKE patterns with a backslash and would read '\' as an open string
+  const escapeClause = dialect === 'mysql' ? '' : ` ESCAPE '\\'`;
+  const likeClause = (column: string, pattern: string) =>
+    `${textExpression(dialect, column)} LIKE ${bind(pattern.toLowerCase())}${escapeClause}`;
+
+  for (const filter of options.filters) {
+    const column = quoteIdentifier(dialect, filter.field);
+    switch (filter.operator) {
+      case 'eq':
+        clauses.push(filter.value === null ? `${column} IS NULL` : `${column} = ${bind(filter.value)}`);
+        break;
+      case 'ne':
+        clauses.push(filter.value === null ? `${column} IS NOT NULL` : `${column} <> ${bind(filter.value)}`);
+        break;
+      case 'contains':
+        clauses.push(likeClause(column, `%${escapeLike(String(filter.value ?? ''))}%`));
+        break;
+      case 'startsWith':
+        clauses.push(likeClause(column, `${escapeLike(String(filter.value ?? ''))}%`));
+        break;
+      case 'endsWith':
+        clauses.push(likeClause(column, `%${escapeLike(String(filter.value ?? ''))}`));
+        break;
+      case 'gt':
+        clauses.push(`${column} > ${bind(filter.value)}`);
+        break;
+      case 'gte':
+        clauses.push(`${column} >= ${bind(filter.value)}`);
+        break;
+      case 'lt':
+        clauses.push(`${column} < ${bind(filter.value)}`);
+        break;
+      case 'lte':
+        clauses.push(`${column} <= ${bind(filter.value)}`);
+        break;
+    }
+  }
+
+  if (options.search && options.search.fields.length > 0) {
+    const pattern = `%${escapeLike(options.search.term)}%`;
+    const searchClauses = options.search.fields.map(field =>
+      likeClause(quoteIdentifier(dialect, field), pattern)
+    );
+    clauses.push(`(${searchClauses.join(' OR ')})`);
+  }
+
+  return {
+    where: clauses.length > 0 ? ` WHERE ${clauses.join(' AND ')}` : '',
+    params
+  };
+}
+
+// Build a page query and a matching count query for a SQL backend
+export function buildSqlPageQuery(dialect: SqlDialect, source: SqlSource, options: DataQueryOptions): SqlPageQuery {
+  const from = sqlFromClause(dialect, source);
+  const { where, params } = buildSqlWhere(dialect, options, [...(source.params || [])]);
+  const offset = (options.page - 1) * options.pageSize;
+
+  let orderBy = options.sort
+    .map(s => `${quoteIdentifier(dialect, s.field)} ${s.direction.toUpperCase()}`)
+    .join(', ');
+
+  let paging: string;
+  if (dialect === 'mssql' || dialect === 'oracle') {
+    // OFFSET/FETCH needs an ORDER BY on SQL Server
+    if (!orderBy && dialect === 'mssql') {
+      orderBy = '(SELECT NULL)';
+    }
+    paging = ` OFFSET ${offset} ROWS FETCH NEXT ${options.pageSize} ROWS ONLY`;
+  } else {
+    paging = ` LIMIT ${options.pageSize} OFFSET ${offset}`;
+  }
+
+  return {
+    query: `SELECT * FROM ${from}${where}${orderBy ? ` ORDER BY ${orderBy}` : ''}${paging}`,
+    countQuery: `SELECT COUNT(*) AS total FROM ${from}${where}`,
+    params
+  };
+}
+
+// MongoDB
+
+export interface MongoFindSpec {
+  filter: Record<string, any>;
+  sort: Record<string, 1 | -1>;
+  skip: number;
+  limit: number;
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export function buildMongoFilter(options: Pick<DataQueryOptions, 'filters' | 'search'>): Record<string, any> {
+  const clauses: Record<string, any>[] = [];
+
+  for (const filter of options.filters) {
+    const text = escapeRegex(String(filter.value ?? ''));
+    switch (filter.operator) {
+      case 'eq':
+        clauses.push({ [filter.field]: filter.value });
+        break;
+      case 'ne':
+        clauses.push({ [filter.field]: { $ne: filter.value } });
+        break;
+      case 'contains':
+        clauses.push({ [filter.field]: { $regex: text, $options: 'i' } });
+        break;
+      case 'startsWith':
+        clauses.push({ [filter.field]: { $regex: `^${text}`, $options: 'i' } });
+        break;
+      case 'endsWith':
+        clauses.push({ [filter.field]: { $regex: `${text}$`, $options: 'i' } });
+        break;
+      default:
+        clauses.push({ [filter.field]: { [`$${filter.operator}`]: filter.value } });
+    }
+  }
+
+  if (options.search && options.search.fields.length > 0) {
+    const pattern = escapeRegex(options.search.term);
+    clauses.push({
+      $or: options.search.fields.map(field => ({ [field]: { $regex: pattern, $options: 'i' } }))
+    });
+  }
+
+  return clauses.length === 0 ? {} : clauses.length === 1 ? clauses[0] : { $and: clauses };
+}
+
+// Build find options for a MongoDB collection, combined with the stored base filter
+export function buildMongoFind(baseFilter: Record<string, any>, options: DataQueryOptions): MongoFindSpec {
+  const filter = buildMongoFilter(options);
+  const sort: Record<string, 1 | -1> = {};
+  for (const s of options.sort) {
+    sort[s.field] = s.direction === 'asc' ? 1 : -1;
+  }
+
+  const hasBase = Object.keys(baseFilter).length > 0;
+  const hasFilter = Object.keys(filter).length > 0;
+
+  return {
+    filter: hasBase && hasFilter ? { $and: [baseFilter, filter] } : hasFilter ? filter : baseFilter,
+    sort,
+    skip: (options.page - 1) * options.pageSize,
+    limit: options.pageSize
+  };
+}
+
+export interface MongoAggregateSpec {
+  pipeline: any[];
+  countPipeline: any[];
+}
+
+/**
+ * Page, sort and filter the output of a stored aggregation pipeline. The
+ * filters apply to the pipeline's output fields, so they follow its stages.
+ */
+export function buildMongoAggregate(basePipeline: any[], options: DataQueryOptions): MongoAggregateSpec {
+  const filter = buildMongoFilter(options);
+  const stages = Object.keys(filter).length > 0 ? [...basePipeline, { $match: filter }] : [...basePipeline];
+
+  const sort: Record<string, 1 | -1> = {};
+  for (const s of options.sort) {
+    sort[s.field] = s.direction === 'asc' ? 1 : -1;
+  }
+
+  return {
+    pipeline: [
+      ...stages,
+      ...(options.sort.length > 0 ? [{ $sort: sort }] : []),
+      { $skip: (options.page - 1) * options.pageSize },
+      { $limit: options.pageSize }
+    ],
+    countPipeline: [...stages, { $count: 'total' }]
+  };
+}
+
+// In memory (Excel and other file sources)
+
+function compareValues(a: any, b: any): number {
+  if (a === b) return 0;
+  if (a === undefined || a === null) return -1;
+  if (b === undefined || b === null) return 1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (a instanceof Date && b instanceof Date) return a.getTime() - b.getTime();
+  return String(a).toLowerCase().localeCompare(String(b).toLowerCase());
+}
+
+function matchesFilter(row: Record<string, any>, filter: FilterCondition): boolean {
+  const value = row[filter.field];
+  const text = value === undefined || value === null ? '' : String(value).toLowerCase();
+  const expected = String(filter.value ?? '').toLowerCase();
+
+  switch (filter.operator) {
+    case 'eq':
+      return filter.value === null ? value === null || value === undefined : compareValues(value, filter.value) === 0;
+    case 'ne':
+      return filter.value === null ? value !== null && value !== undefined : compareValues(value, filter.value) !== 0;
+    case 'contains':
+      return text.includes(expected);
+    case 'startsWith':
+      return text.startsWith(expected);
+    case 'endsWith':
+      return text.endsWith(expected);
+    case 'gt':
+      return compareValues(value, filter.value) > 0;
+    case 'gte':
+      return compareValues(value, filter.value) >= 0;
+    case 'lt':
+      return compareValues(value, filter.value) < 0;
+    case 'lte':
+      return compareValues(value, filter.value) <= 0;
+  }
+}
+
+// Filter, sort and slice rows that are already loaded
+export function applyDataQuery(rows: any[], options: DataQueryOptions): PagedResult {
+  let result = rows.filter(row => options.filters.every(filter => matchesFilter(row, filter)));
+
+  if (options.search) {
+    const term = options.search.term.toLowerCase();
+    const searchFields = options.search.fields;
+    // Without explicit fields, search every column of the row
+    result = result.filter(row => (searchFields.length > 0 ? searchFields : Object.keys(row)).some(field => {
+      const value = row[field];
+      return value !== undefined && value !== null && String(value).toLowerCase().includes(term);
+    }));
+  }
+
+  if (options.sort.length > 0) {
+    result = [...result].sort((a, b) => {
+      for (const s of options.sort) {
+        const diff = compareValues(a[s.field], b[s.field]);
+        if (diff !== 0) {
+          return s.direction === 'asc' ? diff : -diff;
+        }
+      }
+      return 0;
+    });
+  }
+
+  const start = (options.page - 1) * options.pageSize;
+  return {
+    rows: result.slice(start, start + options.pageSize),
+    total: result.length,
+    page: options.page,
+    pageSize: options.pageSize
+  };
+}
@@ -0,0 +1,142 @@
+// Row-level writes (INSERT, UPDATE and DELETE by key) for database data sources
+import { quoteIdentifier, placeholder, type SqlDialect } from './data-query';
+
+export interface WriteTarget {
+  table?: string;
+  schema?: string;
+}
+
+export interface SqlStatement {
+  query: string;
+  params: any[];
+}
+
+export class DataWriteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DataWriteError';
+  }
+}
+
+// Writes always go to a real table, never to a stored query
+function tableReference(dialect: SqlDialect, target: WriteTarget): string {
+  if (!target.table) {
+    throw new DataWriteError('A table must be configured on the data source to write rows');
+  }
+
+  const schema = dialect === 'postgresql' ? (target.schema || 'public')
+    : dialect === 'mssql' || dialect === 'oracle' ? target.schema
+    : undefined;
+
+  return schema
+    ? `${quoteIdentifier(dialect, schema)}.${quoteIdentifier(dialect, target.table)}`
+    : quoteIdentifier(dialect, target.table);
+}
+
+function whereKey(dialect: SqlDialect, key: Record<string, any>, params: any[]): string {
+  const columns = Object.keys(key);
+  if (columns.length === 0) {
+    throw new DataWriteError('A row key is required');
+  }
+
+  return columns.map(column => {
+    if (key[column] === null || key[column] === undefined) {
+      return `${quoteIdentifier(dialect, column)} IS NULL`;
+    }
+    params.push(key[column]);
+    return `${quoteIdentifier(dialect, column)} = ${placeholder(dialect, params.length)}`;
+  }).join(' AND ');
+}
+
+// UPDATE a single row identified by its key columns
+export function buildSqlUpdate(
+  dialect: SqlDialect,
+  target: WriteTarget,
+  key: Record<string, any>,
+  values: Record<string, any>
+): SqlStatement {
+  const columns = Object.keys(values);
+  if (columns.length === 0) {
+    throw new DataWriteError('No values to update');
+  }
+
+  const params: any[] = [];
+  const assignments = columns.map(column => {
+    params.push(values[column]);
+    return `${quoteIdentifier(dialect, column)} = ${placeholder(dialect, params.length)}`;
+  });
+  const where = whereKey(dialect, key, params);
+
+  return {
+    query: `UPDATE ${tableReference(dialect, target)} SET ${assignments.join(', ')} WHERE ${where}`,
+    params
+  };
+}
+
+// INSERT a single row. PostgreSQL, SQLite and SQL Server hand back the stored
+// row (with generated keys); the other dialects only report the affected count.
+export function buildSqlInsert(
+  dialect: SqlDialect,
+  target: WriteTarget,
+  values: Record<string, any>
+): SqlStatement {
+  const table = tableReference(dialect, target);
+  const columns = Object.keys(values);
+
+  if (columns.length === 0) {
+    throw new DataWriteError('No values to insert');
+  }
+
+  const params = columns.map(column => values[column]);
+  const columnList = columns.map(column => quoteIdentifier(dialect, column)).join(', ');
+  const valueList = columns.map((_, index) => placeholder(dialect, index + 1)).join(', ');
+
+  if (dialect === 'mssql') {
+    return { query: `INSERT INTO ${table} (${columnList}) OUTPUT INSERTED.* VALUES (${valueList})`, params };
+  }
+
+  const returning = dialect === 'postgresql' || dialect === 'sqlite' ? ' RETURNING *' : '';
+  return { query: `INSERT INTO ${table} (${columnList}) VALUES (${valueList})${returning}`, params };
+}
+
+// DELETE a single row identified by its key columns
+export function buildSqlDelete(
+  dialect: SqlDialect,
+  target: WriteTarget,
+  key: Record<string, any>
+): SqlStatement {
+  const params: any[] = [];
+  const where = whereKey(dialect, key, params);
+
+  return {
+    query: `DELETE FROM ${tableReference(dialect, target)} WHERE ${where}`,
+    params
+  };
+}
+
+/**
+ * Recognize constraint violations (unique, foreign key, not null, check)
+ * across the supported drivers, so they can be reported as a conflict
+ * rather than a server error.
+ */
+export function isConstraintViolation(error: any): boolean {
+  if (!error) return false;
+
+  const code = String(error.code ?? '');
+  const errno = Number(error.errno ?? error.number ?? error.errorNum ?? NaN);
+
+  // PostgreSQL SQLSTATE class 23 (integrity constraint violation)
+  if (/^23\d{3}$/.test(code)) return true;
+  // SQLite
+  if (code.startsWith('SQLITE_CONSTRAINT')) return true;
+  // MongoDB duplicate key
+  if (code === '11000' || errno === 11000) return true;
+  // MySQL duplicate entry, foreign key and not-null errors
+  if ([1062, 1451, 1452, 1048, 3819].includes(errno)) return true;
+  // SQL Server unique, foreign key/check and not-null errors
+  if ([2627, 2601, 547, 515].includes(errno)) return true;
+  // Oracle unique, check, foreign key and not-null errors
+  if (/ORA-0(0001|2290|2291|2292|1400)/.test(String(error.message ?? ''))) return true;
+
+  return false;
+}
@@ -0,0 +1,83 @@
+// MongoDB documents as flat rows for grids and forms: nested objects become
+// dotted column names ("address.city") and BSON values become plain JSON
+// values. Writes reverse the flattening where MongoDB wouldn't understand it.
+
+function bsonType(value: any): string | undefined {
+  return value && typeof value === 'object' ? value._bsontype : undefined;
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value) &&
+    !(value instanceof Date) && !bsonType(value) && !Buffer.isBuffer(value);
+}
+
+// A BSON value as the JSON value it stands for; nested objects and arrays are kept
+export function serializeValue(value: any): any {
+  switch (bsonType(value)) {
+    case undefined:
+      break;
+    case 'ObjectId':
+    case 'ObjectID':
+      return value.toHexString();
+    case 'Decimal128':
+      return Number(value.toString());
+    case 'Long':
+    case 'Timestamp':
+      return value.toNumber();
+    case 'Int32':
+    case 'Double':
+      return value.valueOf();
+    case 'Binary':
+      return Buffer.from(value.buffer).toString('base64');
+    default:
+      return String(value);
+  }
+
+  if (value instanceof Date) {
+    // An invalid date would otherwise become null in JSON without a trace
+    return isNaN(value.getTime()) ? null : value;
+  }
+  if (Buffer.isBuffer(value)) {
+    return value.toString('base64');
+  }
+  if (Array.isArray(value)) {
+    return value.map(serializeValue);
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, serializeValue(item)]));
+  }
+  return value;
+}
+
+/**
+ * One row per document: nested objects are flattened into dotted column
+ * names, arrays stay whole values of their column.
+ */
+export function flattenDocument(document: Record<string, any>, prefix = '', row: Record<string, any> = {}): Record<string, any> {
+  for (const [key, value] of Object.entries(document)) {
+    const name = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(value) && Object.keys(value).length > 0) {
+      flattenDocument(value, name, row);
+    } else {
+      row[name] = serializeValue(value);
+    }
+  }
+  return row;
+}
+
+// Nest dotted column names again, for inserts (updates $set dotted paths directly)
+export function unflattenDocument(row: Record<string, any>): Record<string, any> {
+  const document: Record<string, any> = {};
+  for (const [name, value] of Object.entries(row)) {
+    const path = name.split('.');
+    let target = document;
+    for (const key of path.slice(0, -1)) {
+      if (!isPlainObject(target[key])) {
+        target[key] = {};
+      }
+      target = target[key];
+    }
+    target[path[path.length - 1]] = value;
+  }
+  return document;
+}
@@ -0,0 +1,242 @@
+// Schema introspection: the schemas (or databases), tables, views and
+// collections of a connection and the columns of each, in one shape for
+// every backend. SQL backends read their catalog views; MongoDB collections
+// are described by sampling documents.
+
+import type { SqlDialect } from './data-query';
+import type { SqlStatement } from './data-write';
+
+export interface SchemaColumn {
+  name: string;
+  type: string;
+  nullable: boolean;
+  primaryKey: boolean;
+}
+
+export interface SchemaTable {
+  name: string;
+  kind: 'table' | 'view' | 'collection';
+}
+
+// A schema (PostgreSQL, SQL Server, Oracle owner) or database (MySQL, MongoDB, SQLite "main")
+export interface SchemaNamespace {
+  name: string;
+  tables: SchemaTable[];
+}
+
+// Documents sampled per collection to describe its fields
+export const MONGO_SAMPLE_SIZE = 100;
+
+const MYSQL_SYSTEM_SCHEMAS = ['mysql', 'information_schema', 'performance_schema', 'sys'];
+
+// Catalog query returning table_schema, table_name and table_type rows
+export function buildTablesQuery(dialect: SqlDialect, config: { database?: string; schema?: string; user?: string }): SqlStatement {
+  switch (dialect) {
+    case 'postgresql':
+      return {
+        query: `SELECT table_schema, table_name, table_type
+          FROM information_schema.tables
+          WHERE table_schema NOT IN ('pg_catalog', 'information_schema') AND table_schema NOT LIKE 'pg_toast%'
+          ORDER BY table_schema, table_name`,
+        params: []
+      };
+    case 'mysql':
+      // Only the configured database, or every user database when none is set
+      return config.database
+        ? {
+            query: `SELECT table_schema AS table_schema, table_name AS table_name, table_type AS table_type
+              FROM information_schema.tables
+              WHERE table_schema = ?
+              ORDER BY table_name`,
+            params: [config.database]
+          }
+        : {
+            query: `SELECT table_schema AS table_schema, table_name AS table_name, table_type AS table_type
+              FROM information_schema.tables
+              WHERE table_schema NOT IN (${MYSQL_SYSTEM_SCHEMAS.map(() => '?').join(', ')})
+              ORDER BY table_schema, table_name`,
+            params: MYSQL_SYSTEM_SCHEMAS
+          };
+    case 'mssql':
+      return {
+        query: `SELECT TABLE_SCHEMA AS table_schema, TABLE_NAME AS table_name, TABLE_TYPE AS table_type
+          FROM INFORMATION_SCHEMA.TABLES
+          ORDER BY TABLE_SCHEMA, TABLE_NAME`,
+        params: []
+      };
+    case 'oracle':
+      // The configured schema, otherwise the objects owned by the signed-in user
+      return {
+        query: `SELECT OWNER AS "table_schema", OBJECT_NAME AS "table_name", OBJECT_TYPE AS "table_type"
+          FROM ALL_OBJECTS
+          WHERE OBJECT_TYPE IN ('TABLE', 'VIEW') AND OWNER = :1
+          ORDER BY OBJECT_NAME`,
+        params: [String(config.schema || config.user || '').toUpperCase()]
+      };
+    case 'sqlite':
+      return {
+        query: `SELECT 'main' AS table_schema, name AS table_name, type AS table_type
+          FROM sqlite_master
+          WHERE type IN ('table', 'view') AND name NOT LIKE 'sqlite_%'
+          ORDER BY name`,
+        params: []
+      };
+  }
+}
+
+// Catalog query returning column_name, data_type, is_nullable and is_primary rows
+export function buildColumnsQuery(
+  dialect: SqlDialect,
+  target: { schema?: string; table: string },
+  config: { database?: string; user?: string } = {}
+): SqlStatement {
+  switch (dialect) {
+    case 'postgresql':
+      return {
+        query: `SELECT c.column_name, c.data_type, c.is_nullable,
+            CASE WHEN EXISTS (
+              SELECT 1 FROM information_schema.table_constraints tc
+              JOIN information_schema.key_column_usage k
+                ON k.constraint_name = tc.constraint_name AND k.table_schema = tc.table_schema AND k.table_name = tc.table_name
+              WHERE tc.constraint_type = 'PRIMARY KEY' AND tc.table_schema = c.table_schema
+                AND tc.table_name = c.table_name AND k.column_name = c.column_name
+            ) THEN 1 ELSE 0 END AS is_primary
+          FROM information_schema.columns c
+          WHERE c.table_schema = $1 AND c.table_name = $2
+          ORDER BY c.ordinal_position`,
+        params: [target.schema || 'public', target.table]
+      };
+    case 'mysql':
+      return {
+        query: `SELECT column_name AS column_name, data_type AS data_type, is_nullable AS is_nullable,
+            CASE WHEN column_key = 'PRI' THEN 1 ELSE 0 END AS is_primary
+          FROM information_schema.columns
+          WHERE table_schema = COALESCE(?, DATABASE()) AND table_name = ?
+          ORDER BY ordinal_position`,
+        params: [target.schema || config.database || null, target.table]
+      };
+    case 'mssql':
+      return {
+        query: `SELECT c.COLUMN_NAME AS column_name, c.DATA_TYPE AS data_type, c.IS_NULLABLE AS is_nullable,
+            CASE WHEN EXISTS (
+              SELECT 1 FROM INFORMATION_SCHEMA.TABLE_CONSTRAINTS tc
+              JOIN INFORMATION_SCHEMA.KEY_COLUMN_USAGE k
+                ON k.CONSTRAINT_NAME = tc.CONSTRAINT_NAME AND k.TABLE_SCHEMA = tc.TABLE_SCHEMA AND k.TABLE_NAME = tc.TABLE_NAME
+              WHERE tc.CONSTRAINT_TYPE = 'PRIMARY KEY' AND tc.TABLE_SCHEMA = c.TABLE_SCHEMA
+                AND tc.TABLE_NAME = c.TABLE_NAME AND k.COLUMN_NAME = c.COLUMN_NAME
+            ) THEN 1 ELSE 0 END AS is_primary
+          FROM INFORMATION_SCHEMA.COLUMNS c
+          WHERE c.TABLE_SCHEMA = COALESCE(@p1, SCHEMA_NAME()) AND c.TABLE_NAME = @p2
+          ORDER BY c.ORDINAL_POSITION`,
+        params: [target.schema || null, target.table]
+      };
+    case 'oracle':
+      return {
+        query: `SELECT c.COLUMN_NAME AS "column_name", c.DATA_TYPE AS "data_type", c.NULLABLE AS "is_nullable",
+            CASE WHEN EXISTS (
+              SELECT 1 FROM ALL_CONSTRAINTS k
+              JOIN ALL_CONS_COLUMNS kc ON kc.OWNER = k.OWNER AND kc.CONSTRAINT_NAME = k.CONSTRAINT_NAME
+              WHERE k.CONSTRAINT_TYPE = 'P' AND k.OWNER = c.OWNER
+                AND k.TABLE_NAME = c.TABLE_NAME AND kc.COLUMN_NAME = c.COLUMN_NAME
+            ) THEN 1 ELSE 0 END AS "is_primary"
+          FROM ALL_TAB_COLUMNS c
+          WHERE c.OWNER = :1 AND c.TABLE_NAME = :2
+          ORDER BY c.COLUMN_ID`,
+        params: [String(target.schema || config.user || '').toUpperCase(), target.table]
+      };
+    case 'sqlite':
+      return {
+        query: `SELECT name AS column_name, type AS data_type,
+            CASE WHEN "notnull" = 1 OR pk > 0 THEN 'NO' ELSE 'YES' END AS is_nullable,
+            CASE WHEN pk > 0 THEN 1 ELSE 0 END AS is_primary
+          FROM pragma_table_info(?)
+          ORDER BY cid`,
+        params: [target.table]
+      };
+  }
+}
+
+// Group table rows by schema, keeping the catalog's order
+export function groupTables(rows: any[]): SchemaNamespace[] {
+  const namespaces = new Map<string, SchemaNamespace>();
+  for (const row of rows) {
+    const schema = String(row.table_schema ?? '');
+    if (!namespaces.has(schema)) {
+      namespaces.set(schema, { name: schema, tables: [] });
+    }
+    namespaces.get(schema)!.tables.push({
+      name: String(row.table_name),
+      kind: /view/i.test(String(row.table_type)) ? 'view' : 'table'
+    });
+  }
+  return Array.from(namespaces.values());
+}
+
+export function toSchemaColumns(rows: any[]): SchemaColumn[] {
+  return rows.map(row => ({
+    name: String(row.column_name),
+    type: String(row.data_type ?? '').toLowerCase() || 'unknown',
+    nullable: ['YES', 'Y'].includes(String(row.is_nullable).toUpperCase()),
+    primaryKey: Number(row.is_primary) === 1 || row.is_primary === true
+  }));
+}
+
+function documentValueType(value: any): string {
+  if (value === null || value === undefined) return 'null';
+  // BSON dates always carry a time
+  if (value instanceof Date) return 'datetime';
+  if (Array.isArray(value)) return 'array';
+  if (value?._bsontype === 'ObjectId' || value?._bsontype === 'ObjectID') return 'objectId';
+  if (value?._bsontype === 'Decimal128') return 'decimal';
+  if (value?._bsontype === 'Long' || value?._bsontype === 'Int32') return 'integer';
+  if (value?._bsontype === 'Double') return 'number';
+  if (value?._bsontype) return String(value._bsontype).toLowerCase();
+  return typeof value;
+}
+
+// Fields of a document with nested objects flattened into dotted names, as rows are read
+function documentLeaves(document: Record<string, any>, prefix = '', leaves: Array<[string, any]> = []): Array<[string, any]> {
+  for (const [key, value] of Object.entries(document)) {
+    const name = prefix ? `${prefix}.${key}` : key;
+    if (documentValueType(value) === 'object' && !Buffer.isBuffer(value) && Object.keys(value).length > 0) {
+      documentLeaves(value, name, leaves);
+    } else {
+      leaves.push([name, value]);
+    }
+  }
+  return leaves;
+}
+
+/**
+ * Describe a collection from sample documents: every field seen, nested
+ * ones as dotted names, typed by its most common non-null type. Fields
+ * missing from some documents (or null in any) are nullable.
+ */
+export function inferDocumentColumns(documents: any[]): SchemaColumn[] {
+  const stats = new Map<string, { seen: number; hasNull: boolean; types: Map<string, number> }>();
+  for (const document of documents) {
+    for (const [name, value] of documentLeaves(document || {})) {
+      if (!stats.has(name)) {
+        stats.set(name, { seen: 0, hasNull: false, types: new Map() });
+      }
+      const entry = stats.get(name)!;
+      entry.seen++;
+      const type = documentValueType(value);
+      if (type === 'null') {
+        entry.hasNull = true;
+      } else {
+        entry.types.set(type, (entry.types.get(type) || 0) + 1);
+      }
+    }
+  }
+
+  return Array.from(stats.entries()).map(([name, entry]) => {
+    const [type] = Array.from(entry.types.entries()).sort((a, b) => b[1] - a[1])[0] || ['null'];
+    return {
+      name,
+      type,
+      nullable: name !== '_id' && (entry.hasNull || entry.seen < documents.length),
+      primaryKey: name === '_id'
+    };
+  });
+}
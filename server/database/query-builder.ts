@@ -0,0 +1,243 @@
+// Generating the stored query of a database data source from its query
+// builder spec (see @shared/query-builder). Literal values are written into
+// the query text, quoted for the dialect; parameters stay `:name` or `@`
+// tokens and are bound like those of a hand-written query when it runs.
+
+import { USER_PARAMETERS } from '@shared/query-params';
+import {
+  BUILDER_OPERATORS,
+  DEFAULT_BUILDER_LIMIT,
+  isUnaryOperator,
+  type BuilderCondition,
+  type QueryBuilderSpec
+} from '@shared/query-builder';
+import {
+  buildMongoFilter,
+  escapeLike,
+  quoteIdentifier,
+  sqlFromClause,
+  textExpression,
+  DataQueryError,
+  type FilterOperator,
+  type QueryDialect,
+  type SqlDialect
+} from './data-query';
+
+export class QueryBuilderError extends DataQueryError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QueryBuilderError';
+  }
+}
+
+// Rows returned by a preview in the data source editor
+export const BUILDER_PREVIEW_ROWS = 20;
+
+const FORM_PARAMETER = /^:[A-Za-z_][A-Za-z0-9_]*$/;
+
+function checkParameter(parameter: string) {
+  if (FORM_PARAMETER.test(parameter)) {
+    return;
+  }
+  if (parameter.startsWith('@') && (USER_PARAMETERS as readonly string[]).includes(parameter.slice(1))) {
+    return;
+  }
+  throw new QueryBuilderError(`Unknown parameter "${parameter}"; use :fieldName or one of ${USER_PARAMETERS.map(name => '@' + name).join(', ')}`);
+}
+
+// Check a spec sent by the editor and fill in its defaults
+export function validateQueryBuilder(raw: unknown): QueryBuilderSpec {
+  const spec = (raw && typeof raw === 'object' ? raw : {}) as Partial<QueryBuilderSpec>;
+  if (typeof spec.table !== 'string' || !spec.table.trim()) {
+    throw new QueryBuilderError('Pick a table to query');
+  }
+
+  const columns = Array.isArray(spec.columns) ? spec.columns : [];
+  if (columns.some(column => typeof column !== 'string' || !column)) {
+    throw new QueryBuilderError('Column names must be text');
+  }
+
+  const operators = BUILDER_OPERATORS.map(operator => operator.value);
+  const conditions = Array.isArray(spec.conditions) ? spec.conditions : [];
+  for (const condition of conditions) {
+    if (!condition || typeof condition.field !== 'string' || !condition.field) {
+      throw new QueryBuilderError('Each condition needs a column');
+    }
+    if (!operators.includes(condition.operator)) {
+      throw new QueryBuilderError(`Unsupported condition operator "${condition.operator}"`);
+    }
+    if (condition.parameter) {
+      checkParameter(condition.parameter);
+    }
+  }
+
+  const sort = Array.isArray(spec.sort) ? spec.sort : [];
+  for (const order of sort) {
+    if (!order || typeof order.field !== 'string' || !order.field) {
+      throw new QueryBuilderError('Each sort needs a column');
+    }
+    if (order.direction !== 'asc' && order.direction !== 'desc') {
+      throw new QueryBuilderError(`Invalid sort direction "${order.direction}"`);
+    }
+  }
+
+  const limit = spec.limit === undefined || spec.limit === null ? DEFAULT_BUILDER_LIMIT : Number(spec.limit);
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new QueryBuilderError('The row limit must be a positive whole number');
+  }
+
+  return {
+    table: spec.table.trim(),
+    ...(spec.schema ? { schema: spec.schema } : {}),
+    columns,
+    conditions,
+    match: spec.match === 'any' ? 'any' : 'all',
+    sort,
+    limit
+  };
+}
+
+// SQL
+
+function sqlLiteral(dialect: SqlDialect, value: unknown): string {
+  if (value === null || value === undefined) {
+    return 'NULL';
+  }
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new QueryBuilderError(`${value} can't be used in a condition`);
+    }
+    return String(value);
+  }
+  if (typeof value === 'boolean') {
+    // Only PostgreSQL and MySQL have boolean literals; the others store bits
+    return dialect === 'postgresql' || dialect === 'mysql' ? (value ? 'TRUE' : 'FALSE') : (value ? '1' : '0');
+  }
+
+  let text = String(value).replace(/'/g, "''");
+  if (dialect === 'mysql') {
+    // MySQL also reads backslashes in string literals as escapes
+    text = text.replace(/\\/g, '\\\\');
+  }
+  return dialect === 'mssql' ? `N'${text}'` : `'${text}'`;
+}
+
+function sqlConcat(dialect: SqlDialect, parts: string[]): string {
+  switch (dialect) {
+    case 'mysql':
+      return `CONCAT(${parts.join(', ')})`;
+    case 'mssql':
+      return parts.join(' + ');
+    default:
+      return parts.join(' || ');
+  }
+}
+
+function sqlCondition(dialect: SqlDialect, condition: BuilderCondition): string {
+  const column = quoteIdentifier(dialect, condition.field);
+  const { operator, parameter } = condition;
+
+  if (operator === 'isNull' || (operator === 'eq' && !parameter && condition.value === null)) {
+    return `${column} IS NULL`;
+  }
+  if (operator === 'isNotNull' || (operator === 'ne' && !parameter && condition.value === null)) {
+    return `${column} IS NOT NULL`;
+  }
+
+  if (operator === 'contains' || operator === 'startsWith' || operator === 'endsWith') {
+    const before = operator === 'startsWith' ? '' : '%';
+    const after = operator === 'endsWith' ? '' : '%';
+    if (parameter) {
+      // The parameter's value is matched as given, so % and _ in it act as wildcards
+      const pattern = sqlConcat(dialect, [before && `'${before}'`, parameter, after && `'${after}'`].filter(Boolean));
+      return `${textExpression(dialect, column)} LIKE LOWER(${pattern})`;
+    }
+    const pattern = `${before}${escapeLike(String(condition.value ?? '')).toLowerCase()}${after}`;
+    // MySQL already escapes LIKE patterns with a backslash
+    return `${textExpression(dialect, column)} LIKE ${sqlLiteral(dialect, pattern)}${dialect === 'mysql' ? '' : ` ESCAPE '\\'`}`;
+  }
+
+  const comparisons: Record<string, string> = { eq: '=', ne: '<>', gt: '>', gte: '>=', lt: '<', lte: '<=' };
+  return `${column} ${comparisons[operator]} ${parameter || sqlLiteral(dialect, condition.value)}`;
+}
+
+/**
+ * The SELECT statement of a spec for a SQL dialect. `limit` overrides the
+ * spec's row limit, e.g. for a preview.
+ */
+export function buildBuilderSql(dialect: SqlDialect, spec: QueryBuilderSpec, limit = spec.limit): string {
+  const columns = spec.columns.length > 0
+    ? spec.columns.map(column => quoteIdentifier(dialect, column)).join(', ')
+    : '*';
+  const from = sqlFromClause(dialect, { table: spec.table, schema: spec.schema });
+
+  const conditions = spec.conditions.map(condition => sqlCondition(dialect, condition));
+  const where = conditions.length === 0 ? ''
+    : ` WHERE ${conditions.map(clause => conditions.length > 1 ? `(${clause})` : clause).join(spec.match === 'any' ? ' OR ' : ' AND ')}`;
+
+  const orderBy = spec.sort.length > 0
+    ? ` ORDER BY ${spec.sort.map(order => `${quoteIdentifier(dialect, order.field)} ${order.direction.toUpperCase()}`).join(', ')}`
+    : '';
+
+  switch (dialect) {
+    case 'mssql':
+      return `SELECT TOP (${limit}) ${columns} FROM ${from}${where}${orderBy}`;
+    case 'oracle':
+      return `SELECT ${columns} FROM ${from}${where}${orderBy} FETCH FIRST ${limit} ROWS ONLY`;
+    default:
+      return `SELECT ${columns} FROM ${from}${where}${orderBy} LIMIT ${limit}`;
+  }
+}
+
+// MongoDB
+
+function mongoCondition(condition: BuilderCondition): Record<string, any> {
+  const { field, operator, parameter } = condition;
+  if (operator === 'isNull') {
+    return { [field]: null };
+  }
+  if (operator === 'isNotNull') {
+    return { [field]: { $ne: null } };
+  }
+
+  if (parameter) {
+    // A parameter has to be a whole value of the filter, so it can't be part of a pattern
+    if (operator === 'contains' || operator === 'startsWith' || operator === 'endsWith') {
+      throw new QueryBuilderError(`"${field}" can only be compared with a parameter, not matched as text, on MongoDB`);
+    }
+    return operator === 'eq' ? { [field]: parameter } : { [field]: { [`$${operator}`]: parameter } };
+  }
+  return buildMongoFilter({ filters: [{ field, operator: operator as FilterOperator, value: condition.value ?? null }] });
+}
+
+// The filter document of a spec for a MongoDB collection
+export function buildBuilderFilter(spec: QueryBuilderSpec): Record<string, any> {
+  const clauses = spec.conditions.map(mongoCondition);
+  if (clauses.length === 0) {
+    return {};
+  }
+  if (clauses.length === 1) {
+    return clauses[0];
+  }
+  return spec.match === 'any' ? { $or: clauses } : { $and: clauses };
+}
+
+// Find options applied with the filter: the columns, sort and row limit
+export function builderFindOptions(spec: QueryBuilderSpec): { sort?: Record<string, 1 | -1>; limit: number; projection?: Record<string, 1> } {
+  const options: { sort?: Record<string, 1 | -1>; limit: number; projection?: Record<string, 1> } = { limit: spec.limit };
+  if (spec.sort.length > 0) {
+    options.sort = Object.fromEntries(spec.sort.map(order => [order.field, order.direction === 'asc' ? 1 : -1]));
+  }
+  if (spec.columns.length > 0) {
+    options.projection = Object.fromEntries(spec.columns.map(column => [column, 1]));
+  }
+  return options;
+}
+
+// The stored query of a spec: SQL for the dialect, or a MongoDB filter as JSON
+export function buildStoredQuery(dialect: QueryDialect, spec: QueryBuilderSpec): string {
+  if (dialect === 'mongodb') {
+    return JSON.stringify(buildBuilderFilter(spec));
+  }
+  return buildBuilderSql(dialect, spec);
+}
@@ -0,0 +1,46 @@
+// How long a data source's queries may run and how many rows a read may
+// return. Both are set per data source (`queryTimeout` in seconds and
+// `maxRows` in its config, 0 for no limit) and fall back to the defaults.
+
+// Seconds a query may run unless the data source's config sets `queryTimeout`
+export const DEFAULT_QUERY_TIMEOUT_SECONDS = parseInt(process.env.DATASOURCE_QUERY_TIMEOUT || '30');
+
+// Rows a read returns unless the data source's config sets `maxRows`
+export const DEFAULT_MAX_ROWS = parseInt(process.env.DATASOURCE_MAX_ROWS || '10000');
+
+export class QueryTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`The query took longer than ${timeoutMs / 1000} seconds and was cancelled`);
+    this.name = 'QueryTimeoutError';
+  }
+}
+
+// The request a query was run for went away before it finished
+export class QueryCancelledError extends Error {
+  constructor() {
+    super('The query was cancelled');
+    this.name = 'QueryCancelledError';
+  }
+}
+
+export interface QueryLimits {
+  timeoutMs?: number;
+  maxRows?: number;
+}
+
+function limitSetting(value: unknown, fallback: number): number {
+  const number = Number(value);
+  return value !== undefined && value !== null && value !== '' && Number.isFinite(number) && number >= 0
+    ? number
+    : fallback;
+}
+
+export function queryLimits(config: unknown): QueryLimits {
+  const parsed = typeof config === 'string' ? JSON.parse(config) : (config as Record<string, any> || {});
+  const timeout = limitSetting(parsed.queryTimeout, DEFAULT_QUERY_TIMEOUT_SECONDS);
+  const maxRows = Math.floor(limitSetting(parsed.maxRows, DEFAULT_MAX_ROWS));
+  return {
+    timeoutMs: timeout > 0 ? timeout * 1000 : undefined,
+    maxRows: maxRows > 0 ? maxRows : undefined
+  };
+}
@@ -0,0 +1,101 @@
+// Binding the named parameters of stored queries (see @shared/query-params)
+// to the driver's native placeholders. Values never become part of the SQL.
+
+import { scanSqlParameters, documentParameter, type UserParameter } from '@shared/query-params';
+import { placeholder, isScalar, DataQueryError, type SqlDialect } from './data-query';
+import type { SqlStatement } from './data-write';
+
+export interface QueryParameterValues {
+  // Form field values by field name
+  form: Record<string, any>;
+  user: Partial<Record<UserParameter, any>>;
+}
+
+// The signed-in user's attributes for @ parameters (all null when signed out)
+export function userParameterValues(user?: { id: number; username: string; role: string; name: string }): QueryParameterValues['user'] {
+  return {
+    currentUserId: user?.id ?? null,
+    currentUsername: user?.username ?? null,
+    currentUserRole: user?.role ?? null,
+    currentUserName: user?.name ?? null
+  };
+}
+
+/**
+ * Parse the `params` query string argument of a data request: a JSON object
+ * of form field values.
+ */
+export function parseParameterValues(raw: unknown): Record<string, any> {
+  if (raw === undefined || raw === '') {
+    return {};
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(String(raw));
+  } catch {
+    throw new DataQueryError('params must be a JSON object');
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new DataQueryError('params must be a JSON object');
+  }
+  for (const [name, value] of Object.entries(parsed)) {
+    checkParameterValue(name, value);
+  }
+  return parsed as Record<string, any>;
+}
+
+// Parameters stand for single values; an object bound into a MongoDB filter would be read as operators
+function checkParameterValue(name: string, value: unknown): void {
+  if (!isScalar(value)) {
+    throw new DataQueryError(`The value of parameter "${name}" must be a string, number, boolean or null`);
+  }
+}
+
+function parameterValue(values: QueryParameterValues, name: string, source: 'form' | 'user'): any {
+  const value = source === 'user' ? values.user[name as UserParameter] : values.form[name];
+  checkParameterValue(name, value);
+  // Empty form fields bind as NULL
+  return value === undefined || value === '' ? null : value;
+}
+
+/**
+ * Replace each parameter with the dialect's placeholder, numbered from
+ * `firstIndex` so the statement can be combined with further parameters.
+ */
+export function bindSqlParameters(
+  dialect: SqlDialect,
+  query: string,
+  values: QueryParameterValues,
+  firstIndex = 1
+): SqlStatement {
+  const params: any[] = [];
+  let sql = '';
+  let position = 0;
+
+  for (const token of scanSqlParameters(query)) {
+    params.push(parameterValue(values, token.name, token.source));
+    sql += query.slice(position, token.start) + placeholder(dialect, firstIndex + params.length - 1);
+    position = token.end;
+  }
+
+  return { query: sql + query.slice(position), params };
+}
+
+// Substitute parameter values into a parsed MongoDB filter
+export function bindDocumentParameters(filter: any, values: QueryParameterValues): any {
+  const parameter = documentParameter(filter);
+  if (parameter) {
+    return parameterValue(values, parameter.name, parameter.source);
+  }
+  if (Array.isArray(filter)) {
+    return filter.map(item => bindDocumentParameters(item, values));
+  }
+  if (filter && typeof filter === 'object') {
+    const bound: Record<string, any> = {};
+    for (const [key, value] of Object.entries(filter)) {
+      bound[key] = bindDocumentParameters(value, values);
+    }
+    return bound;
+  }
+  return filter;
+}
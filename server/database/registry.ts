@@ -0,0 +1,50 @@
+// The database backends data sources can use, by dbType. The built-in ones
+// are registered here; others can be added with registerBackend before the
+// routes are set up.
+
+import type { DatabaseBackendInfo } from '@shared/database-backends';
+import type { DatabaseBackend } from './backend';
+import { postgresqlBackend } from './backends/postgresql';
+import { mysqlBackend } from './backends/mysql';
+import { mongodbBackend } from './backends/mongodb';
+import { mssqlBackend } from './backends/mssql';
+import { oracleBackend } from './backends/oracle';
+import { sqliteBackend } from './backends/sqlite';
+
+const backends = new Map<string, DatabaseBackend>();
+
+export function registerBackend(backend: DatabaseBackend): void {
+  backends.set(backend.type.toLowerCase(), backend);
+}
+
+export function findBackend(type: string): DatabaseBackend | undefined {
+  return backends.get(type.toLowerCase());
+}
+
+export function getBackend(type: string): DatabaseBackend {
+  const backend = findBackend(type);
+  if (!backend) {
+    throw new Error(`Unsupported database type: ${type}`);
+  }
+  return backend;
+}
+
+// The backends as the data source editor sees them, in registration order
+export function listBackends(): DatabaseBackendInfo[] {
+  return Array.from(backends.values()).map(backend => ({
+    type: backend.type,
+    label: backend.label,
+    documents: backend.dialect === 'mongodb',
+    defaultDatabase: !!backend.defaultConnection,
+    fields: backend.fields
+  }));
+}
+
+// Settings of the environment's own database for a source set to use it; none if the backend can't
+export function defaultConnection(type: string): Record<string, any> {
+  return findBackend(type)?.defaultConnection?.() ?? {};
+}
+
+for (const backend of [postgresqlBackend, mysqlBackend, mongodbBackend, mssqlBackend, oracleBackend, sqliteBackend]) {
+  registerBackend(backend);
+}
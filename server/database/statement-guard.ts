@@ -0,0 +1,203 @@
+// Checks stored data source queries before they reach the database. Read-only
+// sources may only run queries; read-write sources may also change rows, but
+// never the schema, permissions or the server itself.
+
+import { DataQueryError, type QueryDialect, type SqlDialect } from './data-query';
+
+export class StatementBlockedError extends DataQueryError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StatementBlockedError';
+  }
+}
+
+// Statements a data source query may start with
+const READ_STATEMENTS = ['SELECT', 'WITH', 'VALUES', 'EXPLAIN', 'SHOW', 'DESCRIBE', 'DESC'];
+const WRITE_STATEMENTS = ['INSERT', 'UPDATE', 'DELETE', 'MERGE', 'REPLACE'];
+
+// Keywords refused anywhere in a query, including inside sub-queries and CTEs
+const BLOCKED_KEYWORDS = [
+  'DROP', 'TRUNCATE', 'ALTER', 'CREATE', 'RENAME', 'GRANT', 'REVOKE',
+  'EXEC', 'EXECUTE', 'CALL', 'COPY', 'ATTACH', 'DETACH', 'OUTFILE', 'DUMPFILE',
+  'SHUTDOWN', 'DBCC', 'OPENROWSET', 'OPENQUERY', 'OPENDATASOURCE',
+  // Functions that reach the server's files, other databases or other sessions
+  'PG_READ_FILE', 'PG_READ_BINARY_FILE', 'PG_LS_DIR', 'LO_IMPORT', 'LO_EXPORT', 'DBLINK', 'DBLINK_EXEC',
+  'PG_TERMINATE_BACKEND', 'PG_CANCEL_BACKEND', 'LOAD_FILE', 'XP_CMDSHELL', 'SP_EXECUTESQL'
+];
+// Keywords that change data, also refused anywhere in a read-only query.
+// INTO covers SELECT ... INTO, which creates a table.
+const WRITE_KEYWORDS = ['INSERT', 'UPDATE', 'DELETE', 'MERGE', 'UPSERT', 'INTO'];
+
+// MongoDB operators that run server-side JavaScript, and pipeline stages that
+// write to collections or reach other sessions. Rows are only written by key.
+const BLOCKED_MONGO_OPERATORS = [
+  '$where', '$function', '$accumulator',
+  '$out', '$merge', '$currentOp', '$listSessions', '$listLocalSessions'
+];
+
+// Data sources are read-only unless writes were explicitly allowed
+export function isReadOnlyConfig(config: { readOnly?: boolean } | null | undefined): boolean {
+  return config?.readOnly !== false;
+}
+
+/**
+ * The keywords of a SQL query, upper-cased, with string literals, quoted
+ * identifiers and comments removed, and the number of statements it holds.
+ * Quoting follows the dialect so text the database would run can't be
+ * hidden inside what looks like a literal here.
+ */
+export function sqlKeywords(dialect: SqlDialect, query: string): { keywords: string[]; statements: number } {
+  const keywords: string[] = [];
+  let statements = 0;
+  let inStatement = false;
+  let i = 0;
+
+  const skipPast = (close: string, from: number) => {
+    const end = query.indexOf(close, from);
+    return end === -1 ? query.length : end + close.length;
+  };
+
+  // End of a quoted string starting at `from`; doubled quotes are escapes
+  const skipQuoted = (quote: string, from: number, backslashEscapes: boolean) => {
+    let end = from;
+    while (end < query.length) {
+      if (backslashEscapes && query[end] === '\\') {
+        end += 2;
+      } else if (query[end] === quote && query[end + 1] === quote) {
+        end += 2;
+      } else if (query[end] === quote) {
+        return end + 1;
+      } else {
+        end++;
+      }
+    }
+    return end;
+  };
+
+  while (i < query.length) {
+    const char = query[i];
+    const next = query[i + 1];
+
+    if (char === "'") {
+      // MySQL strings and PostgreSQL E'' strings treat backslashes as escapes
+      const escapeString = dialect === 'postgresql' && /[Ee]/.test(query[i - 1] ?? '') && !/[A-Za-z0-9_]/.test(query[i - 2] ?? '');
+      i = skipQuoted(char, i + 1, dialect === 'mysql' || escapeString);
+      inStatement = true;
+    } else if (char === '"' || (char === '`' && (dialect === 'mysql' || dialect === 'sqlite'))) {
+      i = skipQuoted(char, i + 1, dialect === 'mysql' && char === '"');
+      inStatement = true;
+    } else if (char === '[' && (dialect === 'mssql' || dialect === 'sqlite')) {
+      i = skipPast(']', i + 1);
+      inStatement = true;
+    } else if ((char === '-' && next === '-') || (char === '#' && dialect === 'mysql')) {
+      i = skipPast('\n', i + 1);
+    } else if (char === '/' && next === '*') {
+      i = skipPast('*/', i + 2);
+    } else if (char === '$' && dialect === 'postgresql' && /^\$[A-Za-z_]*\$/.test(query.slice(i))) {
+      // Dollar-quoted text ($$...$$ or $tag$...$tag$)
+      const tag = query.slice(i).match(/^\$[A-Za-z_]*\$/)![0];
+      i = skipPast(tag, i + tag.length);
+      inStatement = true;
+    } else if (char === ';') {
+      if (inStatement) statements++;
+      inStatement = false;
+      i++;
+    } else if (/[A-Za-z_]/.test(char)) {
+      let end = i;
+      while (end < query.length && /[A-Za-z0-9_$]/.test(query[end])) end++;
+      // Words after a dot or a parameter prefix are names (t.delete, @update), not keywords
+      const previous = query[i - 1];
+      if (previous !== '.' && previous !== '@' && previous !== ':') {
+        keywords.push(query.slice(i, end).toUpperCase());
+      }
+      inStatement = true;
+      i = end;
+    } else {
+      if (!/\s/.test(char)) inStatement = true;
+      i++;
+    }
+  }
+
+  if (inStatement) statements++;
+  return { keywords, statements };
+}
+
+/**
+ * Throw a StatementBlockedError when a stored SQL query may not run on a data
+ * source with the given access.
+ */
+export function checkSqlStatement(dialect: SqlDialect, query: string, readOnly: boolean): void {
+  const { keywords, statements } = sqlKeywords(dialect, query);
+
+  if (statements === 0) {
+    throw new StatementBlockedError('The query is empty');
+  }
+  if (statements > 1) {
+    throw new StatementBlockedError('Only a single statement is allowed');
+  }
+
+  const first = keywords[0];
+  if (!READ_STATEMENTS.includes(first) && !(readOnly ? [] : WRITE_STATEMENTS).includes(first)) {
+    throw new StatementBlockedError(readOnly
+      ? `${first || 'This'} statements are not allowed on a read-only data source`
+      : `${first || 'This'} statements are not allowed`);
+  }
+
+  const blocked = keywords.find(keyword => BLOCKED_KEYWORDS.includes(keyword));
+  if (blocked) {
+    throw new StatementBlockedError(`${blocked} is not allowed in data source queries`);
+  }
+
+  if (readOnly) {
+    const write = keywords.find(keyword => WRITE_KEYWORDS.includes(keyword));
+    if (write) {
+      throw new StatementBlockedError(`${write} is not allowed on a read-only data source`);
+    }
+  } else if ((first === 'UPDATE' || first === 'DELETE') && !keywords.includes('WHERE')) {
+    throw new StatementBlockedError(`${first} without a WHERE clause is not allowed`);
+  }
+}
+
+// Throw a StatementBlockedError when a MongoDB filter runs server-side JavaScript
+export function checkDocumentFilter(filter: unknown): void {
+  if (Array.isArray(filter)) {
+    filter.forEach(checkDocumentFilter);
+  } else if (filter && typeof filter === 'object') {
+    for (const [key, value] of Object.entries(filter)) {
+      if (BLOCKED_MONGO_OPERATORS.includes(key)) {
+        throw new StatementBlockedError(`${key} is not allowed in data source queries`);
+      }
+      checkDocumentFilter(value);
+    }
+  }
+}
+
+/**
+ * Check the stored query of a database data source: SQL against the
+ * statement rules, MongoDB filters and pipelines for JavaScript operators
+ * and writing stages.
+ */
+export function checkStoredQuery(dialect: QueryDialect, query: string, readOnly: boolean): void {
+  if (dialect !== 'mongodb') {
+    checkSqlStatement(dialect, query, readOnly);
+    return;
+  }
+
+  let filter: unknown;
+  try {
+    filter = JSON.parse(query);
+  } catch {
+    throw new StatementBlockedError('MongoDB queries must be a JSON filter or pipeline');
+  }
+  if (Array.isArray(filter)) {
+    for (const stage of filter) {
+      const keys = stage && typeof stage === 'object' && !Array.isArray(stage) ? Object.keys(stage) : [];
+      if (keys.length !== 1 || !keys[0].startsWith('$')) {
+        throw new StatementBlockedError('Each pipeline stage must be an object with a single $ stage, e.g. { "$match": { ... } }');
+      }
+    }
+  } else if (!filter || typeof filter !== 'object') {
+    throw new StatementBlockedError('MongoDB queries must be a JSON filter or pipeline');
+  }
+  checkDocumentFilter(filter);
+}
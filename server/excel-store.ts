@@ -0,0 +1,450 @@
+import axios from 'axios';
+import * as XLSX from 'xlsx';
+import path from 'path';
+import fs from 'fs';
+import { storage } from './storage';
+import { uploadsDir } from './upload';
+import { DataWriteError } from './database/data-write';
+import { isDelimitedFile, detectEncoding, decodeText, detectDelimiter, parseCsv, formatCsv } from './csv';
+import { excelSerialToDate, TYPE_SAMPLE_SIZE } from './field-types';
+
+// A stored version of an Excel data source's workbook
+export interface ExcelRevision {
+  revision: number;
+  fileUrl: string;
+  createdAt: string;
+  createdBy?: string;
+  // What produced the revision: the original file or a row change
+  action: 'original' | 'insert' | 'update' | 'delete';
+}
+
+export type ExcelChange =
+  | { kind: 'insert'; values: Record<string, any> }
+  | { kind: 'update'; key: Record<string, any>; values: Record<string, any> }
+  | { kind: 'delete'; key: Record<string, any> };
+
+export interface ExcelChangeResult {
+  affectedRows: number;
+  row?: Record<string, any>;
+  revision?: ExcelRevision;
+}
+
+// How a file data source is read: which sheet, where the headers are and,
+// for CSV/TSV files, the delimiter and text encoding ('auto' to detect)
+export interface FileSourceOptions {
+  sheetName?: string;
+  headerRow?: number;
+  delimiter?: string;
+  encoding?: string;
+}
+
+export interface FileSource {
+  workbook: XLSX.WorkBook;
+  sheetName: string;
+  format: 'workbook' | 'delimited';
+  delimiter?: string;
+  encoding?: string;
+}
+
+// Files under /uploads are read from disk; anything else is fetched over HTTP
+function localUploadPath(fileUrl: string): string | null {
+  if (!fileUrl.startsWith('/uploads/')) {
+    return null;
+  }
+  // Only plain file names, never paths outside the uploads folder
+  return path.join(uploadsDir, path.basename(fileUrl));
+}
+
+async function readFileBuffer(fileUrl: string): Promise<Buffer> {
+  const localPath = localUploadPath(fileUrl);
+  if (localPath) {
+    return fs.promises.readFile(localPath);
+  }
+
+  const response = await axios.get(fileUrl, { responseType: 'arraybuffer', timeout: 10000 });
+  return Buffer.from(response.data);
+}
+
+// Numbers in delimited files arrive as text; codes with leading zeros and
+// numbers too long to represent exactly stay text, empty cells are left out
+function typedCell(value: string): string | number | null {
+  if (value === '') {
+    return null;
+  }
+  const trimmed = value.trim();
+  return trimmed.length <= 15 && /^-?(0|[1-9]\d*)(\.\d+)?$/.test(trimmed) ? Number(trimmed) : value;
+}
+
+export async function openFileSource(fileUrl: string, options: FileSourceOptions = {}): Promise<FileSource> {
+  const buffer = await readFileBuffer(fileUrl);
+
+  if (isDelimitedFile(fileUrl)) {
+    const encoding = !options.encoding || options.encoding === 'auto' ? detectEncoding(buffer) : options.encoding;
+    const text = decodeText(buffer, encoding);
+    const delimiter = !options.delimiter || options.delimiter === 'auto' ? detectDelimiter(text) : options.delimiter;
+    const rows = parseCsv(text, delimiter).map(row => row.map(typedCell));
+
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), 'Sheet1');
+    return { workbook, sheetName: 'Sheet1', format: 'delimited', delimiter, encoding };
+  }
+
+  // Number formats and column widths are kept so revisions written back look like the original
+  const workbook = XLSX.read(buffer, { type: 'buffer', cellNF: true, cellStyles: true });
+  const sheetName = options.sheetName && workbook.Sheets[options.sheetName]
+    ? options.sheetName
+    : workbook.SheetNames[0];
+  return { workbook, sheetName, format: 'workbook' };
+}
+
+// 0-based index of the header row (rows above it are titles, notes, etc.)
+function headerIndex(options: FileSourceOptions): number {
+  const headerRow = Number(options.headerRow) || 1;
+  return Math.max(0, headerRow - 1);
+}
+
+// Column names from the header row of a sheet
+export function sheetHeaders(worksheet: XLSX.WorkSheet, options: FileSourceOptions = {}): string[] {
+  const rows = XLSX.utils.sheet_to_json<any[]>(worksheet, { header: 1, blankrows: true });
+  return ((rows[headerIndex(options)] as any[]) || []).map(header => String(header ?? ''));
+}
+
+// Rows below the header row as objects keyed by header
+export function sheetRows(worksheet: XLSX.WorkSheet, options: FileSourceOptions = {}): Record<string, any>[] {
+  return XLSX.utils.sheet_to_json(worksheet, { range: headerIndex(options) });
+}
+
+// Formatted text of a date or time cell, e.g. "3/1/24", "1-Jan-2024" or "14:30"
+const DATE_TEXT = /\d{1,4}[\/\-.]\d{1,2}[\/\-.]\d{1,4}|\b(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\b|^\d{1,2}:\d{2}/i;
+
+/**
+ * Rows below the header row for type inference. Excel keeps dates as serial
+ * numbers, so numeric cells whose formatted text reads as a date are
+ * returned as Dates.
+ */
+export function sheetSampleRows(worksheet: XLSX.WorkSheet, options: FileSourceOptions = {}, limit = TYPE_SAMPLE_SIZE): Record<string, any>[] {
+  if (!worksheet['!ref']) {
+    return [];
+  }
+  const headers = sheetHeaders(worksheet, options);
+  const range = XLSX.utils.decode_range(worksheet['!ref']);
+  const rows: Record<string, any>[] = [];
+
+  for (let r = headerIndex(options) + 1; r <= range.e.r && rows.length < limit; r++) {
+    const row: Record<string, any> = {};
+    headers.forEach((header, index) => {
+      const cell = worksheet[XLSX.utils.encode_cell({ r, c: range.s.c + index })];
+      if (!cell || cell.v === undefined || cell.v === null) {
+        return;
+      }
+      row[header] = cell.t === 'n' && typeof cell.w === 'string' && DATE_TEXT.test(cell.w)
+        ? excelSerialToDate(cell.v as number)
+        : cell.v;
+    });
+    if (Object.keys(row).length > 0) {
+      rows.push(row);
+    }
+  }
+  return rows;
+}
+
+// Rows of the configured sheet (or the first one) as objects keyed by header
+export async function readExcelRows(config: any): Promise<any[]> {
+  const source = await openFileSource(config.fileUrl, config);
+  return sheetRows(source.workbook.Sheets[source.sheetName], config);
+}
+
+// Revision history of a data source config, seeding it with the original file
+export function revisionsOf(config: any): ExcelRevision[] {
+  if (Array.isArray(config.revisions) && config.revisions.length > 0) {
+    return config.revisions;
+  }
+  if (!config.fileUrl) {
+    return [];
+  }
+  return [{
+    revision: 1,
+    fileUrl: config.fileUrl,
+    createdAt: new Date().toISOString(),
+    action: 'original'
+  }];
+}
+
+/**
+ * Saving the data source from the editor sends a fresh config, which would
+ * drop the revision history. Keep it as long as the file is still one of
+ * the stored revisions.
+ */
+export function carryOverRevisions(previousConfig: any, nextConfig: any): any {
+  if (!previousConfig || !Array.isArray(previousConfig.revisions) || nextConfig.revisions) {
+    return nextConfig;
+  }
+  const current = previousConfig.revisions.find((entry: ExcelRevision) => entry.fileUrl === nextConfig.fileUrl);
+  if (!current) {
+    return nextConfig;
+  }
+  return { ...nextConfig, revisions: previousConfig.revisions, currentRevision: current.revision };
+}
+
+function matchesKey(row: Record<string, any>, key: Record<string, any>): boolean {
+  return Object.keys(key).every(column => String(row[column] ?? '') === String(key[column] ?? ''));
+}
+
+// Grid edits arrive as strings; keep numbers and booleans typed like the column
+function coerceCell(sample: any, value: any): any {
+  if (typeof value !== 'string' || value === '') {
+    return value;
+  }
+  if (typeof sample === 'number' && !isNaN(Number(value))) {
+    return Number(value);
+  }
+  if (typeof sample === 'boolean' && (value === 'true' || value === 'false')) {
+    return value === 'true';
+  }
+  return value;
+}
+
+function coerceRow(rows: any[], values: Record<string, any>): Record<string, any> {
+  const coerced: Record<string, any> = {};
+  for (const [column, value] of Object.entries(values)) {
+    const sample = rows.find(row => row[column] !== undefined && row[column] !== null)?.[column];
+    coerced[column] = coerceCell(sample, value);
+  }
+  return coerced;
+}
+
+// Excel keeps dates as days since 1899-12-30
+function dateToExcelSerial(date: Date): number {
+  return (date.getTime() - Date.UTC(1899, 11, 30)) / 86400000;
+}
+
+function isDateFormat(format: unknown): boolean {
+  return typeof format === 'string' && XLSX.SSF.is_date(format);
+}
+
+function extendRange(worksheet: XLSX.WorkSheet, r: number, c: number) {
+  const range = XLSX.utils.decode_range(worksheet['!ref'] || 'A1');
+  range.e.r = Math.max(range.e.r, r);
+  range.e.c = Math.max(range.e.c, c);
+  worksheet['!ref'] = XLSX.utils.encode_range(range);
+}
+
+/**
+ * Write one value into a worksheet, keeping the cell's number format (or
+ * `formatFrom`'s, for new cells). A value replaces any formula; values for
+ * date-formatted cells are stored as serial dates.
+ */
+function setCell(worksheet: XLSX.WorkSheet, r: number, c: number, value: any, formatFrom?: XLSX.CellObject) {
+  const address = XLSX.utils.encode_cell({ r, c });
+  const cell: XLSX.CellObject = { ...(worksheet[address] || { t: 'z', z: formatFrom?.z }) };
+  delete cell.f;
+  delete cell.w;
+  delete cell.v;
+
+  if (value === null || value === undefined || value === '') {
+    cell.t = 'z';
+  } else if (value instanceof Date || (isDateFormat(cell.z) && typeof value === 'string' && !isNaN(Date.parse(value)))) {
+    cell.t = 'n';
+    cell.v = dateToExcelSerial(value instanceof Date ? value : new Date(value));
+  } else if (typeof value === 'number') {
+    cell.t = 'n';
+    cell.v = value;
+  } else if (typeof value === 'boolean') {
+    cell.t = 'b';
+    cell.v = value;
+  } else {
+    cell.t = 's';
+    cell.v = String(value);
+  }
+  worksheet[address] = cell;
+  extendRange(worksheet, r, c);
+}
+
+// Remove a sheet row, moving the cells (and row heights) below it up by one
+function deleteSheetRow(worksheet: XLSX.WorkSheet, r: number) {
+  const range = XLSX.utils.decode_range(worksheet['!ref'] || 'A1');
+  for (let row = r; row <= range.e.r; row++) {
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      const below = worksheet[XLSX.utils.encode_cell({ r: row + 1, c })];
+      const address = XLSX.utils.encode_cell({ r: row, c });
+      if (below) {
+        worksheet[address] = below;
+      } else {
+        delete worksheet[address];
+      }
+    }
+  }
+  range.e.r = Math.max(range.s.r, range.e.r - 1);
+  worksheet['!ref'] = XLSX.utils.encode_range(range);
+  worksheet['!rows']?.splice(r, 1);
+}
+
+// Writes to the same data source are serialized so revisions don't overwrite each other
+const writeQueues = new Map<number, Promise<unknown>>();
+
+function serialize<T>(dataSourceId: number, task: () => Promise<T>): Promise<T> {
+  const previous = writeQueues.get(dataSourceId) || Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  writeQueues.set(dataSourceId, next);
+  next.finally(() => {
+    if (writeQueues.get(dataSourceId) === next) {
+      writeQueues.delete(dataSourceId);
+    }
+  }).catch(() => undefined);
+  return next;
+}
+
+/**
+ * Apply a row change to an Excel data source. Only the changed cells of the
+ * sheet are written (formulas, formats and other sheets untouched); the
+ * workbook is saved under uploads/ as a new revision and the data source is
+ * pointed at it. Earlier revisions are kept for rollback.
+ */
+export function applyExcelChange(
+  dataSourceId: number,
+  change: ExcelChange,
+  createdBy?: string
+): Promise<ExcelChangeResult> {
+  return serialize(dataSourceId, async () => {
+    const dataSource = await storage.getDataSource(dataSourceId);
+    if (!dataSource) {
+      throw new DataWriteError('Data source not found');
+    }
+
+    const config = typeof dataSource.config === 'string' ?
+      JSON.parse(dataSource.config) :
+      { ...(dataSource.config as any || {}) };
+    if (!config.fileUrl) {
+      throw new DataWriteError('No file URL provided in Excel data source config');
+    }
+
+    const source = await openFileSource(config.fileUrl, config);
+    const worksheet = source.workbook.Sheets[source.sheetName];
+    const rows = sheetRows(worksheet, config);
+    // Keep the existing column order, including columns that are empty in every row,
+    // and any title rows above the header
+    const headers = sheetHeaders(worksheet, config);
+    const preamble = XLSX.utils.sheet_to_json<any[]>(worksheet, { header: 1, blankrows: true })
+      .slice(0, headerIndex(config));
+
+    let row: Record<string, any> | undefined;
+    // The sheet row (0-based) of the changed row, and the values written to it
+    let sheetRow: number | undefined;
+    let written: Record<string, any> = {};
+
+    if (change.kind === 'insert') {
+      if (Object.keys(change.values).length === 0) {
+        throw new DataWriteError('No values to insert');
+      }
+      row = coerceRow(rows, change.values);
+      written = row;
+      rows.push(row);
+    } else {
+      const index = rows.findIndex(candidate => matchesKey(candidate, change.key));
+      if (index === -1) {
+        return { affectedRows: 0 };
+      }
+      sheetRow = (rows[index] as { __rowNum__?: number }).__rowNum__;
+
+      if (change.kind === 'update') {
+        if (Object.keys(change.values).length === 0) {
+          throw new DataWriteError('No values to update');
+        }
+        written = coerceRow(rows, change.values);
+        row = { ...rows[index], ...written };
+        rows[index] = row;
+      } else {
+        rows.splice(index, 1);
+      }
+    }
+
+    const newColumns = Object.keys(row || {}).filter(column => !headers.includes(column));
+    headers.push(...newColumns);
+
+    // Delimited files stay delimited (UTF-8 with a BOM so Excel opens them correctly)
+    const revisions = revisionsOf(config);
+    const revisionNumber = Math.max(0, ...revisions.map(entry => entry.revision)) + 1;
+    const extension = source.format === 'delimited'
+      ? (source.delimiter === '\t' ? 'tsv' : 'csv')
+      : 'xlsx';
+    const filename = `datasource-${dataSourceId}-r${revisionNumber}-${Date.now()}.${extension}`;
+    let contents: Buffer;
+    if (source.format === 'delimited') {
+      const table = [
+        ...preamble,
+        headers,
+        ...rows.map(candidate => headers.map(header => candidate[header] ?? null))
+      ];
+      contents = Buffer.from('\ufeff' + formatCsv(table, source.delimiter || ','), 'utf-8');
+    } else {
+      const range = XLSX.utils.decode_range(worksheet['!ref'] || 'A1');
+      const headerRow = headerIndex(config);
+      const column = (header: string) => range.s.c + headers.indexOf(header);
+      for (const header of newColumns) {
+        setCell(worksheet, headerRow, column(header), header);
+      }
+      if (change.kind === 'delete') {
+        deleteSheetRow(worksheet, sheetRow!);
+      } else {
+        // New rows go below the last one, formatted like the row above
+        const target = sheetRow ?? Math.max(range.e.r, headerRow) + 1;
+        for (const [header, value] of Object.entries(written)) {
+          const above = change.kind === 'insert' ? worksheet[XLSX.utils.encode_cell({ r: target - 1, c: column(header) })] : undefined;
+          setCell(worksheet, target, column(header), value, target - 1 > headerRow ? above : undefined);
+        }
+      }
+      contents = XLSX.write(source.workbook, { type: 'buffer', bookType: 'xlsx' });
+    }
+    await fs.promises.writeFile(path.join(uploadsDir, filename), contents);
+
+    const revision: ExcelRevision = {
+      revision: revisionNumber,
+      fileUrl: `/uploads/${filename}`,
+      createdAt: new Date().toISOString(),
+      createdBy,
+      action: change.kind
+    };
+
+    await storage.updateDataSource(dataSourceId, {
+      config: JSON.stringify({
+        ...config,
+        fileUrl: revision.fileUrl,
+        // The revision is written as UTF-8 with the detected delimiter
+        ...(source.format === 'delimited' ? { delimiter: source.delimiter, encoding: 'utf-8' } : {}),
+        revisions: [...revisions, revision],
+        currentRevision: revision.revision
+      })
+    });
+
+    return { affectedRows: 1, row, revision };
+  });
+}
+
+// Point an Excel data source back at an earlier revision
+export function rollbackExcelRevision(dataSourceId: number, revisionNumber: number): Promise<ExcelRevision | undefined> {
+  return serialize(dataSourceId, async () => {
+    const dataSource = await storage.getDataSource(dataSourceId);
+    if (!dataSource) {
+      return undefined;
+    }
+
+    const config = typeof dataSource.config === 'string' ?
+      JSON.parse(dataSource.config) :
+      { ...(dataSource.config as any || {}) };
+    const revisions = revisionsOf(config);
+    const target = revisions.find(entry => entry.revision === revisionNumber);
+    if (!target) {
+      return undefined;
+    }
+
+    await storage.updateDataSource(dataSourceId, {
+      config: JSON.stringify({
+        ...config,
+        fileUrl: target.fileUrl,
+        revisions,
+        currentRevision: target.revision
+      })
+    });
+    return target;
+  });
+}
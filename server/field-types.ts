@@ -0,0 +1,179 @@
+// Type inference over sampled column values, and coercion of row values to
+// the type of their field before rows are returned to forms.
+
+import { normalizeFieldType, type FieldType } from '@shared/field-types';
+
+// Rows scanned per column when inferring types
+export const TYPE_SAMPLE_SIZE = 200;
+
+const INTEGER = /^[-+]?\d+$/;
+const NUMBER = /^[-+]?(\d{1,3}(,\d{3})+|\d*)(\.\d+)?([eE][-+]?\d+)?$/;
+const BOOLEAN = /^(true|false|yes|no)$/i;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const ISO_DATETIME = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}/;
+const SLASH_DATE = /^\d{1,2}\/\d{1,2}\/\d{2,4}$/;
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const URL_PATTERN = /^https?:\/\/\S+$/i;
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+}
+
+// Excel stores dates as days since 1899-12-30
+export function excelSerialToDate(serial: number): Date {
+  return new Date(Math.round((serial - 25569) * 86400 * 1000));
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+function valueType(value: unknown): FieldType {
+  if (typeof value === 'boolean') return 'boolean';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  if (value instanceof Date) {
+    return value.getUTCHours() || value.getUTCMinutes() || value.getUTCSeconds() ? 'datetime' : 'date';
+  }
+  if (typeof value === 'object') return 'json';
+
+  const text = String(value).trim();
+  // Leading zeros (zip codes, account numbers) are kept as text
+  if (INTEGER.test(text) && !/^[-+]?0\d/.test(text)) return 'integer';
+  if (NUMBER.test(text) && /\d/.test(text) && !/^[-+]?0\d/.test(text)) return 'number';
+  if (BOOLEAN.test(text)) return 'boolean';
+  if (ISO_DATE.test(text) || SLASH_DATE.test(text)) return isNaN(Date.parse(text)) ? 'text' : 'date';
+  if (ISO_DATETIME.test(text)) return isNaN(Date.parse(text)) ? 'text' : 'datetime';
+  if (EMAIL.test(text)) return 'email';
+  if (URL_PATTERN.test(text)) return 'url';
+  return 'text';
+}
+
+/**
+ * The most specific type every non-empty value fits: integers widen to
+ * numbers and dates to datetimes; any other mix is text.
+ */
+export function inferFieldType(values: unknown[]): FieldType {
+  const types = new Set<FieldType>();
+  for (const value of values) {
+    if (!isEmpty(value)) {
+      types.add(valueType(value));
+    }
+  }
+
+  if (types.size === 0) return 'text';
+  if (types.size === 1) return Array.from(types)[0];
+  if (Array.from(types).every(type => type === 'integer' || type === 'number')) return 'number';
+  if (Array.from(types).every(type => type === 'date' || type === 'datetime')) return 'datetime';
+  return 'text';
+}
+
+// Types of the given columns (or every key seen) across a sample of rows
+export function inferFieldTypes(rows: Record<string, any>[], names?: string[]): Record<string, FieldType> {
+  const sample = rows.slice(0, TYPE_SAMPLE_SIZE);
+  const columns = names ?? Array.from(new Set(sample.flatMap(row => Object.keys(row))));
+  return Object.fromEntries(columns.map(name => [name, inferFieldType(sample.map(row => row[name]))]));
+}
+
+export interface CoerceOptions {
+  // Numbers in date fields are Excel serial dates
+  excelSerialDates?: boolean;
+}
+
+function toDate(value: unknown, options: CoerceOptions): Date | undefined {
+  if (value instanceof Date) return value;
+  if (typeof value === 'number') {
+    return options.excelSerialDates ? excelSerialToDate(value) : undefined;
+  }
+  if (typeof value === 'string') {
+    const parsed = new Date(value.trim());
+    return isNaN(parsed.getTime()) ? undefined : parsed;
+  }
+  return undefined;
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && NUMBER.test(value.trim()) && /\d/.test(value)) {
+    return Number(value.trim().replace(/,/g, ''));
+  }
+  return undefined;
+}
+
+/**
+ * A value converted to a field's type. Values that don't convert are
+ * returned as they are, so nothing read from the source is lost.
+ */
+export function coerceFieldValue(value: unknown, type: string, options: CoerceOptions = {}): unknown {
+  if (value === null || value === undefined) {
+    return value;
+  }
+
+  const fieldType = normalizeFieldType(type);
+  if (fieldType !== 'text' && typeof value === 'string' && value.trim() === '') {
+    return null;
+  }
+
+  switch (fieldType) {
+    case 'integer': {
+      // Large integers (e.g. PostgreSQL bigint) stay strings rather than lose precision
+      const number = toNumber(value);
+      return number !== undefined && Number.isSafeInteger(number) ? number : value;
+    }
+    case 'number': {
+      const number = toNumber(value);
+      return number !== undefined && Number.isFinite(number) ? number : value;
+    }
+    case 'boolean': {
+      if (typeof value === 'boolean') return value;
+      const text = String(value).trim().toLowerCase();
+      if (['true', 'yes', 'y', '1'].includes(text)) return true;
+      if (['false', 'no', 'n', '0'].includes(text)) return false;
+      return value;
+    }
+    case 'date': {
+      const date = toDate(value, options);
+      if (!date) return value;
+      // Serial and ISO dates are UTC midnight; driver dates and other strings are local
+      const utc = typeof value === 'number' || (typeof value === 'string' && ISO_DATE.test(value.trim()));
+      return utc
+        ? `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`
+        : `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+    }
+    case 'datetime': {
+      const date = toDate(value, options);
+      return date ? date.toISOString() : value;
+    }
+    case 'json':
+      if (typeof value === 'string') {
+        try {
+          return JSON.parse(value);
+        } catch {
+          return value;
+        }
+      }
+      return value;
+    default:
+      // Text-like fields: numbers and booleans read from a sheet become strings
+      return typeof value === 'object' ? value : String(value);
+  }
+}
+
+// Rows with each value coerced to its field's type; columns without a field are left alone
+export function coerceRows(
+  rows: Record<string, any>[],
+  fields: Array<{ name: string; type: string }>,
+  options: CoerceOptions = {}
+): Record<string, any>[] {
+  if (fields.length === 0) {
+    return rows;
+  }
+  return rows.map(row => {
+    const coerced: Record<string, any> = { ...row };
+    for (const field of fields) {
+      if (field.name in coerced) {
+        coerced[field.name] = coerceFieldValue(coerced[field.name], field.type, options);
+      }
+    }
+    return coerced;
+  });
+}
@@ -0,0 +1,155 @@
+/**
+ * Config of a "join" data source: rows of two existing data sources matched
+ * on a key column of each, computed on the server whenever it is read.
+ *
+ * `columns` lists the output columns and where they come from; `as` renames
+ * a column (e.g. when both sources have a "name"). Without columns every
+ * column of both sides is returned, the right side's clashing names
+ * suffixed with " (2)".
+ */
+export interface JoinSourceConfig {
+  leftSourceId: number;
+  rightSourceId: number;
+  leftKey: string;
+  rightKey: string;
+  joinType?: 'inner' | 'left';
+  columns?: JoinColumn[];
+}
+
+export interface JoinColumn {
+  source: 'left' | 'right';
+  field: string;
+  as?: string;
+}
+
+export class JoinSourceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JoinSourceError';
+  }
+}
+
+// Joins may read other joins, but only this many levels deep
+export const MAX_JOIN_DEPTH = 3;
+
+// Check a join config before it is saved or read
+export function validateJoinConfig(config: Partial<JoinSourceConfig>): JoinSourceConfig {
+  const leftSourceId = Number(config.leftSourceId);
+  const rightSourceId = Number(config.rightSourceId);
+  if (!Number.isInteger(leftSourceId) || !Number.isInteger(rightSourceId) || leftSourceId <= 0 || rightSourceId <= 0) {
+    throw new JoinSourceError('Both data sources to join are required');
+  }
+  if (!config.leftKey || !config.rightKey) {
+    throw new JoinSourceError('A join key is required for both data sources');
+  }
+  if (config.joinType !== undefined && config.joinType !== 'inner' && config.joinType !== 'left') {
+    throw new JoinSourceError(`Unsupported join type: ${config.joinType}`);
+  }
+
+  const columns = Array.isArray(config.columns) ? config.columns : [];
+  for (const column of columns) {
+    if ((column.source !== 'left' && column.source !== 'right') || !column.field) {
+      throw new JoinSourceError('Each output column needs a source (left or right) and a field');
+    }
+  }
+  const names = columns.map(column => column.as || column.field);
+  const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+  if (duplicate) {
+    throw new JoinSourceError(`Output column "${duplicate}" is used twice; rename one of them`);
+  }
+
+  return {
+    leftSourceId,
+    rightSourceId,
+    leftKey: config.leftKey,
+    rightKey: config.rightKey,
+    joinType: config.joinType || 'inner',
+    columns
+  };
+}
+
+// The output columns, filling in every column of both sides when none were chosen
+export function resolveJoinColumns(
+  config: JoinSourceConfig,
+  leftFields: string[],
+  rightFields: string[]
+): Array<Required<JoinColumn>> {
+  if (config.columns && config.columns.length > 0) {
+    return config.columns.map(column => ({ ...column, as: column.as || column.field }));
+  }
+
+  const columns: Array<Required<JoinColumn>> = leftFields.map(field => ({ source: 'left', field, as: field }));
+  for (const field of rightFields) {
+    columns.push({ source: 'right', field, as: leftFields.includes(field) ? `${field} (2)` : field });
+  }
+  return columns;
+}
+
+// Keys compare as text so a numeric id from a sheet matches an integer column
+function joinKey(value: unknown): string | undefined {
+  if (value === null || value === undefined || value === '') {
+    return undefined;
+  }
+  return value instanceof Date ? value.toISOString() : String(value).trim();
+}
+
+/**
+ * Hash join of the two sides' rows. Rows without a key never match; a left
+ * join keeps them with the right side's columns empty.
+ */
+export function joinRows(
+  config: JoinSourceConfig,
+  leftRows: Record<string, any>[],
+  rightRows: Record<string, any>[],
+  columns: Array<Required<JoinColumn>>
+): Record<string, any>[] {
+  const rightByKey = new Map<string, Record<string, any>[]>();
+  for (const row of rightRows) {
+    const key = joinKey(row[config.rightKey]);
+    if (key === undefined) continue;
+    if (!rightByKey.has(key)) {
+      rightByKey.set(key, []);
+    }
+    rightByKey.get(key)!.push(row);
+  }
+
+  const output = (left: Record<string, any>, right: Record<string, any> | undefined) => {
+    const row: Record<string, any> = {};
+    for (const column of columns) {
+      const side = column.source === 'left' ? left : right;
+      row[column.as] = side ? side[column.field] ?? null : null;
+    }
+    return row;
+  };
+
+  const rows: Record<string, any>[] = [];
+  for (const left of leftRows) {
+    const key = joinKey(left[config.leftKey]);
+    const matches = key === undefined ? undefined : rightByKey.get(key);
+    if (matches) {
+      for (const right of matches) {
+        rows.push(output(left, right));
+      }
+    } else if (config.joinType === 'left') {
+      rows.push(output(left, undefined));
+    }
+  }
+  return rows;
+}
+
+// Field definitions of the output columns, typed like the columns they come from
+export function joinFields(
+  columns: Array<Required<JoinColumn>>,
+  leftFields: Array<{ name: string; type: string; format?: string }>,
+  rightFields: Array<{ name: string; type: string; format?: string }>
+): Array<{ name: string; type: string; format?: string; selected: boolean }> {
+  return columns.map(column => {
+    const source = (column.source === 'left' ? leftFields : rightFields).find(field => field.name === column.field);
+    return {
+      name: column.as,
+      type: source?.type || 'text',
+      ...(source?.format ? { format: source.format } : {}),
+      selected: true
+    };
+  });
+}
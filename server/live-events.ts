@@ -0,0 +1,61 @@
+import type { Request, Response } from 'express';
+import type { LiveEvent } from '@shared/live-events';
+
+// Comment lines keep idle connections open through proxies
+const HEARTBEAT_MS = 25000;
+
+// Open event streams of signed-in browsers, each sent every published change
+export class LiveEvents {
+  private clients = new Set<Response>();
+  private heartbeat: NodeJS.Timeout | undefined;
+
+  // Hold a request open as an event stream until the browser disconnects
+  subscribe(req: Request, res: Response) {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      // Stops nginx from buffering the stream
+      'X-Accel-Buffering': 'no'
+    });
+    // Browsers reconnect after this many milliseconds when the stream drops
+    res.write('retry: 5000\n\n');
+
+    this.clients.add(res);
+    this.startHeartbeat();
+
+    req.on('close', () => {
+      this.clients.delete(res);
+      if (this.clients.size === 0) {
+        this.stopHeartbeat();
+      }
+    });
+  }
+
+  publish(event: LiveEvent) {
+    const message = `event: change\ndata: ${JSON.stringify(event)}\n\n`;
+    for (const client of Array.from(this.clients)) {
+      client.write(message);
+    }
+  }
+
+  private startHeartbeat() {
+    if (this.heartbeat) {
+      return;
+    }
+    this.heartbeat = setInterval(() => {
+      for (const client of Array.from(this.clients)) {
+        client.write(': ping\n\n');
+      }
+    }, HEARTBEAT_MS);
+    // Don't keep the process alive just for the heartbeat
+    this.heartbeat.unref();
+  }
+
+  private stopHeartbeat() {
+    clearInterval(this.heartbeat);
+    this.heartbeat = undefined;
+  }
+}
+
+export const liveEvents = new LiveEvents();
@@ -0,0 +1,236 @@
+import axios, { type AxiosRequestConfig } from 'axios';
+import { inferFieldTypes } from './field-types';
+
+/**
+ * Config of a "rest" data source: rows are read from a JSON HTTP API.
+ *
+ * `rowsPath` is a JSONPath-style selector for the rows array in each
+ * response (e.g. `$.data.items`, `results[*].record`); the whole response
+ * is used when it is empty. Pagination follows one of a few common styles
+ * until a page comes back short or empty.
+ */
+export interface RestSourceConfig {
+  url: string;
+  headers?: Record<string, string>;
+  authType?: 'none' | 'basic' | 'bearer' | 'apiKey';
+  username?: string;
+  password?: string;
+  token?: string;
+  apiKeyName?: string;
+  apiKeyValue?: string;
+  apiKeyIn?: 'header' | 'query';
+  rowsPath?: string;
+  pagination?: 'none' | 'page' | 'offset' | 'cursor' | 'link';
+  pageParam?: string;
+  pageSizeParam?: string;
+  pageSize?: number;
+  startPage?: number;
+  offsetParam?: string;
+  limitParam?: string;
+  cursorParam?: string;
+  // Where the next cursor (cursor style) or next page URL (link style) is in the response
+  nextPath?: string;
+  maxPages?: number;
+  timeoutMs?: number;
+}
+
+export class RestSourceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RestSourceError';
+  }
+}
+
+// Stop following pages after this many rows even if the API has more
+const MAX_ROWS = 10000;
+
+// Split a selector like $.data['items'][0].name or data.items[*] into steps
+function parsePath(selector: string): Array<string | number> {
+  const steps: Array<string | number> = [];
+  const pattern = /\.?([^.[\]]+)|\[(\d+|\*|'[^']*'|"[^"]*")\]/g;
+  const trimmed = selector.trim().replace(/^\$/, '');
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(trimmed)) !== null) {
+    if (match[1] !== undefined) {
+      steps.push(match[1]);
+    } else if (/^\d+$/.test(match[2])) {
+      steps.push(parseInt(match[2]));
+    } else if (match[2] === '*') {
+      steps.push('*');
+    } else {
+      steps.push(match[2].slice(1, -1));
+    }
+  }
+  return steps;
+}
+
+/**
+ * Evaluate a JSONPath-style selector. Supports dot and bracket member
+ * access, array indexes and the `[*]` wildcard (which maps over arrays).
+ */
+export function selectPath(value: any, selector?: string): any {
+  if (!selector || selector.trim() === '' || selector.trim() === '$') {
+    return value;
+  }
+
+  let current: any[] = [value];
+  let wildcard = false;
+  for (const step of parsePath(selector)) {
+    if (step === '*') {
+      wildcard = true;
+      current = current.flatMap(item => Array.isArray(item) ? item : item && typeof item === 'object' ? Object.values(item) : []);
+    } else {
+      current = current
+        .map(item => item === null || item === undefined ? undefined : item[step])
+        .filter(item => item !== undefined);
+    }
+  }
+  return wildcard ? current : current[0];
+}
+
+function requestOptions(config: RestSourceConfig, params: Record<string, any>): AxiosRequestConfig {
+  const headers: Record<string, string> = { Accept: 'application/json', ...(config.headers || {}) };
+  const query = { ...params };
+
+  switch (config.authType) {
+    case 'basic':
+      headers.Authorization = `Basic ${Buffer.from(`${config.username || ''}:${config.password || ''}`).toString('base64')}`;
+      break;
+    case 'bearer':
+      headers.Authorization = `Bearer ${config.token || ''}`;
+      break;
+    case 'apiKey':
+      if (config.apiKeyName) {
+        if (config.apiKeyIn === 'query') {
+          query[config.apiKeyName] = config.apiKeyValue;
+        } else {
+          headers[config.apiKeyName] = config.apiKeyValue || '';
+        }
+      }
+      break;
+  }
+
+  return {
+    headers,
+    params: query,
+    timeout: config.timeoutMs || 15000,
+    responseType: 'json'
+  };
+}
+
+// rel="next" from an RFC 8288 Link header
+function nextLinkHeader(header: unknown): string | undefined {
+  if (typeof header !== 'string') return undefined;
+  const match = header.split(',').find(part => /rel="?next"?/.test(part));
+  return match?.match(/<([^>]+)>/)?.[1];
+}
+
+function toRows(selected: any, rowsPath?: string): any[] {
+  if (selected === undefined || selected === null) {
+    return [];
+  }
+  if (!Array.isArray(selected)) {
+    // A single object is one row; anything else means the selector is wrong
+    if (typeof selected === 'object') return [selected];
+    throw new RestSourceError(`The rows selector ${rowsPath || '$'} did not select an array`);
+  }
+  // Lists of plain values become single-column rows
+  return selected.map(item => item !== null && typeof item === 'object' ? item : { value: item });
+}
+
+/**
+ * Fetch rows from a REST data source, following pagination up to
+ * `maxPages` (default 20) pages.
+ */
+export async function fetchRestRows(config: RestSourceConfig, options: { maxPages?: number } = {}): Promise<any[]> {
+  if (!config.url) {
+    throw new RestSourceError('A URL is required for REST data sources');
+  }
+
+  const pagination = config.pagination || 'none';
+  const maxPages = options.maxPages ?? config.maxPages ?? 20;
+  const pageSize = Number(config.pageSize) || 100;
+  const rows: any[] = [];
+
+  let url: string | undefined = config.url;
+  let page = config.startPage ?? 1;
+  let offset = 0;
+  let cursor: string | undefined;
+
+  for (let pageCount = 0; url && pageCount < maxPages && rows.length < MAX_ROWS; pageCount++) {
+    const params: Record<string, any> = {};
+    if (pagination === 'page') {
+      params[config.pageParam || 'page'] = page;
+      params[config.pageSizeParam || 'pageSize'] = pageSize;
+    } else if (pagination === 'offset') {
+      params[config.offsetParam || 'offset'] = offset;
+      params[config.limitParam || 'limit'] = pageSize;
+    } else if (pagination === 'cursor' && cursor) {
+      params[config.cursorParam || 'cursor'] = cursor;
+    }
+
+    let response;
+    try {
+      response = await axios.get(url, requestOptions(config, params));
+    } catch (error: any) {
+      const status = error.response?.status;
+      throw new RestSourceError(status
+        ? `API request failed with status ${status}`
+        : `API request failed: ${error.message}`);
+    }
+
+    if (typeof response.data !== 'object' || response.data === null) {
+      throw new RestSourceError('The API did not return JSON');
+    }
+
+    const pageRows = toRows(selectPath(response.data, config.rowsPath), config.rowsPath);
+    rows.push(...pageRows);
+
+    if (pagination === 'page' || pagination === 'offset') {
+      if (pageRows.length < pageSize) break;
+      page++;
+      offset += pageRows.length;
+    } else if (pagination === 'cursor') {
+      cursor = selectPath(response.data, config.nextPath || '$.next');
+      if (!cursor) break;
+    } else if (pagination === 'link') {
+      const next: string | undefined = (config.nextPath && selectPath(response.data, config.nextPath)) || nextLinkHeader(response.headers.link);
+      // Relative next links resolve against the page they came from. The
+      // credentials go with every request, so links may not leave the API's origin.
+      url = next ? new URL(next, url).toString() : undefined;
+      if (url && new URL(url).origin !== new URL(config.url).origin) {
+        throw new RestSourceError(`The next page link points to another origin (${new URL(url).origin}) and was not followed`);
+      }
+    } else {
+      break;
+    }
+  }
+
+  return rows.slice(0, MAX_ROWS);
+}
+
+// Field definitions inferred from the keys and values of the first rows
+export function inferRestFields(rows: any[]): Array<{ name: string; type: string; selected: boolean }> {
+  return Object.entries(inferFieldTypes(rows)).map(([name, type]) => ({ name, type, selected: true }));
+}
+
+// Fetch the first page to check the settings and discover the fields
+export async function testRestConnection(config: RestSourceConfig) {
+  try {
+    const rows = await fetchRestRows(config, { maxPages: 1 });
+    return {
+      success: true,
+      message: 'API connection successful',
+      info: {
+        url: config.url,
+        rowCount: rows.length
+      },
+      fields: inferRestFields(rows)
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `API connection failed: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+}
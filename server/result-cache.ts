@@ -0,0 +1,119 @@
+import { createHash } from 'crypto';
+
+// Seconds a data source's rows are served from the cache unless its config sets `cacheTtl`;
+// 0 by default so caching is opt-in per source
+export const DEFAULT_CACHE_TTL_SECONDS = parseInt(process.env.DATASOURCE_CACHE_TTL || '0');
+
+interface CacheEntry {
+  // The data source read, plus any sources it was computed from (e.g. a join's)
+  dataSourceIds: number[];
+  value: unknown;
+  storedAt: number;
+  expiresAt: number;
+}
+
+// JSON with object keys sorted, so equal requests map to the same key
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Caches data source reads per data source and request (query string and
+ * the parameters bound to the stored query), so dropdowns and tables on the
+ * same form don't each query the database or re-parse a workbook.
+ *
+ * Each data source has a generation that invalidation bumps; a read that
+ * started before a write or config change is not stored, so it can't put
+ * stale rows back into the cache. The least recently used entries are
+ * dropped once `maxEntries` is reached. Reads of a join are stored against
+ * the join and every source it read, so a write to either side drops them.
+ */
+export class ResultCache {
+  private entries = new Map<string, CacheEntry>();
+  private generations = new Map<number, number>();
+
+  constructor(readonly maxEntries: number) {}
+
+  key(dataSourceId: number, request: unknown): string {
+    const digest = createHash('sha256').update(stableStringify(request)).digest('hex');
+    return `${dataSourceId}:${digest}`;
+  }
+
+  // A fresh entry and its age in seconds
+  get(key: string): { value: unknown; age: number } | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Move to the back of the map, which is kept in least recently used order
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return { value: entry.value, age: Math.floor((Date.now() - entry.storedAt) / 1000) };
+  }
+
+  // Generations only grow, so the sum over several sources changes whenever any of them is invalidated
+  generation(dataSourceIds: number | number[]): number {
+    const ids = Array.isArray(dataSourceIds) ? dataSourceIds : [dataSourceIds];
+    return ids.reduce((sum, id) => sum + (this.generations.get(id) ?? 0), 0);
+  }
+
+  // Store a read taken at `generation`; ignored if a data source was invalidated meanwhile
+  set(key: string, dataSourceIds: number | number[], value: unknown, ttlSeconds: number, generation: number) {
+    if (ttlSeconds <= 0 || generation !== this.generation(dataSourceIds)) {
+      return;
+    }
+
+    const now = Date.now();
+    this.entries.delete(key);
+    this.entries.set(key, {
+      dataSourceIds: Array.isArray(dataSourceIds) ? dataSourceIds : [dataSourceIds],
+      value,
+      storedAt: now,
+      expiresAt: now + ttlSeconds * 1000
+    });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  // Drop every cached read of (or computed from) a data source; returns how many there were
+  invalidate(dataSourceId: number): number {
+    this.generations.set(dataSourceId, this.generation(dataSourceId) + 1);
+
+    let removed = 0;
+    for (const [key, entry] of Array.from(this.entries.entries())) {
+      if (entry.dataSourceIds.includes(dataSourceId)) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+}
+
+// The cache TTL of a data source in seconds; 0 turns caching off
+export function cacheTtlSeconds(config: unknown): number {
+  const parsed = typeof config === 'string' ? JSON.parse(config) : (config as Record<string, any> || {});
+  const ttl = Number(parsed.cacheTtl);
+  return parsed.cacheTtl !== undefined && parsed.cacheTtl !== '' && Number.isFinite(ttl) && ttl >= 0
+    ? ttl
+    : DEFAULT_CACHE_TTL_SECONDS;
+}
+
+export const resultCache = new ResultCache(parseInt(process.env.DATASOURCE_CACHE_MAX_ENTRIES || '500'));
@@ -0,0 +1,36 @@
+import { eq } from 'drizzle-orm';
+import { dataSources } from '@shared/schema';
+import { db, pool } from './db';
+import { reencryptConfig } from './secrets';
+
+/**
+ * Re-encrypt the secrets of every data source with the current key.
+ *
+ * To rotate: set DATA_SOURCE_SECRET_KEY to the new key and
+ * DATA_SOURCE_PREVIOUS_SECRET_KEYS to the old one, run `npm run secrets:rotate`,
+ * then drop the old key. Secrets saved before encryption was enabled are
+ * encrypted by the same run.
+ */
+export async function main() {
+  const rows = await db.select({ id: dataSources.id, config: dataSources.config }).from(dataSources);
+
+  let updated = 0;
+  for (const row of rows) {
+    const config = reencryptConfig(row.config);
+    if (JSON.stringify(config) !== JSON.stringify(row.config)) {
+      await db.update(dataSources).set({ config }).where(eq(dataSources.id, row.id));
+      updated++;
+    }
+  }
+
+  console.log(`Re-encrypted secrets of ${updated} of ${rows.length} data sources`);
+  await pool.end();
+}
+
+// Run the rotation when this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch((err) => {
+    console.error('Error rotating data source secrets:', err);
+    process.exit(1);
+  });
+}
@@ -7,7 +7,12 @@ import {
   insertFormSubmissionSchema,
   insertApplicationSchema,
   insertUserSchema,
-  type User
+  type User,
+  type DataSource,
+  type Field,
+  type FormSubmission,
+  type InsertForm,
+  type SubmissionTarget
 } from "@shared/schema";
 import { ZodError, z } from "zod";
 import { fromZodError } from "zod-validation-error";
@@ -15,10 +20,77 @@ import pg from 'pg';
 import { compare, hash } from 'bcrypt';
 import session from 'express-session';
 import pgSession from 'connect-pg-simple';
-import axios from 'axios';
-import * as XLSX from 'xlsx';
 import path from 'path';
 import { DatabaseConnector, DatabaseResponse } from './database/connector';
+import {
+  parseDataQueryOptions,
+  referencedFields,
+  buildSqlPageQuery,
+  buildSqlSelectQuery,
+  buildMongoFind,
+  buildMongoAggregate,
+  applyDataQuery,
+  DataQueryError,
+  type DataQueryOptions
+} from './database/data-query';
+import { defaultConnection, findBackend, getBackend, listBackends } from './database/registry';
+import { queryLimits, QueryCancelledError, QueryTimeoutError } from './database/query-limits';
+import { DataWriteError, isConstraintViolation } from './database/data-write';
+import { checkDocumentFilter, checkStoredQuery, isReadOnlyConfig, StatementBlockedError } from './database/statement-guard';
+import { bindSqlParameters, bindDocumentParameters, parseParameterValues, userParameterValues, type QueryParameterValues } from './database/query-params';
+import {
+  buildBuilderSql,
+  builderFindOptions,
+  buildStoredQuery,
+  validateQueryBuilder,
+  BUILDER_PREVIEW_ROWS,
+  QueryBuilderError
+} from './database/query-builder';
+import { decodeRowKey, getKeyColumns, rowKeyFromObject } from '@shared/row-key';
+import {
+  applyExcelChange,
+  rollbackExcelRevision,
+  revisionsOf,
+  carryOverRevisions,
+  openFileSource,
+  sheetHeaders,
+  sheetSampleRows,
+  sheetRows,
+  readExcelRows,
+  type ExcelChange,
+  type ExcelChangeResult
+} from './excel-store';
+import { fetchRestRows, testRestConnection, RestSourceError } from './rest-source';
+import { fetchSharePointRows, testSharePointConnection, SharePointSourceError } from './sharepoint-source';
+import {
+  readSubmissionRows,
+  submissionSourceFields,
+  testSubmissionConnection,
+  SubmissionSourceError
+} from './submission-source';
+import { SecretReuseError, mergeConnectionSecrets, redactConfig, redactDataSource } from './secrets';
+import { resultCache, cacheTtlSeconds } from './result-cache';
+import { liveEvents } from './live-events';
+import {
+  mapSubmissionRow,
+  submissionRowKey,
+  submissionTargetError,
+  targetKeyColumns,
+  type SubmissionTargetResult
+} from './submission-target';
+import { formFormulaError, submittedValues } from '@shared/form-fields';
+import { inferFieldTypes, coerceRows, TYPE_SAMPLE_SIZE } from './field-types';
+import {
+  validateJoinConfig,
+  resolveJoinColumns,
+  joinRows,
+  joinFields,
+  JoinSourceError,
+  MAX_JOIN_DEPTH
+} from './join-source';
+import { dataSourceUsages, rebindElements, rebindJoinConfig } from '@shared/data-source-usage';
+import { resyncFields } from '@shared/schema-drift';
+import { SchemaDriftMonitor, DRIFT_CHECK_INTERVAL_MINUTES } from './schema-drift';
 import { uploadSingleFile, getFileInfo, uploadToSharePoint, SharePointConfig } from './upload';
 
 // Session types
@@ -256,6 +328,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       };
       
       const application = await storage.createApplication(userData);
+      liveEvents.publish({ type: 'applications', id: application.id });
       res.status(201).json(application);
     } catch (error) {
       if (error instanceof ZodError) {
@@ -281,6 +354,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const applicationData = insertApplicationSchema.partial().parse(req.body);
       const updatedApplication = await storage.updateApplication(applicationId, applicationData);
+      liveEvents.publish({ type: 'applications', id: applicationId });
       res.json(updatedApplication);
     } catch (error) {
       if (error instanceof ZodError) {
@@ -304,6 +378,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: 'Application not found' });
       }
       
+      liveEvents.publish({ type: 'applications', id: applicationId });
       res.status(204).end();
     } catch (error) {
       console.error('Error deleting application:', error);
@@ -357,10 +432,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // The reason a form's submission target would be refused, checked when the form is saved
+  const formTargetError = async (target: SubmissionTarget | null | undefined) =>
+    target ? submissionTargetError(target, await storage.getDataSource(target.dataSourceId)) : undefined;
+  
   app.post('/api/forms', async (req, res) => {
     try {
       const formData = insertFormSchema.parse(req.body);
+      
+      const formulaError = formFormulaError(formData.elements);
+      if (formulaError) {
+        return res.status(400).json({ message: `Formula error in ${formulaError}` });
+      }
+      
+      const targetError = await formTargetError(formData.submissionTarget);
+      if (targetError) {
+        return res.status(400).json({ message: `Submission target: ${targetError}` });
+      }
+      
       const form = await storage.createForm(formData);
+      liveEvents.publish({ type: 'forms', id: form.id });
       res.status(201).json(form);
     } catch (error) {
       if (error instanceof ZodError) {
@@ -385,7 +476,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const formData = insertFormSchema.partial().parse(req.body);
+      
+      // Rules saved before the formula language are kept until they are edited
+      const formulaError = formFormulaError(formData.elements, form.elements);
+      if (formulaError) {
+        return res.status(400).json({ message: `Formula error in ${formulaError}` });
+      }
+      
+      const targetError = await formTargetError(formData.submissionTarget);
+      if (targetError) {
+        return res.status(400).json({ message: `Submission target: ${targetError}` });
+      }
+      
       const updatedForm = await storage.updateForm(formId, formData);
+      liveEvents.publish({ type: 'forms', id: formId });
       res.json(updatedForm);
     } catch (error) {
       if (error instanceof ZodError) {
@@ -409,6 +513,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: 'Form not found' });
       }
       
+      liveEvents.publish({ type: 'forms', id: formId });
       res.status(204).end();
     } catch (error) {
       console.error('Error deleting form:', error);
@@ -428,6 +533,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: 'Form not found' });
       }
       
+      liveEvents.publish({ type: 'forms', id: formId });
       res.json(publishedForm);
     } catch (error) {
       console.error('Error publishing form:', error);
@@ -435,7 +541,464 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Connection config of a database data source
+  const databaseConfig = (dataSource: Pick<DataSource, 'config'>) => {
+    const config = typeof dataSource.config === 'string' ? 
+      JSON.parse(dataSource.config) : 
+      { ...(dataSource.config as any || {}) };
+    const { dbType = 'postgresql' } = config;
+    
+    if (config.useDefaultDatabase) {
+      Object.assign(config, defaultConnection(dbType));
+    }
+    return { dbType: dbType as string, config };
+  };
+  
+  // Database sources are read-only unless writes were allowed in their settings
+  const isReadOnlySource = (dataSource: Pick<DataSource, 'type' | 'config'>) =>
+    dataSource.type === 'database' && isReadOnlyConfig(databaseConfig(dataSource).config);
+  
+  // Refused queries and writes are logged so attempts against a data source can be traced
+  const logBlockedStatement = (target: string, username: string | undefined, reason: string) => {
+    console.warn(`Blocked statement on ${target} by ${username || 'anonymous'}: ${reason}`);
+  };
+  
+  // The reason a database source's stored query would be refused, checked when it is saved
+  const storedQueryError = (type: string | undefined, config: unknown): string | undefined => {
+    if (type !== 'database' || !config) {
+      return undefined;
+    }
+    const { dbType, config: parsed } = databaseConfig({ config });
+    if (typeof parsed.query !== 'string' || !parsed.query.trim()) {
+      return undefined;
+    }
+    const backend = findBackend(dbType);
+    if (!backend) {
+      return `Unsupported database type: ${dbType}`;
+    }
+    try {
+      checkStoredQuery(backend.dialect, parsed.query, isReadOnlyConfig(parsed));
+      return undefined;
+    } catch (error) {
+      if (error instanceof StatementBlockedError) {
+        return error.message;
+      }
+      throw error;
+    }
+  };
+
+  /**
+   * Regenerate the stored query of a database source edited in the query
+   * builder, so the saved query always matches its spec. Returns the config
+   * as it came in (a JSON string or an object).
+   */
+  const withBuilderQuery = <T>(type: string | undefined, config: T): T => {
+    if (type !== 'database' || !config) {
+      return config;
+    }
+    const parsed = typeof config === 'string' ? JSON.parse(config) : config as any;
+    if (!parsed.queryBuilder) {
+      return config;
+    }
+    
+    const spec = validateQueryBuilder(parsed.queryBuilder);
+    const backend = findBackend(parsed.dbType || 'postgresql');
+    if (!backend) {
+      throw new QueryBuilderError(`Unsupported database type: ${parsed.dbType}`);
+    }
+    const next = {
+      ...parsed,
+      queryBuilder: spec,
+      query: buildStoredQuery(backend.dialect, spec),
+      // Rows are written back to the table the query reads
+      ...(backend.dialect === 'mongodb' ? { collection: spec.table } : { table: spec.table, schema: spec.schema ?? parsed.schema })
+    };
+    return (typeof config === 'string' ? JSON.stringify(next) : next) as T;
+  };
+  
+  // The reason a join source's config would be refused, checked when it is saved
+  const joinConfigError = (type: string | undefined, config: unknown): string | undefined => {
+    if (type !== 'join' || !config) {
+      return undefined;
+    }
+    try {
+      validateJoinConfig(typeof config === 'string' ? JSON.parse(config) : config);
+      return undefined;
+    } catch (error) {
+      if (error instanceof JoinSourceError) {
+        return error.message;
+      }
+      throw error;
+    }
+  };
+
+  // Aborted when the client goes away before its response is sent, so its queries can be cancelled
+  const disconnectSignal = (res: Response): AbortSignal => {
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) {
+        controller.abort();
+      }
+    });
+    return controller.signal;
+  };
+
+  const NO_TABLE_MESSAGE = 'No table or query is configured for this data source';
+
+  // Every row of a database source, up to its row limit: its stored query, or its table or collection
+  const readDatabaseRows = async (dataSource: DataSource, parameterValues: QueryParameterValues, signal?: AbortSignal) => {
+    const { dbType, config } = databaseConfig(dataSource);
+    const { schema, table, query } = config;
+    const { dialect } = getBackend(dbType);
+    const readOnly = isReadOnlyConfig(config);
+    const limits = queryLimits(config);
+
+    let statement: string;
+    let params: any[] | undefined;
+    if (query) {
+      checkStoredQuery(dialect, query, readOnly);
+      if (dialect === 'mongodb') {
+        const filter = bindDocumentParameters(JSON.parse(query), parameterValues);
+        // Bound values are held to the same rules as the stored query
+        checkDocumentFilter(filter);
+        statement = JSON.stringify(filter);
+        // Columns, sort and limit of a built query aren't part of the filter
+        if (config.queryBuilder) {
+          params = [builderFindOptions(validateQueryBuilder(config.queryBuilder))];
+        }
+      } else {
+        ({ query: statement, params } = bindSqlParameters(dialect, query, parameterValues));
+      }
+    } else if (dialect === 'mongodb') {
+      // An empty filter returns every document
+      statement = '{}';
+    } else if (table) {
+      // One row past the limit shows whether the table has more
+      statement = buildSqlSelectQuery(dialect, { table, schema }, limits.maxRows ? limits.maxRows + 1 : undefined);
+    } else {
+      throw new DataQueryError(NO_TABLE_MESSAGE);
+    }
+
+    // Run on the data source's pooled connection
+    const result = await DatabaseConnector.executeQuery(dbType, config, statement, {
+      poolKey: dataSource.id,
+      params,
+      readOnly,
+      ...limits,
+      signal
+    });
+    if (result.error) {
+      throw result.error;
+    }
+    return { rows: result.rows, truncated: Boolean(result.truncated) };
+  };
+
+  // The two data sources of a join; `path` holds the joins being read above it, so cycles are caught
+  const loadJoinSources = async (dataSource: DataSource, path: number[]) => {
+    if (path.length >= MAX_JOIN_DEPTH) {
+      throw new JoinSourceError(`Joined data sources can only be nested ${MAX_JOIN_DEPTH} levels deep`);
+    }
+    const config = validateJoinConfig(typeof dataSource.config === 'string' ? JSON.parse(dataSource.config) : dataSource.config || {});
+
+    const [left, right] = await Promise.all([
+      storage.getDataSource(config.leftSourceId),
+      storage.getDataSource(config.rightSourceId)
+    ]);
+    if (!left || !right) {
+      throw new JoinSourceError(`Data source ${left ? config.rightSourceId : config.leftSourceId} of this join no longer exists`);
+    }
+    for (const side of [left, right]) {
+      if (side.id === dataSource.id || path.includes(side.id)) {
+        throw new JoinSourceError(`Data source "${side.name}" can't be joined into itself`);
+      }
+    }
+    return { config, left, right };
+  };
+
+  // Ids of every data source a join reads, directly or through other joins
+  const joinDependencies = async (dataSource: DataSource, path: number[] = []): Promise<number[]> => {
+    const { left, right } = await loadJoinSources(dataSource, path);
+    const ids = [left.id, right.id];
+    for (const side of [left, right]) {
+      if (side.type === 'join') {
+        ids.push(...await joinDependencies(side, [...path, dataSource.id]));
+      }
+    }
+    return Array.from(new Set(ids));
+  };
+
+  // Every row of a data source, typed by its fields, for joining with another source;
+  // `truncated` when a database source stopped at its row limit
+  const readSourceRows = async (
+    dataSource: DataSource,
+    parameterValues: QueryParameterValues,
+    path: number[],
+    signal?: AbortSignal
+  ): Promise<{ rows: Record<string, any>[]; truncated: boolean }> => {
+    const config = typeof dataSource.config === 'string' ?
+      JSON.parse(dataSource.config) :
+      (dataSource.config as any || {});
+
+    let rows: Record<string, any>[];
+    let truncated = false;
+    switch (dataSource.type) {
+      case 'excel':
+        if (!config.fileUrl) {
+          throw new JoinSourceError(`Data source "${dataSource.name}" has no file`);
+        }
+        rows = await readExcelRows(config);
+        break;
+      case 'database':
+        ({ rows, truncated } = await readDatabaseRows(dataSource, parameterValues, signal));
+        break;
+      case 'rest':
+        rows = await fetchRestRows(config);
+        break;
+      case 'sharepoint':
+        rows = await fetchSharePointRows(config);
+        break;
+      case 'submissions':
+        rows = await readSubmissionRows(config, parameterValues.user.currentUserId ? { id: parameterValues.user.currentUserId } : undefined);
+        break;
+      case 'join': {
+        // Joined rows are already typed by the sources they came from
+        const joined = await readJoinSource(dataSource, parameterValues, path, signal);
+        return { rows: joined.rows, truncated: joined.truncated };
+      }
+      default:
+        throw new JoinSourceError(`Data source "${dataSource.name}" has an unsupported type: ${dataSource.type}`);
+    }
+
+    return {
+      rows: Array.isArray(dataSource.fields)
+        ? coerceRows(rows, dataSource.fields as Field[], { excelSerialDates: dataSource.type === 'excel' })
+        : rows,
+      truncated
+    };
+  };
+
+  /**
+   * Rows and fields of a join source, computed from both of its data sources.
+   * A side's fields are its stored ones, or inferred from its rows when none
+   * were saved; keys and output columns must name one of them. `truncated`
+   * when either side was cut off at its row limit, so matches may be missing.
+   */
+  const readJoinSource = async (
+    dataSource: DataSource,
+    parameterValues: QueryParameterValues,
+    path: number[] = [],
+    signal?: AbortSignal
+  ) => {
+    const { config, left, right } = await loadJoinSources(dataSource, path);
+    const [leftSide, rightSide] = await Promise.all([
+      readSourceRows(left, parameterValues, [...path, dataSource.id], signal),
+      readSourceRows(right, parameterValues, [...path, dataSource.id], signal)
+    ]);
+    const leftRows = leftSide.rows;
+    const rightRows = rightSide.rows;
+
+    const fieldsOf = (source: DataSource, rows: Record<string, any>[]) =>
+      Array.isArray(source.fields) && source.fields.length > 0
+        ? source.fields as Field[]
+        : Object.entries(inferFieldTypes(rows)).map(([name, type]) => ({ name, type }));
+    const leftFields = fieldsOf(left, leftRows);
+    const rightFields = fieldsOf(right, rightRows);
+
+    const sides = { left: { source: left, fields: leftFields }, right: { source: right, fields: rightFields } };
+    const requiredColumns = [
+      { source: 'left' as const, field: config.leftKey },
+      { source: 'right' as const, field: config.rightKey },
+      ...(config.columns || [])
+    ];
+    for (const column of requiredColumns) {
+      const side = sides[column.source];
+      // Without stored fields an empty source has no known columns to check against
+      if (side.fields.length > 0 && !side.fields.some(field => field.name === column.field)) {
+        throw new JoinSourceError(`Data source "${side.source.name}" has no column "${column.field}"`);
+      }
+    }
+
+    const columns = resolveJoinColumns(config, leftFields.map(field => field.name), rightFields.map(field => field.name));
+    return {
+      rows: joinRows(config, leftRows, rightRows, columns),
+      fields: joinFields(columns, leftFields, rightFields),
+      truncated: leftSide.truncated || rightSide.truncated
+    };
+  };
+
+  // Status and message for a join that failed to read one of its sources
+  const joinErrorResponse = (error: unknown) => {
+    if (error instanceof JoinSourceError || error instanceof SubmissionSourceError) {
+      return { status: 400, message: error.message };
+    }
+    if (error instanceof StatementBlockedError) {
+      return { status: 403, message: `Query not allowed: ${error.message}` };
+    }
+    if (error instanceof DataQueryError) {
+      return { status: 400, message: error.message };
+    }
+    if (error instanceof RestSourceError || error instanceof SharePointSourceError) {
+      return { status: 502, message: error.message };
+    }
+    console.error('Error reading joined data source:', error);
+    return { status: 500, message: `Error reading joined data sources: ${error instanceof Error ? error.message : String(error)}` };
+  };
+
+  // Submission sources read straight from this app's tables, so new submissions
+  // and approval decisions drop their cached reads (for one form, or all of them)
+  const invalidateSubmissionSources = async (formId?: number) => {
+    for (const dataSource of await storage.getDataSources()) {
+      if (dataSource.type !== 'submissions') continue;
+      const config = typeof dataSource.config === 'string' ? JSON.parse(dataSource.config) : (dataSource.config as any || {});
+      if (formId === undefined || Number(config.formId) === formId) {
+        resultCache.invalidate(dataSource.id);
+        await publishRowsChanged(dataSource.id);
+      }
+    }
+  };
+  
+  // Tell open forms a data source's rows changed, and the rows of any join that reads it
+  const publishRowsChanged = async (dataSourceId: number) => {
+    const changed = new Set([dataSourceId]);
+    try {
+      const joins = (await storage.getDataSources()).filter(dataSource => dataSource.type === 'join');
+      // Joins of joins change too, so repeat until no more are found
+      let found = true;
+      while (found) {
+        found = false;
+        for (const join of joins) {
+          const config = typeof join.config === 'string' ? JSON.parse(join.config) : (join.config as any || {});
+          if (!changed.has(join.id) && (changed.has(Number(config.leftSourceId)) || changed.has(Number(config.rightSourceId)))) {
+            changed.add(join.id);
+            found = true;
+          }
+        }
+      }
+    } catch (error) {
+      console.error('Error finding joins of a changed data source:', error);
+    }
+    for (const id of Array.from(changed)) {
+      liveEvents.publish({ type: 'datasource-rows', id });
+    }
+  };
+  
+  // Change notifications for open pages, as Server-Sent Events
+  app.get('/api/events', isAuthenticated, (req, res) => {
+    liveEvents.subscribe(req, res);
+  });
+  
   // Data Sources API endpoints
+  
+  // The columns a data source has now, read from its table, file, API or form;
+  // throws when the source can't be read
+  const introspectFields = async (dataSource: DataSource, user?: Parameters<typeof userParameterValues>[0]): Promise<Field[]> => {
+    const config = typeof dataSource.config === 'string' ? 
+      JSON.parse(dataSource.config) : 
+      (dataSource.config as any || {});
+    
+    switch (dataSource.type) {
+      case 'database': {
+        const { dbType, config: connection } = databaseConfig(dataSource);
+        const { dialect } = getBackend(dbType);
+        const documents = dialect === 'mongodb';
+        if (!documents && typeof connection.query === 'string' && connection.query.trim()) {
+          // A stored query's output columns (aliases, computed columns), typed from a
+          // sample of its rows with its parameters left empty; no rows tell nothing
+          checkStoredQuery(dialect, connection.query, true);
+          const { query, params } = bindSqlParameters(dialect, connection.query, { form: {}, user: userParameterValues(user) });
+          const result = await DatabaseConnector.executeQuery(dbType, connection, query, {
+            poolKey: dataSource.id,
+            params,
+            readOnly: true,
+            maxRows: TYPE_SAMPLE_SIZE,
+            timeoutMs: queryLimits(connection).timeoutMs
+          });
+          if (result.error) {
+            throw result.error;
+          }
+          return Object.entries(inferFieldTypes(result.rows)).map(([name, type]) => ({ name, type }));
+        }
+        const table = documents ? connection.collection : connection.table;
+        if (!table) {
+          return [];
+        }
+        // A stored pipeline is sampled for its output fields, its parameters left empty
+        const pipeline = documents && typeof connection.query === 'string' && connection.query.trim().startsWith('[')
+          ? bindDocumentParameters(JSON.parse(connection.query), { form: {}, user: userParameterValues(user) })
+          : undefined;
+        const columns = await DatabaseConnector.listColumns(dbType, connection, { schema: connection.schema, table, pipeline }, {
+          poolKey: dataSource.id
+        });
+        return columns.map(column => ({
+          name: column.name,
+          type: column.type,
+          ...(column.primaryKey ? { primaryKey: true } : {})
+        }));
+      }
+      case 'rest': {
+        // Inferred from the first page of the API
+        const result = await testRestConnection(config);
+        if (!result.fields) {
+          throw new Error(result.message);
+        }
+        return result.fields;
+      }
+      case 'sharepoint': {
+        // The list columns, read through Microsoft Graph
+        const result = await testSharePointConnection(config);
+        if (!result.fields) {
+          throw new Error(result.message);
+        }
+        return result.fields;
+      }
+      case 'excel': {
+        if (!config.fileUrl) {
+          return [];
+        }
+        // Saved revisions and uploads are read from uploads/
+        const source = await openFileSource(config.fileUrl, config);
+        const worksheet = source.workbook.Sheets[source.sheetName];
+        const headers = sheetHeaders(worksheet, config);
+        // Typed from a sample of rows
+        const types = inferFieldTypes(sheetSampleRows(worksheet, config), headers);
+        return headers.map((header: string) => ({ name: header, type: types[header] }));
+      }
+      case 'submissions':
+        // One field per input of the form, plus the submission and approval columns
+        return submissionSourceFields(config);
+      case 'join':
+        // The output columns, typed like the columns of the joined sources
+        return (await readJoinSource(dataSource, { form: {}, user: userParameterValues(user) })).fields;
+      default:
+        return [];
+    }
+  };
+  
+  // Stored fields are compared with the source's columns in the background
+  const schemaDrift = new SchemaDriftMonitor(dataSource => introspectFields(dataSource));
+  schemaDrift.start(DRIFT_CHECK_INTERVAL_MINUTES);
+  
+  // Database backends with their connection settings, for the data source editor
+  app.get('/api/datasources/backends', (req, res) => {
+    res.json(listBackends());
+  });
+  
+  // Where each data source is used, by data source id (unused ones are left out)
+  app.get('/api/datasources/usage', async (req, res) => {
+    try {
+      const [forms, dataSources] = await Promise.all([storage.getForms(), storage.getDataSources()]);
+      res.json(Object.fromEntries(dataSourceUsages(forms, dataSources)));
+    } catch (error) {
+      console.error('Error reading data source usage:', error);
+      res.status(500).json({ message: 'Error reading data source usage' });
+    }
+  });
+  
+  // Data sources whose last drift check flagged columns, or couldn't read the source, by id
+  app.get('/api/datasources/drift', (req, res) => {
+    res.json(Object.fromEntries(schemaDrift.flagged().map(report => [report.dataSourceId, report])));
+  });
+  
   app.get('/api/datasources', async (req, res) => {
     try {
       const formId = req.query.formId ? parseInt(req.query.formId as string) : undefined;
@@ -444,11 +1007,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Get data sources for a specific form
         const allDataSources = await storage.getDataSources();
         const formDataSources = allDataSources.filter(ds => ds.formId === formId);
-        return res.json(formDataSources);
+        return res.json(formDataSources.map(redactDataSource));
       } else {
         // Get all data sources
         const dataSources = await storage.getDataSources();
-        res.json(dataSources);
+        res.json(dataSources.map(redactDataSource));
       }
     } catch (error) {
       console.error('Error fetching data sources:', error);
@@ -469,7 +1032,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Get the field mapping for this data source
-      let fields: Array<{name: string, type: string, selected: boolean}> = [];
+      let fields: Array<{name: string, type: string, selected: boolean, primaryKey?: boolean}> = [];
       
       // Get the selected fields from the data source
       const selectedFields = dataSource.selectedFields || [];
@@ -478,143 +1041,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (dataSource.fields && Array.isArray(dataSource.fields) && dataSource.fields.length > 0) {
         // Use the fields that are already stored with the data source
         fields = dataSource.fields;
-      }
-      // Otherwise try to fetch them based on the data source type
-      else if (dataSource.type === 'database') {
-        // Parse the config as JSON or use empty object if not available
-        const config = typeof dataSource.config === 'string' ? 
-          JSON.parse(dataSource.config) : 
-          (dataSource.config as any || {});
-        
-        const { dbType, server, port, database, username, password, schema, host, user, table } = config;
-        
-        // If it's a MySQL, SQL Server, MongoDB, etc. data source, let's use our DatabaseConnector
-        if (dbType && dbType !== 'postgresql') {
-          try {
-            // Test the connection to get field info
-            const result = await DatabaseConnector.testConnection(dbType, config);
-            if (result.success && result.fields) {
-              if (typeof result.fields === 'object' && !Array.isArray(result.fields)) {
-                // If fields are grouped by table
-                const tableName = table || Object.keys(result.fields)[0];
-                if (tableName && result.fields[tableName]) {
-                  fields = result.fields[tableName];
-                }
-              }
-            }
-          } catch (error) {
-            console.error(`Error fetching ${dbType} database fields:`, error);
-          }
-        } else {
-          // For PostgreSQL, use the pg client directly
-          // Use default database connection if configuration is missing
-          const pool = new pg.Pool({
-            host: server || host || process.env.PGHOST,
-            port: parseInt(port || process.env.PGPORT || '5432'),
-            database: database || process.env.PGDATABASE,
-            user: username || user || process.env.PGUSER,
-            password: password || process.env.PGPASSWORD,
-            connectionTimeoutMillis: 5000,
-          });
-          
-          try {
-            const client = await pool.connect();
-            // Get columns from the specified schema (or public by default)
-            const tableSchema = schema || 'public';
-            
-            const query = `
-              SELECT column_name, data_type 
-              FROM information_schema.columns 
-              WHERE table_schema = $1 
-              AND table_name = $2
-              ORDER BY ordinal_position
-            `;
-            
-            // If there's a selected table in the configuration, use it
-            const tableName = table || 'users'; // Default to users table if not specified
-            
-            const result = await client.query(query, [tableSchema, tableName]);
-            client.release();
-            
-            fields = result.rows.map(row => ({
-              name: row.column_name,
-              type: row.data_type,
-              selected: Array.isArray(selectedFields) && selectedFields.includes(row.column_name)
-            }));
-          } catch (error) {
-            console.error('Error fetching database fields:', error);
-            // Return empty fields array on error
-          } finally {
-            await pool.end();
-          }
-        }
-      } else if (dataSource.type === 'sharepoint') {
-        // For SharePoint, return mock fields for now
-        // In a real implementation, this would fetch from the SharePoint API
-        fields = [
-          { name: 'ID', type: 'number', selected: Array.isArray(selectedFields) && selectedFields.includes('ID') },
-          { name: 'Title', type: 'text', selected: Array.isArray(selectedFields) && selectedFields.includes('Title') },
-          { name: 'Created', type: 'datetime', selected: Array.isArray(selectedFields) && selectedFields.includes('Created') },
-          { name: 'Modified', type: 'datetime', selected: Array.isArray(selectedFields) && selectedFields.includes('Modified') },
-          { name: 'Author', type: 'text', selected: Array.isArray(selectedFields) && selectedFields.includes('Author') },
-          { name: 'Editor', type: 'text', selected: Array.isArray(selectedFields) && selectedFields.includes('Editor') },
-          { name: 'Status', type: 'text', selected: Array.isArray(selectedFields) && selectedFields.includes('Status') },
-          { name: 'Priority', type: 'text', selected: Array.isArray(selectedFields) && selectedFields.includes('Priority') },
-          { name: 'Category', type: 'text', selected: Array.isArray(selectedFields) && selectedFields.includes('Category') },
-          { name: 'DueDate', type: 'datetime', selected: Array.isArray(selectedFields) && selectedFields.includes('DueDate') },
-        ];
-      } else if (dataSource.type === 'excel') {
+      } else {
+        // Otherwise read them from the source itself
         try {
-          // Parse the config to get the Excel file URL
-          const config = typeof dataSource.config === 'string' ? 
-            JSON.parse(dataSource.config) : 
-            (dataSource.config as any || {});
-            
-          const { fileUrl } = config;
-          
-          if (fileUrl) {
-            console.log('Fetching Excel file from URL:', fileUrl);
-            // Fetch the Excel file
-            const response = await axios.get(fileUrl, { responseType: 'arraybuffer' });
-            
-            // Parse the Excel file
-            const workbook = XLSX.read(response.data, { type: 'buffer' });
-            
-            // Get the first sheet
-            const firstSheetName = workbook.SheetNames[0];
-            const worksheet = workbook.Sheets[firstSheetName];
-            
-            // Convert to JSON with headers
-            const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1 });
-            
-            if (Array.isArray(jsonData) && jsonData.length > 0) {
-              // Assume the first row contains headers/column names
-              const headers = jsonData[0] as string[];
-              console.log('Excel headers found when accessing data source:', headers);
-              
-              // Create field definitions based on the headers
-              fields = headers.map((header: string) => {
-                // Make default type text for simplicity
-                return { 
-                  name: header, 
-                  type: 'text', 
-                  selected: Array.isArray(selectedFields) && selectedFields.includes(header) 
-                };
-              });
-            }
-          }
+          fields = (await introspectFields(dataSource, req.session.user)).map(field => ({
+            ...field,
+            selected: Array.isArray(selectedFields) && selectedFields.includes(field.name)
+          }));
         } catch (error) {
-          console.error('Error parsing Excel file for data source:', error);
-          // Fallback to empty fields array
-          fields = [];
+          console.error(`Error reading the fields of data source ${dataSourceId}:`, error);
         }
       }
       
       // Return the data source with fields
-      res.json({
+      res.json(redactDataSource({
         ...dataSource,
         fields
-      });
+      }));
     } catch (error) {
       console.error('Error fetching data source:', error);
       res.status(500).json({ message: 'Error fetching data source' });
@@ -659,13 +1102,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const dataSourceData = insertDataSourceSchema.parse(requestData);
+      dataSourceData.config = withBuilderQuery(dataSourceData.type, dataSourceData.config);
+      
+      const queryError = storedQueryError(dataSourceData.type, dataSourceData.config);
+      if (queryError) {
+        logBlockedStatement(`new data source "${dataSourceData.name}"`, req.session.user?.username, queryError);
+        return res.status(400).json({ message: `Query not allowed: ${queryError}` });
+      }
+      
+      const joinError = joinConfigError(dataSourceData.type, dataSourceData.config);
+      if (joinError) {
+        return res.status(400).json({ message: joinError });
+      }
+      
       const dataSource = await storage.createDataSource(dataSourceData);
-      res.status(201).json(dataSource);
+      liveEvents.publish({ type: 'datasources', id: dataSource.id });
+      res.status(201).json(redactDataSource(dataSource));
     } catch (error) {
       if (error instanceof ZodError) {
         const validationError = fromZodError(error);
         return res.status(400).json({ message: validationError.message });
       }
+      if (error instanceof QueryBuilderError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error('Error creating data source:', error);
       res.status(500).json({ message: 'Error creating data source' });
     }
@@ -686,19 +1146,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Process the request body to properly format config as a string
       const requestData = { ...req.body };
       
+      // Placeholders sent back for secrets keep the saved values while the connection stays the same
+      if (requestData.config) {
+        requestData.config = mergeConnectionSecrets(dataSource.config, requestData.config);
+      }
+      
       // If config is an object, stringify it before validation
       if (requestData.config && typeof requestData.config === 'object') {
         requestData.config = JSON.stringify(requestData.config);
       }
       
       const dataSourceData = insertDataSourceSchema.partial().parse(requestData);
+      dataSourceData.config = withBuilderQuery(dataSourceData.type ?? dataSource.type, dataSourceData.config);
+      
+      const queryError = storedQueryError(dataSourceData.type ?? dataSource.type, dataSourceData.config);
+      if (queryError) {
+        logBlockedStatement(`data source ${dataSourceId}`, req.session.user?.username, queryError);
+        return res.status(400).json({ message: `Query not allowed: ${queryError}` });
+      }
+      
+      const joinError = joinConfigError(dataSourceData.type ?? dataSource.type, dataSourceData.config);
+      if (joinError) {
+        return res.status(400).json({ message: joinError });
+      }
+      
       const updatedDataSource = await storage.updateDataSource(dataSourceId, dataSourceData);
-      res.json(updatedDataSource);
+      
+      // Rebuild the connection pool with the new settings on next use
+      if (dataSourceData.config !== undefined) {
+        await DatabaseConnector.releasePool(dataSourceId);
+      }
+      resultCache.invalidate(dataSourceId);
+      // Drift is checked against the new settings and fields on the next pass
+      schemaDrift.forget(dataSourceId);
+      liveEvents.publish({ type: 'datasources', id: dataSourceId });
+      await publishRowsChanged(dataSourceId);
+      
+      res.json(updatedDataSource && redactDataSource(updatedDataSource));
     } catch (error) {
       if (error instanceof ZodError) {
         const validationError = fromZodError(error);
         return res.status(400).json({ message: validationError.message });
       }
+      if (error instanceof QueryBuilderError || error instanceof SecretReuseError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error('Error updating data source:', error);
       res.status(500).json({ message: 'Error updating data source' });
     }
@@ -734,18 +1226,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: `A data source with the name "${name}" already exists for this form` });
       }
       
+      // Placeholders sent back for secrets keep the saved values while the connection stays
+      // the same, and Excel sources keep their revision history across edits in the data source editor
+      let nextConfig = mergeConnectionSecrets(existingDataSource.config, typeof config === 'string' ? JSON.parse(config) : config);
+      if (type === 'excel') {
+        const previousConfig = typeof existingDataSource.config === 'string'
+          ? JSON.parse(existingDataSource.config)
+          : existingDataSource.config;
+        nextConfig = carryOverRevisions(previousConfig, nextConfig);
+      }
+      nextConfig = withBuilderQuery(type, nextConfig);
+      
+      const queryError = storedQueryError(type, nextConfig);
+      if (queryError) {
+        logBlockedStatement(`data source ${dataSourceId}`, req.session.user?.username, queryError);
+        return res.status(400).json({ message: `Query not allowed: ${queryError}` });
+      }
+      
+      const joinError = joinConfigError(type, nextConfig);
+      if (joinError) {
+        return res.status(400).json({ message: joinError });
+      }
+      
       // Update the data source
       const updatedDataSource = await storage.updateDataSource(dataSourceId, {
         name,
         type,
-        config: typeof config === 'string' ? config : JSON.stringify(config),
+        config: JSON.stringify(nextConfig),
         fields: parsedFields,
         selectedFields: parsedSelectedFields,
         formId: formId || null
       });
       
-      res.json(updatedDataSource);
+      // Rebuild the connection pool with the new settings on next use
+      await DatabaseConnector.releasePool(dataSourceId);
+      resultCache.invalidate(dataSourceId);
+      schemaDrift.forget(dataSourceId);
+      liveEvents.publish({ type: 'datasources', id: dataSourceId });
+      await publishRowsChanged(dataSourceId);
+      
+      res.json(updatedDataSource && redactDataSource(updatedDataSource));
     } catch (error) {
+      if (error instanceof QueryBuilderError || error instanceof SecretReuseError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error('Error updating data source:', error);
       res.status(500).json({ message: 'Error updating data source' });
     }
@@ -758,11 +1282,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'Invalid data source ID' });
       }
       
+      const dataSource = await storage.getDataSource(dataSourceId);
+      if (!dataSource) {
+        return res.status(404).json({ message: 'Data source not found' });
+      }
+      
+      // Sources still in use are only deleted once the caller has seen what breaks
+      const [forms, dataSources] = await Promise.all([storage.getForms(), storage.getDataSources()]);
+      const usages = dataSourceUsages(forms, dataSources).get(dataSourceId) || [];
+      if (usages.length > 0 && req.query.force !== 'true') {
+        return res.status(409).json({
+          message: `Data source "${dataSource.name}" is still used in ${usages.length} place${usages.length === 1 ? '' : 's'}`,
+          usages
+        });
+      }
+      
       const success = await storage.deleteDataSource(dataSourceId);
       if (!success) {
         return res.status(404).json({ message: 'Data source not found' });
       }
       
+      await DatabaseConnector.releasePool(dataSourceId);
+      resultCache.invalidate(dataSourceId);
+      schemaDrift.forget(dataSourceId);
+      liveEvents.publish({ type: 'datasources', id: dataSourceId });
+      await publishRowsChanged(dataSourceId);
+      
       res.status(204).end();
     } catch (error) {
       console.error('Error deleting data source:', error);
@@ -770,6 +1315,94 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Where a data source is used
+  app.get('/api/datasources/:id/usage', async (req, res) => {
+    try {
+      const dataSourceId = parseInt(req.params.id);
+      if (isNaN(dataSourceId)) {
+        return res.status(400).json({ message: 'Invalid data source ID' });
+      }
+      
+      const [forms, dataSources] = await Promise.all([storage.getForms(), storage.getDataSources()]);
+      if (!dataSources.some(dataSource => dataSource.id === dataSourceId)) {
+        return res.status(404).json({ message: 'Data source not found' });
+      }
+      
+      res.json(dataSourceUsages(forms, dataSources).get(dataSourceId) || []);
+    } catch (error) {
+      console.error('Error reading data source usage:', error);
+      res.status(500).json({ message: 'Error reading data source usage' });
+    }
+  });
+  
+  // Point every form element, form, submission target and join using this data source at another one
+  app.post('/api/datasources/:id/rebind', async (req, res) => {
+    try {
+      const dataSourceId = parseInt(req.params.id);
+      const targetId = parseInt(req.body?.targetId);
+      if (isNaN(dataSourceId)) {
+        return res.status(400).json({ message: 'Invalid data source ID' });
+      }
+      if (isNaN(targetId)) {
+        return res.status(400).json({ message: 'A data source to rebind to is required' });
+      }
+      if (targetId === dataSourceId) {
+        return res.status(400).json({ message: 'Pick a different data source to rebind to' });
+      }
+      
+      const [forms, dataSources] = await Promise.all([storage.getForms(), storage.getDataSources()]);
+      const target = dataSources.find(dataSource => dataSource.id === targetId);
+      if (!dataSources.some(dataSource => dataSource.id === dataSourceId) || !target) {
+        return res.status(404).json({ message: 'Data source not found' });
+      }
+      
+      // Check everything first so nothing is half rebound
+      const joins = dataSources
+        .map(dataSource => ({ dataSource, config: rebindJoinConfig(dataSource, dataSourceId, targetId) }))
+        .filter(join => join.config !== undefined);
+      if (joins.some(join => join.dataSource.id === targetId)) {
+        return res.status(400).json({ message: `Data source "${target.name}" can't be joined into itself` });
+      }
+      const formChanges = forms.map(form => {
+        const changes: Partial<InsertForm> = {};
+        const elements = rebindElements(Array.isArray(form.elements) ? form.elements : [], dataSourceId, targetId);
+        if (elements) {
+          changes.elements = elements;
+        }
+        if (form.dataSourceId !== null && parseInt(form.dataSourceId) === dataSourceId) {
+          changes.dataSourceId = String(targetId);
+        }
+        const submissionTarget = form.submissionTarget as SubmissionTarget | null;
+        if (submissionTarget?.dataSourceId === dataSourceId) {
+          changes.submissionTarget = { ...submissionTarget, dataSourceId: targetId };
+        }
+        return { form, changes };
+      }).filter(change => Object.keys(change.changes).length > 0);
+      for (const { form, changes } of formChanges) {
+        const targetError = changes.submissionTarget && submissionTargetError(changes.submissionTarget, target);
+        if (targetError) {
+          return res.status(400).json({ message: `Submission target of form "${form.name}": ${targetError}` });
+        }
+      }
+      
+      for (const { form, changes } of formChanges) {
+        await storage.updateForm(form.id, changes);
+        liveEvents.publish({ type: 'forms', id: form.id });
+      }
+      for (const { dataSource, config } of joins) {
+        await storage.updateDataSource(dataSource.id, { config: JSON.stringify(config) });
+        resultCache.invalidate(dataSource.id);
+        liveEvents.publish({ type: 'datasources', id: dataSource.id });
+        await publishRowsChanged(dataSource.id);
+      }
+      
+      res.json({ forms: formChanges.length, dataSources: joins.length });
+    } catch (error) {
+      console.error('Error rebinding data source:', error);
+      res.status(500).json({ message: 'Error rebinding data source' });
+    }
+  });
+  
   // Get actual data from a data source
   app.get('/api/datasources/:id/data', async (req, res) => {
     try {
@@ -783,8 +1416,75 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: 'Data source not found' });
       }
       
+      // Optional paging, sorting and filtering, pushed down to the data source
+      let queryOptions: DataQueryOptions | null;
+      // Values for the stored query's named parameters
+      let parameterValues: QueryParameterValues;
+      try {
+        queryOptions = parseDataQueryOptions(req.query);
+        parameterValues = {
+          form: parseParameterValues(req.query.params),
+          user: userParameterValues(req.session.user)
+        };
+      } catch (error) {
+        if (error instanceof DataQueryError) {
+          return res.status(400).json({ message: error.message });
+        }
+        throw error;
+      }
+      
+      if (queryOptions) {
+        const knownFields = Array.isArray(dataSource.fields)
+          ? (dataSource.fields as Array<{ name: string }>).map(field => field.name)
+          : [];
+        
+        // Search the selected (or all known) fields when none are given
+        if (queryOptions.search && queryOptions.search.fields.length === 0) {
+          const selected = Array.isArray(dataSource.selectedFields) ? dataSource.selectedFields as string[] : [];
+          queryOptions.search.fields = selected.length > 0 ? selected : knownFields;
+        }
+        
+        // Only allow sorting and filtering on columns the data source exposes
+        if (knownFields.length > 0) {
+          const unknownField = referencedFields(queryOptions).find(field => !knownFields.includes(field));
+          if (unknownField) {
+            return res.status(400).json({ message: `Unknown field: ${unknownField}` });
+          }
+        }
+      }
+      
+      // Repeated reads are served from the cache while fresh; the user's
+      // attributes are part of the key since stored queries may use them
+      const cacheTtl = cacheTtlSeconds(dataSource.config);
+      const cacheKey = resultCache.key(dataSourceId, { query: req.query, user: parameterValues.user });
+      const cached = cacheTtl > 0 ? resultCache.get(cacheKey) : undefined;
+      if (cached) {
+        res.set('X-Cache', 'HIT');
+        res.set('Age', String(cached.age));
+        const { body, truncated } = cached.value as { body: unknown; truncated: boolean };
+        res.set('X-Rows-Truncated', String(truncated));
+        return res.json(body);
+      }
+      // Reads of a join also depend on the sources it joins
+      let cacheSources = [dataSourceId];
+      if (dataSource.type === 'join') {
+        try {
+          cacheSources = [dataSourceId, ...await joinDependencies(dataSource)];
+        } catch (error) {
+          const { status, message } = joinErrorResponse(error);
+          return res.status(status).json({ message });
+        }
+      }
+      const cacheGeneration = resultCache.generation(cacheSources);
+      
       // This will store the data we retrieve from the data source
       let sourceData: any[] = [];
+      // Total row count when paging was pushed down to the data source
+      let total: number | undefined;
+      // Whether rows past the data source's row limit were left out
+      let truncated = false;
+      const limits = queryLimits(dataSource.config);
+      const signal = disconnectSignal(res);
       
       // Handle different data source types
       try {
@@ -798,60 +1498,145 @@ export async function registerRoutes(app: Express): Promise<Server> {
           const { fileUrl } = config;
           
           if (fileUrl) {
-            // Fetch the Excel file
-            const response = await axios.get(fileUrl, { responseType: 'arraybuffer' });
-            
-            // Parse the Excel file
-            const workbook = XLSX.read(response.data, { type: 'buffer' });
-            
-            // Get the first sheet or the specified sheet
-            const sheetName = config.sheetName || workbook.SheetNames[0];
-            const worksheet = workbook.Sheets[sheetName];
-            
-            // Convert to JSON
-            sourceData = XLSX.utils.sheet_to_json(worksheet);
+            // Read the current revision (or the original file) as JSON rows
+            sourceData = await readExcelRows(config);
           } else {
             return res.status(400).json({ message: 'No file URL provided in Excel data source config' });
           }
         } else if (dataSource.type === 'database') {
           // For database connections, query the database using our DatabaseConnector
           const { dbType = 'postgresql', schema, table, query, collection } = config;
+          const readOnly = isReadOnlyConfig(config);
+          const backend = findBackend(dbType);
+          if (!backend) {
+            return res.status(400).json({ message: `Unsupported database type: ${dbType}` });
+          }
+          const { dialect } = backend;
           
-          // DatabaseConnector is already imported at the top of the file
+          // Stored queries are checked before anything reaches the database
+          if (query) {
+            try {
+              checkStoredQuery(dialect, query, readOnly);
+            } catch (error) {
+              if (error instanceof StatementBlockedError) {
+                logBlockedStatement(`data source ${dataSourceId}`, req.session.user?.username, error.message);
+                return res.status(403).json({ message: `Query not allowed: ${error.message}` });
+              }
+              throw error;
+            }
+          } else if (dialect !== 'mongodb' && !table) {
+            return res.status(400).json({ message: NO_TABLE_MESSAGE });
+          }
           
           try {
             // If using the default database (from environment), set up the appropriate config
             if (config.useDefaultDatabase) {
-              // Use the environment database connection
-              if (dbType.toLowerCase() === 'postgresql') {
-                config.connectionString = process.env.DATABASE_URL;
-              }
+              Object.assign(config, defaultConnection(dbType));
             }
             
-            // Construct the query based on database type
-            let sqlQuery = query;
-            
-            if (!sqlQuery) {
-              if (dbType.toLowerCase() === 'mongodb') {
-                // For MongoDB, use an empty query object that will return all documents
-                sqlQuery = '{}';
+            if (queryOptions && dialect === 'mongodb') {
+              const stored = query ? bindDocumentParameters(JSON.parse(query), parameterValues) : {};
+              let pageQuery: string;
+              let pageOptions: Record<string, any>;
+              let countQuery: string;
+              let countOptions: Record<string, any>;
+              
+              if (Array.isArray(stored)) {
+                // Add paging, sorting and filtering as stages after the stored pipeline
+                const aggregate = buildMongoAggregate(stored, queryOptions);
+                checkDocumentFilter(aggregate.pipeline);
+                pageQuery = JSON.stringify(aggregate.pipeline);
+                pageOptions = {};
+                countQuery = JSON.stringify(aggregate.countPipeline);
+                countOptions = {};
               } else {
-                // For SQL databases, construct a basic SELECT
-                const tableName = table || 'users';
-                console.log(`Using table: ${tableName} for data source query`);
-                sqlQuery = `SELECT * FROM ${schema || 'public'}.${tableName} LIMIT 1000`;
+                // Push paging, sorting and filtering into the MongoDB find
+                const find = buildMongoFind(stored, queryOptions);
+                checkDocumentFilter(find.filter);
+                // A built query's columns, and its sort unless the request sorts
+                const built = config.queryBuilder ? builderFindOptions(validateQueryBuilder(config.queryBuilder)) : undefined;
+                pageQuery = countQuery = JSON.stringify(find.filter);
+                pageOptions = {
+                  sort: Object.keys(find.sort).length > 0 ? find.sort : built?.sort,
+                  skip: find.skip,
+                  limit: find.limit,
+                  projection: built?.projection
+                };
+                countOptions = { count: true };
               }
+              
+              const [pageResult, countResult] = await Promise.all([
+                DatabaseConnector.executeQuery(dbType, config, pageQuery, {
+                  poolKey: dataSourceId,
+                  params: [pageOptions],
+                  readOnly,
+                  ...limits,
+                  signal
+                }),
+                DatabaseConnector.executeQuery(dbType, config, countQuery, {
+                  poolKey: dataSourceId,
+                  params: [countOptions],
+                  readOnly,
+                  timeoutMs: limits.timeoutMs,
+                  signal
+                })
+              ]);
+              
+              if (pageResult.error || countResult.error) {
+                throw pageResult.error || countResult.error;
+              }
+              
+              sourceData = pageResult.rows;
+              total = Number(countResult.rows[0]?.total ?? 0);
+            } else if (queryOptions && dialect !== 'mongodb') {
+              // Push paging, sorting and filtering into SQL, wrapping a stored query if there is one
+              const stored = query ? bindSqlParameters(dialect, query, parameterValues) : undefined;
+              const pageQuery = buildSqlPageQuery(dialect, { table, schema, query: stored?.query, params: stored?.params }, queryOptions);
+              
+              const [pageResult, countResult] = await Promise.all([
+                DatabaseConnector.executeQuery(dbType, config, pageQuery.query, {
+                  poolKey: dataSourceId,
+                  params: pageQuery.params,
+                  readOnly,
+                  ...limits,
+                  signal
+                }),
+                DatabaseConnector.executeQuery(dbType, config, pageQuery.countQuery, {
+                  poolKey: dataSourceId,
+                  params: pageQuery.params,
+                  readOnly,
+                  timeoutMs: limits.timeoutMs,
+                  signal
+                })
+              ]);
+              
+              if (pageResult.error || countResult.error) {
+                throw pageResult.error || countResult.error;
+              }
+              
+              sourceData = pageResult.rows;
+              // Drivers differ in the case of the alias (e.g. TOTAL on Oracle)
+              const countRow = countResult.rows[0] || {};
+              total = Number(countRow.total ?? countRow.TOTAL ?? Object.values(countRow)[0] ?? 0);
+            } else {
+              ({ rows: sourceData, truncated } = await readDatabaseRows(dataSource, parameterValues, signal));
             }
-            
-            // Execute the query
-            const result = await DatabaseConnector.executeQuery(dbType, config, sqlQuery);
-            
-            if (result.error) {
-              throw result.error;
-            }
-            
-            sourceData = result.rows;
           } catch (error) {
+            // Nobody is left to answer
+            if (error instanceof QueryCancelledError) {
+              return res.end();
+            }
+            if (error instanceof QueryTimeoutError) {
+              return res.status(504).json({ message: error.message, status: 'timedOut' });
+            }
+            // Filters and parameter values from the request are held to the same rules as stored queries
+            if (error instanceof StatementBlockedError) {
+              logBlockedStatement(`data source ${dataSourceId}`, req.session.user?.username, error.message);
+              return res.status(403).json({ message: `Query not allowed: ${error.message}` });
+            }
+            if (error instanceof DataQueryError) {
+              return res.status(400).json({ message: error.message });
+            }
             const dbError = error as Error;
             console.error('Error querying database:', dbError);
             
@@ -881,8 +1666,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
             });
           }
         } else if (dataSource.type === 'sharepoint') {
-          // For SharePoint lists, this would need actual SharePoint API integration
-          return res.status(501).json({ message: 'SharePoint data source not yet implemented' });
+          // List items are read through Microsoft Graph; paging for the table happens in memory below
+          try {
+            sourceData = await fetchSharePointRows(config);
+          } catch (error) {
+            if (error instanceof SharePointSourceError) {
+              return res.status(502).json({ message: error.message });
+            }
+            throw error;
+          }
+        } else if (dataSource.type === 'rest') {
+          // REST APIs are read page by page; paging for the table happens in memory below
+          try {
+            sourceData = await fetchRestRows(config);
+          } catch (error) {
+            if (error instanceof RestSourceError) {
+              return res.status(502).json({ message: error.message });
+            }
+            throw error;
+          }
+        } else if (dataSource.type === 'submissions') {
+          // Submissions are read from this app's own database; paging happens in memory below
+          try {
+            sourceData = await readSubmissionRows(config, req.session.user);
+          } catch (error) {
+            if (error instanceof SubmissionSourceError) {
+              return res.status(400).json({ message: error.message });
+            }
+            throw error;
+          }
+        } else if (dataSource.type === 'join') {
+          // Both sources are read in full and joined here; paging happens in memory below
+          try {
+            ({ rows: sourceData, truncated } = await readJoinSource(dataSource, parameterValues, [], signal));
+          } catch (error) {
+            if (error instanceof QueryCancelledError) {
+              return res.end();
+            }
+            if (error instanceof QueryTimeoutError) {
+              return res.status(504).json({ message: error.message, status: 'timedOut' });
+            }
+            if (error instanceof StatementBlockedError) {
+              logBlockedStatement(`data source ${dataSourceId}`, req.session.user?.username, error.message);
+            }
+            const { status, message } = joinErrorResponse(error);
+            return res.status(status).json({ message });
+          }
         } else {
           return res.status(400).json({ message: 'Unsupported data source type' });
         }
@@ -891,11 +1720,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(500).json({ message: 'Error processing data source configuration' });
       }
       
+      // Sources read in full (files, APIs, joins) are held to the same row limit
+      if (limits.maxRows && sourceData.length > limits.maxRows) {
+        sourceData = sourceData.slice(0, limits.maxRows);
+        truncated = true;
+      }
+      
+      // Values are converted to their field's type (detected, or chosen in the field list)
+      // so grids show and sort them correctly
+      if (Array.isArray(dataSource.fields)) {
+        sourceData = coerceRows(sourceData, dataSource.fields as Field[], { excelSerialDates: dataSource.type === 'excel' });
+      }
+      
+      // Sources that could not page themselves (e.g. Excel) are paged in memory
+      if (queryOptions && total === undefined) {
+        const paged = applyDataQuery(sourceData, queryOptions);
+        sourceData = paged.rows;
+        total = paged.total;
+      }
+      
       // Filter data to only include selected fields if needed
+      // (key columns are always kept so rows can be written back)
       if (dataSource.selectedFields && Array.isArray(dataSource.selectedFields) && dataSource.selectedFields.length > 0) {
+        const projectedFields = Array.from(new Set([
+          ...getKeyColumns(dataSource.fields),
+          ...(dataSource.selectedFields as string[])
+        ]));
         sourceData = sourceData.map(item => {
           const filteredItem: Record<string, any> = {};
-          for (const field of dataSource.selectedFields as string[]) {
+          for (const field of projectedFields) {
             if (item[field] !== undefined) {
               filteredItem[field] = item[field];
             }
@@ -904,21 +1757,142 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      res.json(sourceData);
+      const body = queryOptions
+        ? { rows: sourceData, total, page: queryOptions.page, pageSize: queryOptions.pageSize, truncated }
+        : sourceData;
+      
+      // Plain row arrays have no room for the flag, so it is also sent as a header
+      resultCache.set(cacheKey, cacheSources, { body, truncated }, cacheTtl, cacheGeneration);
+      res.set('X-Cache', cacheTtl > 0 ? 'MISS' : 'BYPASS');
+      res.set('X-Rows-Truncated', String(truncated));
+      res.json(body);
     } catch (error) {
       console.error('Error fetching data from data source:', error);
       res.status(500).json({ message: 'Error fetching data from data source' });
     }
   });
   
-  // Update data in a data source
-  app.put('/api/datasources/:id/data/:rowIndex', async (req, res) => {
+  // Apply a row change: database sources run a statement, Excel sources get a new workbook revision
+  const writeRow = async (
+    dataSource: DataSource,
+    change: ExcelChange,
+    username?: string
+  ): Promise<ExcelChangeResult & { error?: Error }> => {
+    const result = await applyRowChange(dataSource, change, username);
+    // Cached reads no longer match; failed writes may still have changed something
+    resultCache.invalidate(dataSource.id);
+    await publishRowsChanged(dataSource.id);
+    return result;
+  };
+  
+  const applyRowChange = async (
+    dataSource: DataSource,
+    change: ExcelChange,
+    username?: string
+  ): Promise<ExcelChangeResult & { error?: Error }> => {
+    if (dataSource.type === 'excel') {
+      try {
+        return await applyExcelChange(dataSource.id, change, username);
+      } catch (error) {
+        return { affectedRows: 0, error: error instanceof Error ? error : new Error(String(error)) };
+      }
+    }
+    
+    const { dbType, config } = databaseConfig(dataSource);
+    const options = { poolKey: dataSource.id };
+    switch (change.kind) {
+      case 'insert':
+        return DatabaseConnector.insertRow(dbType, config, change.values, options);
+      case 'update':
+        return DatabaseConnector.updateRow(dbType, config, change.key, change.values, options);
+      case 'delete':
+        return DatabaseConnector.deleteRow(dbType, config, change.key, options);
+    }
+  };
+  
+  // Reject columns the data source doesn't expose
+  const findUnknownField = (dataSource: DataSource, values: Record<string, any>) => {
+    const knownFields = Array.isArray(dataSource.fields)
+      ? (dataSource.fields as Array<{ name: string }>).map(field => field.name)
+      : [];
+    return Object.keys(values).find(field => !knownFields.includes(field));
+  };
+  
+  // Report a failed row write with a status that reflects its cause
+  const sendWriteError = (res: Response, error: Error) => {
+    if (error instanceof DataWriteError) {
+      return res.status(400).json({ success: false, message: error.message });
+    }
+    if (isConstraintViolation(error)) {
+      return res.status(409).json({ success: false, message: `Constraint violation: ${error.message}` });
+    }
+    console.error('Error writing row to database:', error);
+    return res.status(500).json({ success: false, message: `Database error: ${error.message}` });
+  };
+  
+  // Insert a row into a data source
+  app.post('/api/datasources/:id/data', async (req, res) => {
     try {
       const dataSourceId = parseInt(req.params.id);
-      const rowIndex = parseInt(req.params.rowIndex);
+      if (isNaN(dataSourceId)) {
+        return res.status(400).json({ message: 'Invalid data source ID' });
+      }
+      
+      const dataSource = await storage.getDataSource(dataSourceId);
+      if (!dataSource) {
+        return res.status(404).json({ message: 'Data source not found' });
+      }
+      
+      if (dataSource.type !== 'database' && dataSource.type !== 'excel') {
+        return res.status(501).json({ message: `Writing rows is not supported for ${dataSource.type} data sources` });
+      }
+      
+      if (isReadOnlySource(dataSource)) {
+        logBlockedStatement(`data source ${dataSourceId}`, req.session.user?.username, `row insert on a read-only data source`);
+        return res.status(403).json({ message: 'This data source is read-only' });
+      }
+      
+      if (!req.body || typeof req.body !== 'object') {
+        return res.status(400).json({ message: 'Invalid data format' });
+      }
+      
+      // Accept { values } or a plain row; blank values are left to column defaults
+      const values: Record<string, any> = {};
+      for (const [field, value] of Object.entries(req.body.values ?? req.body)) {
+        if (value !== '' && value !== undefined) {
+          values[field] = value;
+        }
+      }
       
-      if (isNaN(dataSourceId) || isNaN(rowIndex)) {
-        return res.status(400).json({ message: 'Invalid data source ID or row index' });
+      const unknownField = findUnknownField(dataSource, values);
+      if (unknownField) {
+        return res.status(400).json({ message: `Unknown field: ${unknownField}` });
+      }
+      
+      const result = await writeRow(dataSource, { kind: 'insert', values }, req.session.user?.username);
+      
+      if (result.error) {
+        return sendWriteError(res, result.error);
+      }
+      
+      res.status(201).json({
+        success: true,
+        message: 'Row created successfully',
+        data: result.row ?? values,
+        revision: result.revision
+      });
+    } catch (error) {
+      console.error('Error inserting data into data source:', error);
+      res.status(500).json({ message: 'Error inserting data into data source' });
+    }
+  });
+  
+  // Update a row in a data source, addressed by the values of its key columns
+  app.put('/api/datasources/:id/data/:key', async (req, res) => {
+    try {
+      const dataSourceId = parseInt(req.params.id);
+      if (isNaN(dataSourceId)) {
+        return res.status(400).json({ message: 'Invalid data source ID' });
       }
       
       const dataSource = await storage.getDataSource(dataSourceId);
@@ -926,31 +1900,60 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: 'Data source not found' });
       }
       
-      const updatedRow = req.body;
-      if (!updatedRow || typeof updatedRow !== 'object') {
+      if (dataSource.type !== 'database' && dataSource.type !== 'excel') {
+        return res.status(501).json({ message: `Writing rows is not supported for ${dataSource.type} data sources` });
+      }
+      
+      if (isReadOnlySource(dataSource)) {
+        logBlockedStatement(`data source ${dataSourceId}`, req.session.user?.username, `row update on a read-only data source`);
+        return res.status(403).json({ message: 'This data source is read-only' });
+      }
+      
+      const keyColumns = getKeyColumns(dataSource.fields);
+      if (keyColumns.length === 0) {
+        return res.status(400).json({ message: 'No key columns are configured for this data source' });
+      }
+      
+      if (!req.body || typeof req.body !== 'object') {
         return res.status(400).json({ message: 'Invalid data format' });
       }
       
-      // This would need to be implemented with actual data modification logic
-      // For demo purposes, we'll just return success with the updated row
-      // In a real implementation, you would update the actual data source
+      // Accept { key, values } or a plain row; key columns are never updated
+      let key: Record<string, any>;
+      try {
+        key = req.body.key !== undefined
+          ? rowKeyFromObject(req.body.key, keyColumns)
+          : decodeRowKey(req.params.key, keyColumns);
+      } catch (error) {
+        return res.status(400).json({ message: `Invalid row key: ${(error as Error).message}` });
+      }
+      
+      const values: Record<string, any> = { ...(req.body.values ?? req.body) };
+      delete values.key;
+      for (const column of keyColumns) {
+        delete values[column];
+      }
       
-      // For Excel, you would:
-      // 1. Fetch the file
-      // 2. Update the data
-      // 3. Write back to the file or to a new file
+      const unknownField = findUnknownField(dataSource, values);
+      if (unknownField) {
+        return res.status(400).json({ message: `Unknown field: ${unknownField}` });
+      }
       
-      // For a database, you would:
-      // 1. Run an UPDATE query
+      const result = await writeRow(dataSource, { kind: 'update', key, values }, req.session.user?.username);
       
-      // For now, we'll just acknowledge the update
-      console.log(`Data source ${dataSourceId} row ${rowIndex} updated with:`, updatedRow);
+      if (result.error) {
+        return sendWriteError(res, result.error);
+      }
+      
+      if (result.affectedRows === 0) {
+        return res.status(404).json({ success: false, message: 'Row not found' });
+      }
       
-      // Ensure we return a proper success response
       res.json({
         success: true,
         message: 'Row updated successfully',
-        data: updatedRow
+        data: result.row ?? { ...key, ...values },
+        revision: result.revision
       });
     } catch (error) {
       console.error('Error updating data in data source:', error);
@@ -958,6 +1961,129 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Delete a row from a data source, addressed by the values of its key columns
+  app.delete('/api/datasources/:id/data/:key', async (req, res) => {
+    try {
+      const dataSourceId = parseInt(req.params.id);
+      if (isNaN(dataSourceId)) {
+        return res.status(400).json({ message: 'Invalid data source ID' });
+      }
+      
+      const dataSource = await storage.getDataSource(dataSourceId);
+      if (!dataSource) {
+        return res.status(404).json({ message: 'Data source not found' });
+      }
+      
+      if (dataSource.type !== 'database' && dataSource.type !== 'excel') {
+        return res.status(501).json({ message: `Writing rows is not supported for ${dataSource.type} data sources` });
+      }
+      
+      if (isReadOnlySource(dataSource)) {
+        logBlockedStatement(`data source ${dataSourceId}`, req.session.user?.username, `row delete on a read-only data source`);
+        return res.status(403).json({ message: 'This data source is read-only' });
+      }
+      
+      const keyColumns = getKeyColumns(dataSource.fields);
+      if (keyColumns.length === 0) {
+        return res.status(400).json({ message: 'No key columns are configured for this data source' });
+      }
+      
+      let key: Record<string, any>;
+      try {
+        key = decodeRowKey(req.params.key, keyColumns);
+      } catch (error) {
+        return res.status(400).json({ message: `Invalid row key: ${(error as Error).message}` });
+      }
+      
+      const result = await writeRow(dataSource, { kind: 'delete', key }, req.session.user?.username);
+      
+      if (result.error) {
+        return sendWriteError(res, result.error);
+      }
+      
+      if (result.affectedRows === 0) {
+        return res.status(404).json({ success: false, message: 'Row not found' });
+      }
+      
+      res.json({
+        success: true,
+        message: 'Row deleted successfully',
+        revision: result.revision
+      });
+    } catch (error) {
+      console.error('Error deleting data from data source:', error);
+      res.status(500).json({ message: 'Error deleting data from data source' });
+    }
+  });
+  
+  // Revision history of an Excel data source, newest first
+  app.get('/api/datasources/:id/revisions', async (req, res) => {
+    try {
+      const dataSourceId = parseInt(req.params.id);
+      if (isNaN(dataSourceId)) {
+        return res.status(400).json({ message: 'Invalid data source ID' });
+      }
+      
+      const dataSource = await storage.getDataSource(dataSourceId);
+      if (!dataSource) {
+        return res.status(404).json({ message: 'Data source not found' });
+      }
+      
+      if (dataSource.type !== 'excel') {
+        return res.status(400).json({ message: 'Only Excel data sources have revisions' });
+      }
+      
+      const config = typeof dataSource.config === 'string' ? 
+        JSON.parse(dataSource.config) : 
+        (dataSource.config as any || {});
+      const revisions = revisionsOf(config);
+      const currentRevision = config.currentRevision ?? revisions[revisions.length - 1]?.revision;
+      
+      res.json(revisions
+        .map(revision => ({ ...revision, current: revision.revision === currentRevision }))
+        .reverse());
+    } catch (error) {
+      console.error('Error fetching data source revisions:', error);
+      res.status(500).json({ message: 'Error fetching data source revisions' });
+    }
+  });
+  
+  // Point an Excel data source back at an earlier revision
+  app.post('/api/datasources/:id/revisions/:revision/rollback', async (req, res) => {
+    try {
+      const dataSourceId = parseInt(req.params.id);
+      const revisionNumber = parseInt(req.params.revision);
+      if (isNaN(dataSourceId) || isNaN(revisionNumber)) {
+        return res.status(400).json({ message: 'Invalid data source ID or revision' });
+      }
+      
+      const dataSource = await storage.getDataSource(dataSourceId);
+      if (!dataSource) {
+        return res.status(404).json({ message: 'Data source not found' });
+      }
+      
+      if (dataSource.type !== 'excel') {
+        return res.status(400).json({ message: 'Only Excel data sources have revisions' });
+      }
+      
+      const revision = await rollbackExcelRevision(dataSourceId, revisionNumber);
+      if (!revision) {
+        return res.status(404).json({ message: 'Revision not found' });
+      }
+      resultCache.invalidate(dataSourceId);
+      await publishRowsChanged(dataSourceId);
+      
+      res.json({
+        success: true,
+        message: `Rolled back to revision ${revision.revision}`,
+        revision
+      });
+    } catch (error) {
+      console.error('Error rolling back data source revision:', error);
+      res.status(500).json({ message: 'Error rolling back data source revision' });
+    }
+  });
+  
   // Update selected fields for a data source
   app.patch('/api/datasources/:id/fields', async (req, res) => {
     try {
@@ -980,21 +2106,249 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const updatedDataSource = await storage.updateDataSource(dataSourceId, {
         selectedFields
       });
+      // Cached rows were projected onto the old selection
+      resultCache.invalidate(dataSourceId);
+      liveEvents.publish({ type: 'datasources', id: dataSourceId });
+      await publishRowsChanged(dataSourceId);
       
-      res.json(updatedDataSource);
+      res.json(updatedDataSource && redactDataSource(updatedDataSource));
     } catch (error) {
       console.error('Error updating data source fields:', error);
       res.status(500).json({ message: 'Error updating data source fields' });
     }
   });
   
+  // Compare a data source's stored fields with its columns now, without waiting for the background check
+  app.post('/api/datasources/:id/drift', async (req, res) => {
+    try {
+      const dataSourceId = parseInt(req.params.id);
+      if (isNaN(dataSourceId)) {
+        return res.status(400).json({ message: 'Invalid data source ID' });
+      }
+      
+      const dataSource = await storage.getDataSource(dataSourceId);
+      if (!dataSource) {
+        return res.status(404).json({ message: 'Data source not found' });
+      }
+      
+      const report = await schemaDrift.check(dataSource);
+      res.json(report ?? { dataSourceId, checkedAt: new Date().toISOString(), drifts: [], affected: [] });
+    } catch (error) {
+      console.error('Error checking data source for schema drift:', error);
+      res.status(500).json({ message: 'Error checking data source for schema drift' });
+    }
+  });
+  
+  // Replace the stored fields with the source's current columns; selected fields that are gone are dropped
+  app.post('/api/datasources/:id/resync', async (req, res) => {
+    try {
+      const dataSourceId = parseInt(req.params.id);
+      if (isNaN(dataSourceId)) {
+        return res.status(400).json({ message: 'Invalid data source ID' });
+      }
+      
+      const dataSource = await storage.getDataSource(dataSourceId);
+      if (!dataSource) {
+        return res.status(404).json({ message: 'Data source not found' });
+      }
+      
+      let current: Field[];
+      try {
+        current = await introspectFields(dataSource, req.session.user);
+      } catch (error) {
+        return res.status(502).json({ message: `Could not read the data source: ${error instanceof Error ? error.message : String(error)}` });
+      }
+      if (current.length === 0) {
+        return res.status(400).json({ message: 'The data source returned no columns to sync with' });
+      }
+      
+      const next = resyncFields(
+        Array.isArray(dataSource.fields) ? dataSource.fields as Field[] : [],
+        current,
+        Array.isArray(dataSource.selectedFields) ? dataSource.selectedFields as string[] : []
+      );
+      const updatedDataSource = await storage.updateDataSource(dataSourceId, next);
+      // Cached rows were typed and projected with the old fields
+      resultCache.invalidate(dataSourceId);
+      if (updatedDataSource) {
+        await schemaDrift.check(updatedDataSource);
+      }
+      liveEvents.publish({ type: 'datasources', id: dataSourceId });
+      await publishRowsChanged(dataSourceId);
+      
+      res.json(updatedDataSource && redactDataSource(updatedDataSource));
+    } catch (error) {
+      console.error('Error re-syncing data source fields:', error);
+      res.status(500).json({ message: 'Error re-syncing data source fields' });
+    }
+  });
+  
+  // Drop a data source's cached reads so the next request goes to the source
+  app.post('/api/datasources/:id/refresh', async (req, res) => {
+    try {
+      const dataSourceId = parseInt(req.params.id);
+      if (isNaN(dataSourceId)) {
+        return res.status(400).json({ message: 'Invalid data source ID' });
+      }
+      
+      const dataSource = await storage.getDataSource(dataSourceId);
+      if (!dataSource) {
+        return res.status(404).json({ message: 'Data source not found' });
+      }
+      
+      const cleared = resultCache.invalidate(dataSourceId);
+      // Forms showing the source read it again
+      await publishRowsChanged(dataSourceId);
+      res.json({ success: true, message: 'Data source cache cleared', cleared });
+    } catch (error) {
+      console.error('Error refreshing data source:', error);
+      res.status(500).json({ message: 'Error refreshing data source' });
+    }
+  });
+  
+  // Connection settings for browsing a database schema: the editor's unsaved
+  // settings (with saved secrets behind the placeholders if they connect to the
+  // same place), or a saved data source's
+  const schemaConnection = async (body: any) => {
+    const dataSource = body.dataSourceId ? await storage.getDataSource(parseInt(body.dataSourceId)) : undefined;
+    if (!body.config && !dataSource) {
+      return undefined;
+    }
+    
+    const source = dataSource && body.config
+      ? { ...dataSource, config: mergeConnectionSecrets(dataSource.config, body.config) }
+      : dataSource || { config: body.config };
+    const { dbType, config } = databaseConfig(source);
+    // The data source's pool is only reused for its saved settings
+    return { dbType, config, poolKey: dataSource && !body.config ? dataSource.id : undefined };
+  };
+  
+  // Schemas (or databases) of a connection with their tables, views and collections
+  app.post('/api/datasources/schema', async (req, res) => {
+    try {
+      const connection = await schemaConnection(req.body);
+      if (!connection) {
+        return res.status(400).json({ message: 'Connection settings or a data source ID are required' });
+      }
+      
+      const schemas = await DatabaseConnector.listSchemas(connection.dbType, connection.config, {
+        poolKey: connection.poolKey
+      });
+      res.json({ dbType: connection.dbType, schemas });
+    } catch (error) {
+      if (error instanceof SecretReuseError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error('Error reading database schema:', error);
+      res.status(500).json({ message: `Could not read the database schema: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Columns of one table, view or collection
+  app.post('/api/datasources/schema/columns', async (req, res) => {
+    try {
+      const { schema, table } = req.body;
+      if (!table) {
+        return res.status(400).json({ message: 'Table name is required' });
+      }
+      
+      const connection = await schemaConnection(req.body);
+      if (!connection) {
+        return res.status(400).json({ message: 'Connection settings or a data source ID are required' });
+      }
+      
+      const columns = await DatabaseConnector.listColumns(connection.dbType, connection.config, { schema, table }, {
+        poolKey: connection.poolKey
+      });
+      res.json({ columns });
+    } catch (error) {
+      if (error instanceof SecretReuseError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error('Error reading table columns:', error);
+      res.status(500).json({ message: `Could not read the table columns: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Run a query builder spec against a connection: the query it stores and its first rows
+  app.post('/api/datasources/query-builder/preview', async (req, res) => {
+    try {
+      const connection = await schemaConnection(req.body);
+      if (!connection) {
+        return res.status(400).json({ message: 'Connection settings or a data source ID are required' });
+      }
+      
+      const spec = validateQueryBuilder(req.body.builder);
+      const backend = findBackend(connection.dbType);
+      if (!backend) {
+        return res.status(400).json({ message: `Unsupported database type: ${connection.dbType}` });
+      }
+      const { dialect } = backend;
+      const query = buildStoredQuery(dialect, spec);
+      checkStoredQuery(dialect, query, true);
+      
+      // Parameters take the values given for the preview, or NULL
+      const parameterValues: QueryParameterValues = {
+        form: req.body.params && typeof req.body.params === 'object' ? req.body.params : {},
+        user: userParameterValues(req.session.user)
+      };
+      const limit = Math.min(spec.limit, BUILDER_PREVIEW_ROWS);
+      
+      let statement: string;
+      let params: any[];
+      if (dialect === 'mongodb') {
+        const filter = bindDocumentParameters(JSON.parse(query), parameterValues);
+        checkDocumentFilter(filter);
+        statement = JSON.stringify(filter);
+        params = [{ ...builderFindOptions(spec), limit, collection: spec.table }];
+      } else {
+        ({ query: statement, params } = bindSqlParameters(dialect, buildBuilderSql(dialect, spec, limit), parameterValues));
+      }
+      
+      const result = await DatabaseConnector.executeQuery(connection.dbType, connection.config, statement, {
+        poolKey: connection.poolKey,
+        params,
+        readOnly: true,
+        timeoutMs: queryLimits(connection.config).timeoutMs,
+        signal: disconnectSignal(res)
+      });
+      
+      if (result.error) {
+        return res.status(400).json({ message: `The query failed: ${result.error.message}`, query });
+      }
+      res.json({ query, rows: result.rows });
+    } catch (error) {
+      if (error instanceof DataQueryError || error instanceof SecretReuseError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error('Error previewing query:', error);
+      res.status(500).json({ message: `Could not run the query: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
   // Test database connection endpoint
   app.post('/api/datasources/test-connection', async (req, res) => {
     try {
-      const { type, config } = req.body;
+      const { type, dataSourceId } = req.body;
+      let { config } = req.body;
+      
+      // When re-testing a saved data source the editor only has placeholders for its secrets
+      if (dataSourceId) {
+        const existingDataSource = await storage.getDataSource(parseInt(dataSourceId));
+        if (existingDataSource) {
+          try {
+            config = mergeConnectionSecrets(existingDataSource.config, config);
+          } catch (error) {
+            if (error instanceof SecretReuseError) {
+              return res.status(400).json({ success: false, message: error.message });
+            }
+            throw error;
+          }
+        }
+      }
       
       console.log('Testing connection for type:', type);
-      console.log('Connection config:', JSON.stringify(config, null, 2));
+      console.log('Connection config:', JSON.stringify(redactConfig(config), null, 2));
       
       if (type === 'database') {
         const { dbType = 'postgresql' } = config;
@@ -1008,11 +2362,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           // If using the default database (from environment), set up the appropriate config
           if (config.useDefaultDatabase) {
             console.log('Using default database connection from environment');
-            // Use the environment database connection
-            if (dbType.toLowerCase() === 'postgresql') {
-              config.connectionString = process.env.DATABASE_URL;
-              console.log('Using connectionString from DATABASE_URL');
-            }
+            Object.assign(config, defaultConnection(dbType));
           } else {
             console.log('Using custom database connection settings');
           }
@@ -1047,43 +2397,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
             message: `Database connection failed: ${dbError.message}`
           });
         }
+      } else if (type === 'rest') {
+        // Fetch the first page of the API and infer fields from its rows
+        const result = await testRestConnection(config || {});
+        res.status(result.success ? 200 : 400).json(result);
       } else if (type === 'sharepoint') {
-        // Simulate SharePoint connection test
-        const { url, listName } = config || {};
-        
-        if (!url || !listName) {
-          return res.status(400).json({
-            success: false,
-            message: 'SharePoint URL and list name are required'
+        const result = await testSharePointConnection(config || {});
+        res.status(result.success ? 200 : 400).json(result);
+      } else if (type === 'submissions') {
+        const result = await testSubmissionConnection(config || {}, req.session.user);
+        res.status(result.success ? 200 : 400).json(result);
+      } else if (type === 'join') {
+        // Run the join once to check both sources and report its output columns
+        const joinSource = { id: dataSourceId ? parseInt(dataSourceId) : 0, name: 'join', type, config, fields: null } as DataSource;
+        try {
+          const result = await readJoinSource(joinSource, { form: {}, user: userParameterValues(req.session.user) });
+          res.json({
+            success: true,
+            message: `Join returned ${result.rows.length} rows`,
+            info: { rowCount: result.rows.length },
+            fields: result.fields
           });
+        } catch (error) {
+          const { status, message } = joinErrorResponse(error);
+          res.status(status === 500 ? 500 : 400).json({ success: false, message });
         }
-        
-        // In a real implementation, this would verify the SharePoint connection
-        // Generate sample SharePoint list columns as fields
-        const sampleFields = [
-          { name: 'ID', type: 'number', selected: true },
-          { name: 'Title', type: 'text', selected: true },
-          { name: 'Created', type: 'datetime', selected: true },
-          { name: 'Modified', type: 'datetime', selected: true },
-          { name: 'Author', type: 'text', selected: false },
-          { name: 'Editor', type: 'text', selected: false },
-          { name: 'Status', type: 'text', selected: false },
-          { name: 'Priority', type: 'text', selected: false },
-          { name: 'Category', type: 'text', selected: false },
-          { name: 'DueDate', type: 'datetime', selected: false },
-        ];
-        
-        res.json({
-          success: true,
-          message: 'SharePoint connection successful',
-          info: {
-            url,
-            listName
-          },
-          fields: sampleFields
-        });
       } else if (type === 'excel') {
-        // Handle OneDrive/SharePoint Excel file connection
+        // Handle Excel/CSV files, either remote (OneDrive/SharePoint) or uploaded to /uploads
         const { fileUrl } = config || {};
         
         if (!fileUrl) {
@@ -1094,67 +2434,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
         
         try {
-          // Fetch the Excel file from the provided URL
+          // Fetch the file and pick the sheet, header row, delimiter and encoding
           console.log(`Fetching Excel file from URL: ${fileUrl}`);
-          const response = await axios.get(fileUrl, {
-            responseType: 'arraybuffer',
-            timeout: 10000 // 10 second timeout
-          });
+          const source = await openFileSource(fileUrl, config);
+          const worksheet = source.workbook.Sheets[source.sheetName];
           
-          // Parse the Excel file data
-          const workbook = XLSX.read(response.data, { type: 'buffer' });
+          // Header row plus the data rows below it
+          const headers = sheetHeaders(worksheet, config);
+          const rows = sheetRows(worksheet, config);
           
-          // Get the first worksheet
-          const firstSheetName = workbook.SheetNames[0];
-          const worksheet = workbook.Sheets[firstSheetName];
-          
-          // Convert the worksheet to JSON
-          const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1 });
-          
-          if (jsonData.length === 0) {
+          if (headers.length === 0) {
             return res.status(400).json({
               success: false,
               message: 'Excel file is empty or could not be parsed correctly'
             });
           }
-          
-          // Assume the first row contains headers/column names
-          const headers = jsonData[0] as string[];
           console.log('Excel headers found:', headers);
           
-          // Determine data types by checking the second row (if available)
-          const dataRow = jsonData.length > 1 ? jsonData[1] as any[] : null;
+          // Determine data types from a sample of the data rows
+          const types = inferFieldTypes(sheetSampleRows(worksheet, config), headers);
           
           // Create field definitions based on the headers
-          const excelFields = headers.map((header: string, index: number) => {
-            // Infer data type
-            let dataType = 'text'; // Default type
-            
-            if (dataRow) {
-              const value = dataRow[index];
-              if (typeof value === 'number') {
-                dataType = 'number';
-              } else if (value instanceof Date) {
-                dataType = 'datetime';
-              } else if (typeof value === 'boolean') {
-                dataType = 'boolean';
-              }
-            }
-            
-            return {
-              name: header,
-              type: dataType,
-              selected: true // Mark all columns as selected by default
-            };
-          });
+          const excelFields = headers.map((header: string) => ({
+            name: header,
+            type: types[header],
+            selected: true // Mark all columns as selected by default
+          }));
           
           res.json({
             success: true,
             message: 'Excel file connection successful',
             info: {
               fileUrl,
-              sheetName: firstSheetName,
-              rowCount: jsonData.length
+              sheetName: source.sheetName,
+              sheets: source.workbook.SheetNames,
+              format: source.format,
+              delimiter: source.delimiter,
+              encoding: source.encoding,
+              rowCount: rows.length
             },
             fields: excelFields
           });
@@ -1209,14 +2526,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: 'Form not found' });
       }
       
-      const submissionData = {
-        formId,
-        data: req.body
-      };
+      // A JSON array submits several rows at once; each is kept and written on its own
+      const batch = Array.isArray(req.body);
+      const validatedData = (batch ? req.body : [req.body]).map((data: unknown) =>
+        insertFormSubmissionSchema.parse({ formId, data })
+      );
       
-      const validatedData = insertFormSubmissionSchema.parse(submissionData);
-      const submission = await storage.createFormSubmission(validatedData);
-      res.status(201).json(submission);
+      // Forms with a submission target also write each submission to its table
+      const target = form.submissionTarget ? form.submissionTarget as SubmissionTarget : undefined;
+      const targetSource = target ? await storage.getDataSource(target.dataSourceId) : undefined;
+      const targetError = target ? submissionTargetError(target, targetSource) : undefined;
+      
+      const submissions: FormSubmission[] = [];
+      const results: SubmissionTargetResult[] = [];
+      for (const data of validatedData) {
+        // The submission is saved first, as the audit copy of what was sent to the target
+        const submission = await storage.createFormSubmission(data);
+        submissions.push(submission);
+        if (target) {
+          results.push(targetError || !targetSource
+            ? { success: false, affectedRows: 0, message: targetError }
+            : await writeSubmissionTarget(target, targetSource, submittedValues(data.data), req.session.user?.username));
+        }
+      }
+      await invalidateSubmissionSources(formId);
+      liveEvents.publish({ type: 'submissions', formId });
+      
+      if (!target) {
+        return res.status(201).json(batch ? submissions : submissions[0]);
+      }
+      
+      const failed = results.filter(result => !result.success).length;
+      if (!batch) {
+        return failed === 0
+          ? res.status(201).json({ ...submissions[0], target: results[0] })
+          : res.status(422).json({
+            message: `The submission was saved but not written to ${targetSource ? `"${targetSource.name}"` : 'its target'}: ${results[0].message}`,
+            ...submissions[0],
+            target: results[0]
+          });
+      }
+      
+      // Batches report each row; 207 when only some of them were written
+      res.status(failed === 0 ? 201 : failed === results.length ? 422 : 207).json({
+        submissions,
+        results: results.map((result, index) => ({ index, submissionId: submissions[index].id, ...result }))
+      });
     } catch (error) {
       if (error instanceof ZodError) {
         const validationError = fromZodError(error);
@@ -1227,6 +2582,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Write a submission's mapped values to the target table: upserts update the row
+  // with the same key first, and insert when no row matched
+  const writeSubmissionTarget = async (
+    target: SubmissionTarget,
+    dataSource: DataSource,
+    values: Record<string, any>,
+    username?: string
+  ): Promise<SubmissionTargetResult> => {
+    const failure = (error: Error): SubmissionTargetResult => {
+      if (isConstraintViolation(error)) {
+        return { success: false, affectedRows: 0, message: `Constraint violation: ${error.message}` };
+      }
+      if (!(error instanceof DataWriteError)) {
+        console.error('Error writing submission to its target table:', error);
+      }
+      return { success: false, affectedRows: 0, message: error.message };
+    };
+    
+    const row = mapSubmissionRow(target, values, dataSource.fields);
+    if (Object.keys(row).length === 0) {
+      return failure(new DataWriteError('None of the mapped form fields were filled in'));
+    }
+    
+    if (target.mode === 'upsert') {
+      let key: Record<string, any>;
+      try {
+        key = submissionRowKey(targetKeyColumns(target, dataSource), row);
+      } catch (error) {
+        return failure(error as Error);
+      }
+      const updated = await writeRow(dataSource, { kind: 'update', key, values: row }, username);
+      if (updated.error) {
+        return failure(updated.error);
+      }
+      if (updated.affectedRows > 0) {
+        return { success: true, action: 'update', affectedRows: updated.affectedRows, row: updated.row ?? row };
+      }
+    }
+    
+    const inserted = await writeRow(dataSource, { kind: 'insert', values: row }, username);
+    if (inserted.error) {
+      return failure(inserted.error);
+    }
+    return { success: true, action: 'insert', affectedRows: inserted.affectedRows, row: inserted.row ?? row };
+  };
+
   // Approval Request API endpoints
   app.get('/api/approval-requests', isAuthenticated, async (req, res) => {
     try {
@@ -1268,6 +2669,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         requesterId: userId,
         reason
       });
+      await invalidateSubmissionSources();
+      liveEvents.publish({ type: 'approvals', id: request.id });
       res.status(201).json(request);
     } catch (error) {
       console.error('Error creating approval request:', error);
@@ -1301,6 +2704,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         userId,
         reason
       );
+      await invalidateSubmissionSources();
+      liveEvents.publish({ type: 'approvals', id: requestId });
       
       res.json(updatedRequest);
     } catch (error) {
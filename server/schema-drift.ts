@@ -0,0 +1,114 @@
+import type { DataSource, Field } from '@shared/schema';
+import { compareFields, driftedElements, type SchemaDriftReport } from '@shared/schema-drift';
+import { storage } from './storage';
+import { liveEvents } from './live-events';
+
+// Minutes between background checks of every data source; 0 turns them off
+export const DRIFT_CHECK_INTERVAL_MINUTES = parseInt(process.env.DATASOURCE_DRIFT_INTERVAL || '60');
+
+// Reads the columns a data source has now; throws when the source can't be read
+export type FieldIntrospector = (dataSource: DataSource) => Promise<Field[]>;
+
+/**
+ * Compares each data source's stored fields with the columns its table, file
+ * or API has now, keeping the last report per data source. Sources without
+ * stored fields have nothing to compare, and sources whose current columns
+ * can't be told (no table, or a query returning no rows) can't be compared;
+ * both are skipped. Browsers hear about
+ * a report through a "datasources" event when what it flags changes.
+ */
+export class SchemaDriftMonitor {
+  private reports = new Map<number, SchemaDriftReport>();
+  private timer: NodeJS.Timeout | undefined;
+  private running = false;
+
+  constructor(private introspect: FieldIntrospector) {}
+
+  get(dataSourceId: number): SchemaDriftReport | undefined {
+    return this.reports.get(dataSourceId);
+  }
+
+  // Reports that flag something or couldn't be made
+  flagged(): SchemaDriftReport[] {
+    return Array.from(this.reports.values()).filter(report => report.drifts.length > 0 || report.error);
+  }
+
+  forget(dataSourceId: number) {
+    if (this.reports.delete(dataSourceId)) {
+      liveEvents.publish({ type: 'datasources', id: dataSourceId });
+    }
+  }
+
+  async check(dataSource: DataSource): Promise<SchemaDriftReport | undefined> {
+    const stored = Array.isArray(dataSource.fields) ? dataSource.fields as Field[] : [];
+    if (stored.length === 0) {
+      this.forget(dataSource.id);
+      return undefined;
+    }
+
+    let report: SchemaDriftReport;
+    try {
+      const current = await this.introspect(dataSource);
+      if (current.length === 0) {
+        this.forget(dataSource.id);
+        return undefined;
+      }
+      const drifts = compareFields(stored, current);
+      report = {
+        dataSourceId: dataSource.id,
+        checkedAt: new Date().toISOString(),
+        drifts,
+        affected: drifts.length > 0 ? driftedElements(await storage.getForms(), dataSource.id, drifts) : []
+      };
+    } catch (error) {
+      report = {
+        dataSourceId: dataSource.id,
+        checkedAt: new Date().toISOString(),
+        drifts: [],
+        affected: [],
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+
+    const previous = this.reports.get(dataSource.id);
+    this.reports.set(dataSource.id, report);
+    if (JSON.stringify({ ...previous, checkedAt: '' }) !== JSON.stringify({ ...report, checkedAt: '' })) {
+      liveEvents.publish({ type: 'datasources', id: dataSource.id });
+    }
+    return report;
+  }
+
+  // One source at a time, so a pass doesn't open every connection at once
+  async checkAll() {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    try {
+      const dataSources = await storage.getDataSources();
+      const ids = new Set(dataSources.map(dataSource => dataSource.id));
+      for (const id of Array.from(this.reports.keys())) {
+        if (!ids.has(id)) {
+          this.reports.delete(id);
+        }
+      }
+      for (const dataSource of dataSources) {
+        await this.check(dataSource);
+      }
+    } catch (error) {
+      console.error('Error checking data sources for schema drift:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  start(intervalMinutes: number) {
+    if (intervalMinutes <= 0 || this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => this.checkAll(), intervalMinutes * 60 * 1000);
+    // Checks never keep the process alive on their own
+    this.timer.unref();
+    setTimeout(() => this.checkAll(), 30 * 1000).unref();
+  }
+}
@@ -0,0 +1,203 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { SECRET_CONFIG_KEYS, SECRET_PLACEHOLDER, isSecretHeader } from '@shared/secrets';
+
+/**
+ * Encryption of data source secrets (passwords, tokens, connection strings)
+ * with AES-256-GCM. The key comes from DATA_SOURCE_SECRET_KEY; after a key
+ * change the old keys go in DATA_SOURCE_PREVIOUS_SECRET_KEYS (comma
+ * separated) until `npm run secrets:rotate` has re-encrypted everything.
+ *
+ * Encrypted values look like `enc:v1:<key id>:<iv>:<tag>:<ciphertext>`;
+ * anything else is treated as a plaintext value saved before encryption.
+ */
+
+const PREFIX = 'enc:v1:';
+const DEVELOPMENT_KEY = 'formbuilder-development-secret-key';
+
+export class SecretKeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SecretKeyError';
+  }
+}
+
+export class SecretReuseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SecretReuseError';
+  }
+}
+
+interface SecretKey {
+  id: string;
+  key: Buffer;
+}
+
+function deriveKey(secret: string): SecretKey {
+  const key = createHash('sha256').update(secret).digest();
+  return { id: createHash('sha256').update(key).digest('hex').slice(0, 8), key };
+}
+
+let warnedAboutDevelopmentKey = false;
+
+function currentKey(): SecretKey {
+  const secret = process.env.DATA_SOURCE_SECRET_KEY;
+  if (secret) {
+    return deriveKey(secret);
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new SecretKeyError('DATA_SOURCE_SECRET_KEY must be set to store data source credentials');
+  }
+  if (!warnedAboutDevelopmentKey) {
+    console.warn('DATA_SOURCE_SECRET_KEY is not set; using the development key for data source secrets');
+    warnedAboutDevelopmentKey = true;
+  }
+  return deriveKey(DEVELOPMENT_KEY);
+}
+
+// Keys that can decrypt: the current one first, then previous ones
+function decryptionKeys(): SecretKey[] {
+  const previous = (process.env.DATA_SOURCE_PREVIOUS_SECRET_KEYS || '')
+    .split(',')
+    .map(secret => secret.trim())
+    .filter(Boolean)
+    .map(deriveKey);
+  const keys = [currentKey(), ...previous];
+  if (process.env.NODE_ENV !== 'production') {
+    keys.push(deriveKey(DEVELOPMENT_KEY));
+  }
+  return keys;
+}
+
+export function isEncrypted(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(PREFIX);
+}
+
+export function encryptSecret(value: string): string {
+  const { id, key } = currentKey();
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+  return PREFIX + [id, iv.toString('base64'), cipher.getAuthTag().toString('base64'), ciphertext.toString('base64')].join(':');
+}
+
+export function decryptSecret(value: string): string {
+  if (!isEncrypted(value)) {
+    return value;
+  }
+
+  const [id, iv, tag, ciphertext] = value.slice(PREFIX.length).split(':');
+  const secretKey = decryptionKeys().find(candidate => candidate.id === id);
+  if (!secretKey) {
+    throw new SecretKeyError(`No key available to decrypt data source secret (key id ${id})`);
+  }
+
+  const decipher = createDecipheriv('aes-256-gcm', secretKey.key, Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+}
+
+// Apply `transform` to every secret value of a config (a JSON string or an object),
+// keeping the config in the form it came in
+function mapSecrets(config: any, transform: (value: string, previous?: string) => string | undefined, previousConfig?: any): any {
+  if (config === null || config === undefined) {
+    return config;
+  }
+  const asString = typeof config === 'string';
+  const parsed = asString ? JSON.parse(config) : config;
+  if (typeof parsed !== 'object' || parsed === null) {
+    return config;
+  }
+  const previous = (typeof previousConfig === 'string' ? JSON.parse(previousConfig) : previousConfig) || {};
+
+  const result: Record<string, any> = { ...parsed };
+  for (const key of SECRET_CONFIG_KEYS) {
+    if (typeof result[key] === 'string' && result[key] !== '') {
+      result[key] = transform(result[key], previous[key]);
+    }
+  }
+  if (result.headers && typeof result.headers === 'object') {
+    const headers: Record<string, any> = { ...result.headers };
+    for (const name of Object.keys(headers)) {
+      if (isSecretHeader(name) && typeof headers[name] === 'string' && headers[name] !== '') {
+        headers[name] = transform(headers[name], previous.headers?.[name]);
+      }
+    }
+    result.headers = headers;
+  }
+  return asString ? JSON.stringify(result) : result;
+}
+
+// Encrypt the secrets of a config before it is stored; already encrypted values are kept
+export function encryptConfig(config: any): any {
+  return mapSecrets(config, value => isEncrypted(value) ? value : encryptSecret(value));
+}
+
+export function decryptConfig(config: any): any {
+  return mapSecrets(config, decryptSecret);
+}
+
+// Re-encrypt every secret with the current key
+export function reencryptConfig(config: any): any {
+  return mapSecrets(config, value => encryptSecret(decryptSecret(value)));
+}
+
+// Replace secrets with the placeholder for API responses
+export function redactConfig(config: any): any {
+  return mapSecrets(config, () => SECRET_PLACEHOLDER);
+}
+
+/**
+ * The data source editor sends back the placeholders it was given. Those
+ * keep the previously saved secret; any other value replaces it.
+ */
+export function mergeSecrets(previousConfig: any, nextConfig: any): any {
+  return mapSecrets(nextConfig, (value, previous) => value === SECRET_PLACEHOLDER ? previous : value, previousConfig);
+}
+
+// Config values that decide which server a config connects to, and as whom
+const CONNECTION_IDENTITY_KEYS = [
+  'dbType', 'useDefaultDatabase', 'host', 'port', 'server', 'database', 'service', 'connectString', 'filename',
+  'uri', 'connectionString', 'baseUrl', 'url', 'fileUrl', 'graphUrl', 'authorityUrl', 'tenantId', 'clientId',
+  'user', 'username'
+];
+
+function parseConfig(config: any): Record<string, any> {
+  const parsed = typeof config === 'string' ? JSON.parse(config) : config;
+  return parsed && typeof parsed === 'object' ? parsed : {};
+}
+
+/**
+ * mergeSecrets for settings that will be connected with. Saved secrets are
+ * only sent to the connection they were saved for: when a placeholder is
+ * kept but the host, database, user or URL differ from the saved config,
+ * the secret has to be entered again.
+ */
+export function mergeConnectionSecrets(previousConfig: any, nextConfig: any): any {
+  let keepsSavedSecret = false;
+  mapSecrets(nextConfig, value => {
+    keepsSavedSecret = keepsSavedSecret || value === SECRET_PLACEHOLDER;
+    return value;
+  });
+
+  const merged = mergeSecrets(previousConfig, nextConfig);
+  if (!keepsSavedSecret) {
+    return merged;
+  }
+
+  const previous = parseConfig(previousConfig);
+  const next = parseConfig(merged);
+  // Unset and false are the same setting; ports may come back as strings
+  const identity = (value: unknown) => value === undefined || value === null || value === false ? '' : String(value);
+  const changed = CONNECTION_IDENTITY_KEYS.filter(key => identity(previous[key]) !== identity(next[key]));
+  if (changed.length > 0) {
+    throw new SecretReuseError(
+      `Saved credentials are only used with the saved connection settings (${changed.join(', ')} changed); enter them again`
+    );
+  }
+  return merged;
+}
+
+export function redactDataSource<T extends { config: unknown }>(dataSource: T): T {
+  return { ...dataSource, config: redactConfig(dataSource.config) };
+}
@@ -0,0 +1,301 @@
+import axios from 'axios';
+import { createHash } from 'crypto';
+
+/**
+ * Config of a "sharepoint" data source: a SharePoint list read through the
+ * Microsoft Graph REST API.
+ *
+ * `authMode` 'app' signs in as an Entra ID app registration (client
+ * credentials); 'user' signs in with a user's name and password on behalf of
+ * that app. `graphUrl` and `authorityUrl` default to the public Microsoft
+ * cloud and can point at a national cloud or a local Graph-compatible server.
+ */
+export interface SharePointSourceConfig {
+  // Site URL, e.g. https://contoso.sharepoint.com/sites/sales
+  url: string;
+  // Display name, internal name or id of the list
+  listName: string;
+  authMode?: 'app' | 'user';
+  tenantId?: string;
+  clientId?: string;
+  clientSecret?: string;
+  username?: string;
+  password?: string;
+  graphUrl?: string;
+  authorityUrl?: string;
+  maxPages?: number;
+  timeoutMs?: number;
+}
+
+export class SharePointSourceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SharePointSourceError';
+  }
+}
+
+const DEFAULT_GRAPH_URL = 'https://graph.microsoft.com/v1.0';
+const DEFAULT_AUTHORITY_URL = 'https://login.microsoftonline.com';
+
+// Graph returns at most this many items per page
+const PAGE_SIZE = 200;
+const MAX_ROWS = 10000;
+
+function graphUrl(config: SharePointSourceConfig): string {
+  return (config.graphUrl || process.env.GRAPH_API_URL || DEFAULT_GRAPH_URL).replace(/\/+$/, '');
+}
+
+function authorityUrl(config: SharePointSourceConfig): string {
+  return (config.authorityUrl || process.env.GRAPH_AUTHORITY_URL || DEFAULT_AUTHORITY_URL).replace(/\/+$/, '');
+}
+
+// Graph's message from an error response, or the HTTP failure itself
+function graphErrorMessage(error: any): string {
+  const data = error.response?.data;
+  const message = data?.error?.message || data?.error_description || (typeof data?.error === 'string' ? data.error : undefined);
+  if (message) {
+    return message.split('\r\n')[0];
+  }
+  return error.response?.status ? `request failed with status ${error.response.status}` : error.message;
+}
+
+// Access tokens are reused until shortly before they expire
+const tokenCache = new Map<string, { token: string; expiresAt: number }>();
+
+async function accessToken(config: SharePointSourceConfig): Promise<string> {
+  const authMode = config.authMode || 'app';
+  if (!config.clientId) {
+    throw new SharePointSourceError('A client (application) ID is required');
+  }
+  if (authMode === 'app' && (!config.tenantId || !config.clientSecret)) {
+    throw new SharePointSourceError('A tenant ID and client secret are required for app-only access');
+  }
+  if (authMode === 'user' && (!config.username || !config.password)) {
+    throw new SharePointSourceError('A username and password are required for user access');
+  }
+
+  const tenant = config.tenantId || 'organizations';
+  const tokenUrl = `${authorityUrl(config)}/${encodeURIComponent(tenant)}/oauth2/v2.0/token`;
+  // Changed credentials must not reuse a token issued for the old ones
+  const cacheKey = createHash('sha256')
+    .update(JSON.stringify([tokenUrl, authMode, config.clientId, config.clientSecret, config.username, config.password]))
+    .digest('hex');
+  const cached = tokenCache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.token;
+  }
+
+  const body = new URLSearchParams({
+    client_id: config.clientId,
+    scope: `${new URL(graphUrl(config)).origin}/.default`
+  });
+  if (config.clientSecret) {
+    body.set('client_secret', config.clientSecret);
+  }
+  if (authMode === 'user') {
+    body.set('grant_type', 'password');
+    body.set('username', config.username!);
+    body.set('password', config.password!);
+  } else {
+    body.set('grant_type', 'client_credentials');
+  }
+
+  let response;
+  try {
+    response = await axios.post(tokenUrl, body.toString(), {
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      timeout: config.timeoutMs || 15000
+    });
+  } catch (error: any) {
+    throw new SharePointSourceError(`Sign-in failed: ${graphErrorMessage(error)}`);
+  }
+
+  const token = response.data?.access_token;
+  if (!token) {
+    throw new SharePointSourceError('Sign-in failed: no access token was returned');
+  }
+  const expiresIn = Number(response.data.expires_in) || 3600;
+  tokenCache.set(cacheKey, { token, expiresAt: Date.now() + Math.max(0, expiresIn - 60) * 1000 });
+  return token;
+}
+
+async function graphGet(config: SharePointSourceConfig, token: string, url: string, params?: Record<string, any>): Promise<any> {
+  try {
+    const response = await axios.get(url, {
+      headers: { Authorization: `Bearer ${token}`, Accept: 'application/json' },
+      params,
+      timeout: config.timeoutMs || 15000,
+      responseType: 'json'
+    });
+    return response.data;
+  } catch (error: any) {
+    throw new SharePointSourceError(`Graph request failed: ${graphErrorMessage(error)}`);
+  }
+}
+
+// Every item of a Graph collection, following @odata.nextLink
+async function graphCollection(
+  config: SharePointSourceConfig,
+  token: string,
+  url: string,
+  params: Record<string, any>,
+  maxPages: number
+): Promise<any[]> {
+  const items: any[] = [];
+  let next: string | undefined = url;
+  let nextParams: Record<string, any> | undefined = params;
+
+  for (let page = 0; next && page < maxPages && items.length < MAX_ROWS; page++) {
+    const data = await graphGet(config, token, next, nextParams);
+    items.push(...(Array.isArray(data?.value) ? data.value : []));
+    const link: string | undefined = data?.['@odata.nextLink'];
+    next = link ? new URL(link, next).toString() : undefined;
+    // The next link already carries the query (including the skip token)
+    nextParams = undefined;
+  }
+  return items.slice(0, MAX_ROWS);
+}
+
+interface ResolvedList {
+  token: string;
+  siteId: string;
+  listId: string;
+  listUrl: string;
+}
+
+async function resolveList(config: SharePointSourceConfig): Promise<ResolvedList> {
+  if (!config.url || !config.listName) {
+    throw new SharePointSourceError('SharePoint URL and list name are required');
+  }
+
+  let siteUrl: URL;
+  try {
+    siteUrl = new URL(config.url);
+  } catch {
+    throw new SharePointSourceError(`Invalid SharePoint URL: ${config.url}`);
+  }
+
+  const token = await accessToken(config);
+  const base = graphUrl(config);
+
+  // Sites are addressed as {hostname}:{server-relative path}
+  const sitePath = siteUrl.pathname.replace(/\/+$/, '');
+  const site = await graphGet(config, token,
+    sitePath ? `${base}/sites/${siteUrl.hostname}:${sitePath}` : `${base}/sites/${siteUrl.hostname}`,
+    { $select: 'id' });
+  if (!site?.id) {
+    throw new SharePointSourceError(`SharePoint site not found: ${config.url}`);
+  }
+
+  const lists = await graphCollection(config, token,
+    `${base}/sites/${site.id}/lists`,
+    { $select: 'id,name,displayName' },
+    20);
+  const wanted = config.listName.trim().toLowerCase();
+  const list = lists.find(candidate => String(candidate.id).toLowerCase() === wanted)
+    || lists.find(candidate => String(candidate.displayName || '').toLowerCase() === wanted)
+    || lists.find(candidate => String(candidate.name || '').toLowerCase() === wanted);
+  if (!list) {
+    throw new SharePointSourceError(`List "${config.listName}" was not found on the site`);
+  }
+
+  return {
+    token,
+    siteId: site.id,
+    listId: list.id,
+    listUrl: `${base}/sites/${site.id}/lists/${encodeURIComponent(list.id)}`
+  };
+}
+
+// The fieldSchema type of a Graph column definition
+function columnType(column: any): string {
+  if (column.number || column.currency) return 'number';
+  if (column.dateTime) return 'datetime';
+  if (column.boolean) return 'boolean';
+  if (column.calculated) {
+    const outputType = column.calculated.outputType;
+    return outputType === 'number' || outputType === 'currency' ? 'number'
+      : outputType === 'dateTime' ? 'datetime'
+      : outputType === 'boolean' ? 'boolean'
+      : 'text';
+  }
+  if (column.hyperlinkOrPicture || column.geolocation || column.thumbnail || column.term) return 'json';
+  return 'text';
+}
+
+// Person and lookup columns come back as <name>LookupId in item fields
+function isLookupColumn(column: any): boolean {
+  return Boolean(column.lookup || column.personOrGroup);
+}
+
+export type SharePointField = { name: string; type: string; selected: boolean; primaryKey?: boolean };
+
+// Visible list columns as fields; read-only system columns start unselected
+function columnFields(columns: any[]): SharePointField[] {
+  const fields: SharePointField[] = [{ name: 'id', type: 'number', selected: true, primaryKey: true }];
+  for (const column of columns) {
+    if (column.hidden || !column.name || column.name.toLowerCase() === 'id') continue;
+    fields.push({
+      name: column.name,
+      type: columnType(column),
+      selected: !column.readOnly || column.name === 'Created' || column.name === 'Modified'
+    });
+  }
+  return fields;
+}
+
+function itemRow(item: any, lookupColumns: string[]): Record<string, any> {
+  const row: Record<string, any> = { id: Number(item.id) || item.id };
+  for (const [name, value] of Object.entries(item.fields || {})) {
+    if (!name.startsWith('@odata.')) {
+      row[name] = value;
+    }
+  }
+  for (const name of lookupColumns) {
+    if (row[name] === undefined && row[`${name}LookupId`] !== undefined) {
+      row[name] = row[`${name}LookupId`];
+    }
+  }
+  return row;
+}
+
+/**
+ * Fetch the items of a SharePoint list, following Graph's paging up to
+ * `maxPages` (default 50) pages.
+ */
+export async function fetchSharePointRows(config: SharePointSourceConfig, options: { maxPages?: number } = {}): Promise<any[]> {
+  const list = await resolveList(config);
+  const maxPages = options.maxPages ?? config.maxPages ?? 50;
+
+  const columns = await graphCollection(config, list.token, `${list.listUrl}/columns`, {}, 5);
+  const lookupColumns = columns.filter(isLookupColumn).map(column => column.name);
+
+  const items = await graphCollection(config, list.token, `${list.listUrl}/items`,
+    { expand: 'fields', $top: PAGE_SIZE },
+    maxPages);
+  return items.map(item => itemRow(item, lookupColumns));
+}
+
+// Sign in, find the list and read its columns
+export async function testSharePointConnection(config: SharePointSourceConfig) {
+  try {
+    const list = await resolveList(config);
+    const columns = await graphCollection(config, list.token, `${list.listUrl}/columns`, {}, 5);
+    return {
+      success: true,
+      message: 'SharePoint connection successful',
+      info: {
+        url: config.url,
+        listName: config.listName,
+        siteId: list.siteId,
+        listId: list.listId
+      },
+      fields: columnFields(columns)
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `SharePoint connection failed: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+}
@@ -8,6 +8,7 @@ import {
 } from "@shared/schema";
 import { db } from "./db";
 import { eq } from "drizzle-orm";
+import { encryptConfig, decryptConfig } from "./secrets";
 
 // Storage interface
 export interface IStorage {
@@ -47,6 +48,7 @@ export interface IStorage {
   // Approval Request methods
   getApprovalRequests(): Promise<ApprovalRequest[]>;
   getApprovalRequestsByUser(userId: number): Promise<ApprovalRequest[]>;
+  getApprovalRequestsByForm(formId: number): Promise<ApprovalRequest[]>;
   getPendingApprovalRequests(): Promise<ApprovalRequest[]>;
   createApprovalRequest(request: InsertApprovalRequest): Promise<ApprovalRequest>;
   updateApprovalRequest(id: number, status: string, approvedById: number, reason?: string): Promise<ApprovalRequest | undefined>;
@@ -199,6 +201,7 @@ export class MemStorage implements IStorage {
       elements: insertForm.elements,
       applicationId: insertForm.applicationId || null,
       dataSourceId: insertForm.dataSourceId || null,
+      submissionTarget: insertForm.submissionTarget || null,
       isPublished: insertForm.isPublished || null,
       createdAt: now,
       updatedAt: now
@@ -312,6 +315,12 @@ export class MemStorage implements IStorage {
       .filter(request => request.requesterId === userId);
   }
 
+  async getApprovalRequestsByForm(formId: number): Promise<ApprovalRequest[]> {
+    return Array.from(this.approvalRequests.values())
+      .filter(request => request.formSubmissionId !== null &&
+        this.formSubmissions.get(request.formSubmissionId)?.formId === formId);
+  }
+
   async getPendingApprovalRequests(): Promise<ApprovalRequest[]> {
     return Array.from(this.approvalRequests.values())
       .filter(request => request.status === "pending");
@@ -351,6 +360,10 @@ export class MemStorage implements IStorage {
   }
 }
 
+function decryptDataSource(dataSource: DataSource): DataSource {
+  return { ...dataSource, config: decryptConfig(dataSource.config) };
+}
+
 // Database storage implementation
 export class DatabaseStorage implements IStorage {
   async getUsers(): Promise<User[]> {
@@ -465,31 +478,36 @@ export class DatabaseStorage implements IStorage {
   }
   
   // Data Source methods
+  // (credentials in the config are encrypted in the table and decrypted on read)
   async getDataSources(): Promise<DataSource[]> {
-    return db.select().from(dataSources);
+    const rows = await db.select().from(dataSources);
+    return rows.map(decryptDataSource);
   }
   
   async getDataSource(id: number): Promise<DataSource | undefined> {
     const [dataSource] = await db.select().from(dataSources).where(eq(dataSources.id, id));
-    return dataSource || undefined;
+    return dataSource ? decryptDataSource(dataSource) : undefined;
   }
   
   async createDataSource(insertDataSource: InsertDataSource): Promise<DataSource> {
     const [dataSource] = await db
       .insert(dataSources)
-      .values(insertDataSource)
+      .values({ ...insertDataSource, config: encryptConfig(insertDataSource.config) })
       .returning();
-    return dataSource;
+    return decryptDataSource(dataSource);
   }
   
   async updateDataSource(id: number, partialDataSource: Partial<InsertDataSource>): Promise<DataSource | undefined> {
+    const values = partialDataSource.config === undefined
+      ? partialDataSource
+      : { ...partialDataSource, config: encryptConfig(partialDataSource.config) };
     const [updatedDataSource] = await db
       .update(dataSources)
-      .set(partialDataSource)
+      .set(values)
       .where(eq(dataSources.id, id))
       .returning();
     
-    return updatedDataSource || undefined;
+    return updatedDataSource ? decryptDataSource(updatedDataSource) : undefined;
   }
   
   async deleteDataSource(id: number): Promise<boolean> {
@@ -528,6 +546,16 @@ export class DatabaseStorage implements IStorage {
       .where(eq(approvalRequests.requesterId, userId));
   }
 
+  // Approval requests for any submission of a form
+  async getApprovalRequestsByForm(formId: number): Promise<ApprovalRequest[]> {
+    const rows = await db
+      .select({ request: approvalRequests })
+      .from(approvalRequests)
+      .innerJoin(formSubmissions, eq(approvalRequests.formSubmissionId, formSubmissions.id))
+      .where(eq(formSubmissions.formId, formId));
+    return rows.map(row => row.request);
+  }
+
   async getPendingApprovalRequests(): Promise<ApprovalRequest[]> {
     return db
       .select()
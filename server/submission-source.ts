@@ -0,0 +1,144 @@
+import { storage } from './storage';
+import type { ApprovalRequest, Form, FormElement } from '@shared/schema';
+import type { FieldType } from '@shared/field-types';
+import { formValueElements, submittedValues } from '@shared/form-fields';
+
+/**
+ * Config of a "submissions" data source: the submissions of one form, one
+ * row per submission with a column per form field plus its approval status.
+ * `currentUserOnly` keeps the submissions the reading user requested
+ * approval for, e.g. for a "my requests" table.
+ */
+export interface SubmissionSourceConfig {
+  formId: number;
+  currentUserOnly?: boolean;
+}
+
+export class SubmissionSourceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SubmissionSourceError';
+  }
+}
+
+// Columns every submission row has besides the form's own fields
+export const SUBMISSION_COLUMNS: Array<{ name: string; type: FieldType; primaryKey?: boolean }> = [
+  { name: 'submissionId', type: 'integer', primaryKey: true },
+  { name: 'submittedAt', type: 'datetime' },
+  { name: 'approvalStatus', type: 'text' },
+  { name: 'approvalReason', type: 'text' },
+  { name: 'requesterId', type: 'integer' },
+  { name: 'approvedById', type: 'integer' },
+  { name: 'approvalUpdatedAt', type: 'datetime' }
+];
+
+const ELEMENT_TYPES: Record<string, FieldType> = {
+  number: 'number',
+  slider: 'number',
+  rating: 'integer',
+  date: 'date',
+  datetime: 'datetime',
+  checkbox: 'boolean',
+  toggle: 'boolean',
+  multiselect: 'json',
+  email: 'email',
+  url: 'url'
+};
+
+// Fields of a form's submissions: its element names, then the submission columns
+export function submissionFields(form: Form): Array<{ name: string; type: string; selected: boolean; primaryKey?: boolean }> {
+  const elements = formValueElements(Array.isArray(form.elements) ? form.elements as FormElement[] : []);
+  const reserved = new Set(SUBMISSION_COLUMNS.map(column => column.name));
+
+  const fields: Array<{ name: string; type: string; selected: boolean; primaryKey?: boolean }> = [];
+  for (const element of elements) {
+    if (!reserved.has(element.name) && !fields.some(field => field.name === element.name)) {
+      fields.push({ name: element.name, type: ELEMENT_TYPES[element.type] || 'text', selected: true });
+    }
+  }
+  for (const column of SUBMISSION_COLUMNS) {
+    fields.push({ ...column, selected: true });
+  }
+  return fields;
+}
+
+async function loadForm(config: Partial<SubmissionSourceConfig>): Promise<Form> {
+  const formId = Number(config.formId);
+  if (!Number.isInteger(formId) || formId <= 0) {
+    throw new SubmissionSourceError('A form is required');
+  }
+  const form = await storage.getForm(formId);
+  if (!form) {
+    throw new SubmissionSourceError(`Form ${formId} no longer exists`);
+  }
+  return form;
+}
+
+// Fields of the submissions source for a form, without reading its submissions
+export async function submissionSourceFields(config: Partial<SubmissionSourceConfig>) {
+  return submissionFields(await loadForm(config));
+}
+
+/**
+ * Rows of a form's submissions, newest first. A submission can have been
+ * sent for approval more than once; the latest request gives its status.
+ */
+export async function readSubmissionRows(
+  config: Partial<SubmissionSourceConfig>,
+  user?: { id: number }
+): Promise<Record<string, any>[]> {
+  const form = await loadForm(config);
+  const [submissions, approvals] = await Promise.all([
+    storage.getFormSubmissions(form.id),
+    storage.getApprovalRequestsByForm(form.id)
+  ]);
+
+  const latestApproval = new Map<number, ApprovalRequest>();
+  for (const approval of approvals) {
+    if (approval.formSubmissionId === null) continue;
+    const previous = latestApproval.get(approval.formSubmissionId);
+    if (!previous || approval.createdAt > previous.createdAt) {
+      latestApproval.set(approval.formSubmissionId, approval);
+    }
+  }
+
+  const rows: Record<string, any>[] = [];
+  for (const submission of submissions) {
+    const approval = latestApproval.get(submission.id);
+    if (config.currentUserOnly && (!user || approval?.requesterId !== user.id)) {
+      continue;
+    }
+    rows.push({
+      ...submittedValues(submission.data),
+      submissionId: submission.id,
+      submittedAt: submission.createdAt,
+      approvalStatus: approval?.status ?? null,
+      approvalReason: approval?.reason ?? null,
+      requesterId: approval?.requesterId ?? null,
+      approvedById: approval?.approvedById ?? null,
+      approvalUpdatedAt: approval?.updatedAt ?? null
+    });
+  }
+  return rows.sort((a, b) => (b.submittedAt?.getTime?.() ?? 0) - (a.submittedAt?.getTime?.() ?? 0));
+}
+
+export async function testSubmissionConnection(config: Partial<SubmissionSourceConfig>, user?: { id: number }) {
+  try {
+    const form = await loadForm(config);
+    const rows = await readSubmissionRows(config, user);
+    return {
+      success: true,
+      message: `Found ${rows.length} submissions of "${form.name}"`,
+      info: {
+        formName: form.name,
+        rowCount: rows.length
+      },
+      fields: submissionFields(form)
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: error instanceof SubmissionSourceError ? error.message : `Failed to read submissions: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+}
@@ -0,0 +1,91 @@
+// Writing form submissions into a table of a database data source, as set
+// up in a form's submission target. The submission itself is always kept in
+// form_submissions too, as the audit copy.
+
+import type { DataSource, SubmissionTarget } from '@shared/schema';
+import { getKeyColumns } from '@shared/row-key';
+import { isReadOnlyConfig } from './database/statement-guard';
+import { DataWriteError } from './database/data-write';
+import { coerceFieldValue } from './field-types';
+
+// Outcome of writing one submitted row to the target table
+export interface SubmissionTargetResult {
+  success: boolean;
+  action?: 'insert' | 'update';
+  affectedRows: number;
+  row?: Record<string, any>;
+  message?: string;
+}
+
+// Columns matched on when upserting
+export function targetKeyColumns(target: SubmissionTarget, dataSource: DataSource): string[] {
+  return target.keyColumns && target.keyColumns.length > 0 ? target.keyColumns : getKeyColumns(dataSource.fields);
+}
+
+// The reason a submission target can't be written to, checked when the form is saved and on submit
+export function submissionTargetError(target: SubmissionTarget, dataSource: DataSource | undefined): string | undefined {
+  if (!dataSource) {
+    return `Data source ${target.dataSourceId} not found`;
+  }
+  if (dataSource.type !== 'database') {
+    return 'Submissions can only be written to database data sources';
+  }
+
+  const config = typeof dataSource.config === 'string' ? JSON.parse(dataSource.config) : (dataSource.config as any || {});
+  if (isReadOnlyConfig(config)) {
+    return `Data source "${dataSource.name}" is read-only; allow writes in its settings first`;
+  }
+
+  const knownColumns = Array.isArray(dataSource.fields) ? (dataSource.fields as Array<{ name: string }>).map(field => field.name) : [];
+  const unknownColumn = target.mappings.find(mapping => knownColumns.length > 0 && !knownColumns.includes(mapping.column));
+  if (unknownColumn) {
+    return `Data source "${dataSource.name}" has no column "${unknownColumn.column}"`;
+  }
+
+  if (target.mode === 'upsert') {
+    const keyColumns = targetKeyColumns(target, dataSource);
+    if (keyColumns.length === 0) {
+      return 'Upserting needs key columns: pick them for the target or mark them in the data source fields';
+    }
+    const unmappedKey = keyColumns.find(column => !target.mappings.some(mapping => mapping.column === column));
+    if (unmappedKey) {
+      return `Key column "${unmappedKey}" must be mapped from a form field`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * A submission's values for the target table, typed like its columns.
+ * Blank fields are left out so the columns' defaults apply.
+ */
+export function mapSubmissionRow(
+  target: SubmissionTarget,
+  values: Record<string, any>,
+  fields: unknown
+): Record<string, any> {
+  const types = new Map(
+    (Array.isArray(fields) ? fields as Array<{ name: string; type: string }> : []).map(field => [field.name, field.type])
+  );
+
+  const row: Record<string, any> = {};
+  for (const mapping of target.mappings) {
+    const value = values[mapping.field];
+    if (value === undefined || value === '') continue;
+    const type = types.get(mapping.column);
+    row[mapping.column] = type ? coerceFieldValue(value, type) : value;
+  }
+  return row;
+}
+
+// The key of the row an upsert updates; every key column needs a submitted value
+export function submissionRowKey(keyColumns: string[], row: Record<string, any>): Record<string, any> {
+  const key: Record<string, any> = {};
+  for (const column of keyColumns) {
+    if (row[column] === undefined || row[column] === null) {
+      throw new DataWriteError(`No value submitted for key column "${column}"`);
+    }
+    key[column] = row[column];
+  }
+  return key;
+}
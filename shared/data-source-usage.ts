@@ -0,0 +1,137 @@
+/**
+ * Where data sources are used: by form elements (`dataSourceId`, or the
+ * legacy `dataSource.id`), as a form's own data source or submission target,
+ * and as a side of a join. Used to warn before a data source is deleted and
+ * to move everything from one data source to another.
+ */
+
+import type { DataSource, Form, FormElement, SubmissionTarget } from './schema';
+
+export type DataSourceUsage =
+  | { kind: 'element'; formId: number; formName: string; elementId: string; elementLabel: string }
+  | { kind: 'form'; formId: number; formName: string }
+  | { kind: 'submissionTarget'; formId: number; formName: string }
+  | { kind: 'join'; dataSourceId: number; dataSourceName: string };
+
+// Ids come from the form builder as numbers, or as strings in the legacy format
+function sourceId(value: unknown): number | undefined {
+  const id = typeof value === 'number' ? value : typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+  return Number.isInteger(id) ? id : undefined;
+}
+
+// Data sources an element reads itself, not counting the elements inside it
+export function elementSourceIds(element: FormElement): number[] {
+  const ids = [sourceId(element.dataSourceId), sourceId(element.dataSource?.id)];
+  return Array.from(new Set(ids.filter((id): id is number => id !== undefined)));
+}
+
+// Every element of a form, including those inside columns, tabs and sections
+export function walkElements(elements: FormElement[], visit: (element: FormElement) => void) {
+  for (const element of elements || []) {
+    visit(element);
+    for (const column of element.columns || []) {
+      walkElements(column.elements || [], visit);
+    }
+    for (const tab of element.tabs || []) {
+      walkElements(tab.elements || [], visit);
+    }
+    walkElements(element.elements || [], visit);
+  }
+}
+
+function joinSides(dataSource: DataSource): number[] {
+  if (dataSource.type !== 'join' || !dataSource.config) {
+    return [];
+  }
+  const config = typeof dataSource.config === 'string' ? JSON.parse(dataSource.config) : dataSource.config as any;
+  return [sourceId(config.leftSourceId), sourceId(config.rightSourceId)].filter((id): id is number => id !== undefined);
+}
+
+// Every use of every data source, by data source id
+export function dataSourceUsages(forms: Form[], dataSources: DataSource[]): Map<number, DataSourceUsage[]> {
+  const usages = new Map<number, DataSourceUsage[]>();
+  const add = (id: number, usage: DataSourceUsage) => {
+    usages.set(id, [...usages.get(id) || [], usage]);
+  };
+
+  for (const form of forms) {
+    walkElements(Array.isArray(form.elements) ? form.elements as FormElement[] : [], element => {
+      for (const id of elementSourceIds(element)) {
+        add(id, { kind: 'element', formId: form.id, formName: form.name, elementId: element.id, elementLabel: element.label || element.name || element.id });
+      }
+    });
+    const formSourceId = sourceId(form.dataSourceId);
+    if (formSourceId !== undefined) {
+      add(formSourceId, { kind: 'form', formId: form.id, formName: form.name });
+    }
+    const targetId = sourceId((form.submissionTarget as SubmissionTarget | null)?.dataSourceId);
+    if (targetId !== undefined) {
+      add(targetId, { kind: 'submissionTarget', formId: form.id, formName: form.name });
+    }
+  }
+
+  for (const dataSource of dataSources) {
+    for (const id of Array.from(new Set(joinSides(dataSource)))) {
+      add(id, { kind: 'join', dataSourceId: dataSource.id, dataSourceName: dataSource.name });
+    }
+  }
+  return usages;
+}
+
+// A form's elements with every use of one data source pointed at another; undefined when nothing changed
+export function rebindElements(elements: FormElement[], fromId: number, toId: number): FormElement[] | undefined {
+  let changed = false;
+  const rebind = (list: FormElement[] | undefined): FormElement[] | undefined => list?.map(element => {
+    const next: FormElement = { ...element };
+    if (sourceId(element.dataSourceId) === fromId) {
+      next.dataSourceId = toId;
+      changed = true;
+    }
+    if (element.dataSource && sourceId(element.dataSource.id) === fromId) {
+      next.dataSource = { ...element.dataSource, id: String(toId) };
+      changed = true;
+    }
+    if (element.columns) {
+      // Data table columns have no elements and are kept as they are
+      next.columns = element.columns.map((column: any) => column.elements ? { ...column, elements: rebind(column.elements) } : column);
+    }
+    if (element.tabs) {
+      next.tabs = element.tabs.map((tab: any) => ({ ...tab, elements: rebind(tab.elements) }));
+    }
+    if (element.elements) {
+      next.elements = rebind(element.elements);
+    }
+    return next;
+  });
+
+  const result = rebind(elements);
+  return changed ? result : undefined;
+}
+
+// A join's config with one side's data source replaced; undefined when it doesn't read `fromId`
+export function rebindJoinConfig(dataSource: DataSource, fromId: number, toId: number): Record<string, any> | undefined {
+  if (!joinSides(dataSource).includes(fromId)) {
+    return undefined;
+  }
+  const config = typeof dataSource.config === 'string' ? JSON.parse(dataSource.config) : { ...dataSource.config as any };
+  for (const side of ['leftSourceId', 'rightSourceId']) {
+    if (sourceId(config[side]) === fromId) {
+      config[side] = toId;
+    }
+  }
+  return config;
+}
+
+// One line for a use of a data source, as listed before it is deleted or rebound
+export function describeUsage(usage: DataSourceUsage): string {
+  switch (usage.kind) {
+    case 'element':
+      return `Form "${usage.formName}": ${usage.elementLabel}`;
+    case 'form':
+      return `Form "${usage.formName}"`;
+    case 'submissionTarget':
+      return `Form "${usage.formName}": submission target`;
+    case 'join':
+      return `Joined source "${usage.dataSourceName}"`;
+  }
+}
@@ -0,0 +1,42 @@
+// How each database backend is configured, as served by
+// GET /api/datasources/backends. The data source editor renders a backend's
+// connection settings from its fields, so adding a backend needs no changes
+// to the editor.
+
+export interface BackendConfigField {
+  // The config key the value is saved under
+  key: string;
+  label: string;
+  // Password fields are masked; their key should be one of SECRET_CONFIG_KEYS
+  // so the value is also encrypted at rest
+  type: 'text' | 'password' | 'number';
+  placeholder?: string;
+  help?: string;
+  // Filled in when the environment's database is used, e.g. localhost
+  defaultValue?: string;
+  required?: boolean;
+  // Not required when this other field is filled in, e.g. a connection string
+  requiredUnless?: string;
+  // Spans both columns of the form
+  fullWidth?: boolean;
+  // Set from the table or collection picked in the schema browser
+  fromTable?: 'table' | 'schema';
+}
+
+export interface DatabaseBackendInfo {
+  type: string;
+  label: string;
+  // Rows are documents of collections, queried with MongoDB filters and pipelines
+  documents: boolean;
+  // Whether "Use default environment database" connects this backend to DATABASE_URL
+  defaultDatabase: boolean;
+  fields: BackendConfigField[];
+}
+
+// Required fields left empty in a backend's connection settings
+export function missingConfigFields(fields: BackendConfigField[], config: Record<string, any>): BackendConfigField[] {
+  const isSet = (key: string) => config[key] !== undefined && config[key] !== null && String(config[key]).trim() !== '';
+  return fields.filter(field =>
+    field.required && !isSet(field.key) && !(field.requiredUnless && isSet(field.requiredUnless))
+  );
+}
@@ -0,0 +1,51 @@
+// Field types of data source columns. Connectors report native types
+// ("character varying", "bigint", "datetime2", ...); these are the types the
+// app works with, which a user can also pick to override what was detected.
+
+export const FIELD_TYPES = ['text', 'number', 'integer', 'boolean', 'date', 'datetime', 'email', 'url', 'json'] as const;
+
+export type FieldType = typeof FIELD_TYPES[number];
+
+// Display formats offered per type; values are date-fns patterns for dates
+export const FIELD_FORMATS: Partial<Record<FieldType, Array<{ value: string; label: string }>>> = {
+  number: [
+    { value: '#,##0.##', label: '1,234.5' },
+    { value: '#,##0.00', label: '1,234.50' },
+    { value: '0.00', label: '1234.50' },
+    { value: '0%', label: 'Percent' }
+  ],
+  integer: [
+    { value: '#,##0', label: '1,234' },
+    { value: '0', label: '1234' }
+  ],
+  date: [
+    { value: 'yyyy-MM-dd', label: '2024-03-31' },
+    { value: 'MM/dd/yyyy', label: '03/31/2024' },
+    { value: 'dd/MM/yyyy', label: '31/03/2024' },
+    { value: 'd MMM yyyy', label: '31 Mar 2024' }
+  ],
+  datetime: [
+    { value: 'yyyy-MM-dd HH:mm', label: '2024-03-31 14:05' },
+    { value: 'MM/dd/yyyy h:mm a', label: '03/31/2024 2:05 PM' },
+    { value: 'dd/MM/yyyy HH:mm', label: '31/03/2024 14:05' },
+    { value: 'd MMM yyyy HH:mm', label: '31 Mar 2024 14:05' }
+  ],
+  boolean: [
+    { value: 'Yes/No', label: 'Yes / No' },
+    { value: 'true/false', label: 'true / false' }
+  ]
+};
+
+// The app's type for a native or previously stored type name
+export function normalizeFieldType(type: string | undefined | null): FieldType {
+  const name = String(type ?? '').trim().toLowerCase();
+  if ((FIELD_TYPES as readonly string[]).includes(name)) {
+    return name as FieldType;
+  }
+  if (/^(big|small|tiny|medium)?int(eger)?\d*$|serial|^long$/.test(name)) return 'integer';
+  if (/numeric|decimal|float|double|real|money|number/.test(name)) return 'number';
+  if (/bool|^bit$/.test(name)) return 'boolean';
+  if (/timestamp|datetime/.test(name)) return 'datetime';
+  if (/json|array|^object$/.test(name)) return 'json';
+  return 'text';
+}
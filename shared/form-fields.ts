@@ -0,0 +1,71 @@
+import type { FormElement } from "./schema";
+import { walkElements } from "./data-source-usage";
+import { formulaSyntaxError } from "./formula";
+
+// Elements that lay out or act on a form rather than hold a submitted value
+const LAYOUT_ELEMENTS = new Set([
+  "section", "column", "divider", "button", "datatable", "chart", "spacer", "tabs", "accordion", "html"
+]);
+
+// Every value-holding element of a form, including those inside columns, tabs and sections
+export function formValueElements(elements: FormElement[]): FormElement[] {
+  const found: FormElement[] = [];
+  for (const element of elements || []) {
+    if (element.name && !LAYOUT_ELEMENTS.has(element.type)) {
+      found.push(element);
+    }
+    for (const column of element.columns || []) {
+      found.push(...formValueElements(column.elements || []));
+    }
+    for (const tab of element.tabs || []) {
+      found.push(...formValueElements(tab.elements || []));
+    }
+    found.push(...formValueElements(element.elements || []));
+  }
+  return found;
+}
+
+// Submissions posted as { formId, data, submittedBy } carry the form's values under `data`
+export function submittedValues(body: unknown): Record<string, any> {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return {};
+  }
+  const record = body as Record<string, any>;
+  return "formId" in record && record.data && typeof record.data === "object" && !Array.isArray(record.data)
+    ? record.data
+    : record;
+}
+
+// The formulas of an element: its filter, and its button's validation and actions
+function elementFormulas(element: FormElement): Array<string | undefined> {
+  return [
+    element.filterExpression,
+    element.buttonAction?.validationRules,
+    element.buttonAction?.onSuccess,
+    element.buttonAction?.onError
+  ];
+}
+
+/**
+ * The first formula among a form's elements that doesn't parse, named after
+ * its element. Formulas already saved in `previousElements` are let through
+ * unchanged, so forms written before the formula language (with JavaScript
+ * rules) can still be saved until that rule is edited.
+ */
+export function formFormulaError(elements: unknown, previousElements?: unknown): string | undefined {
+  const saved = new Set<string | undefined>();
+  walkElements(Array.isArray(previousElements) ? previousElements as FormElement[] : [], element => {
+    elementFormulas(element).forEach(formula => saved.add(formula));
+  });
+
+  let found: string | undefined;
+  walkElements(Array.isArray(elements) ? elements as FormElement[] : [], element => {
+    for (const formula of elementFormulas(element)) {
+      const error = found || saved.has(formula) ? undefined : formulaSyntaxError(formula);
+      if (error) {
+        found = `"${element.label || element.name || element.id}": ${error}`;
+      }
+    }
+  });
+  return found;
+}
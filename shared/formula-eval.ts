@@ -0,0 +1,613 @@
+// The interpreter for formulas parsed by formula.ts. Formulas only read the
+// values they are given and can only act through the callbacks in `actions`,
+// so a form author's formula can't reach anything else in the page.
+
+import { FormulaError, parseFormula, type FormulaNode } from './formula';
+
+export type FormulaRecord = { [column: string]: unknown };
+export type FormulaValue = number | string | boolean | null | Date | FormulaRecord | FormulaValue[];
+
+export interface FormulaScope {
+  // The form's fields: names in single quotes, and bare names outside any record
+  form?: Record<string, unknown>;
+  // The record bare names are read from, e.g. the row a table is filtering
+  record?: FormulaRecord;
+  // Extra names, e.g. ErrorMessage in a button's error action
+  variables?: Record<string, unknown>;
+  // What Notify and Navigate do; formulas without them can't use those functions
+  actions?: {
+    notify?: (message: string, kind: string) => void;
+    navigate?: (target: string) => void;
+  };
+}
+
+interface Environment {
+  scope: FormulaScope;
+  // Records of the enclosing Filter, LookUp, ... calls, innermost last
+  records: FormulaRecord[];
+}
+
+type FormulaFunction = {
+  min: number;
+  max: number;
+  // Lazy functions get their arguments unevaluated, e.g. to run one per record
+  lazy?: boolean;
+  run: (args: any[], env: Environment, node: CallNode) => FormulaValue;
+};
+
+type CallNode = Extract<FormulaNode, { kind: 'call' }>;
+
+const hasOwn = (value: object, key: string) => Object.prototype.hasOwnProperty.call(value, key);
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || value === '';
+}
+
+function isRecord(value: unknown): value is FormulaRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function typeName(value: unknown): string {
+  if (Array.isArray(value)) return 'a table';
+  if (value instanceof Date) return 'a date';
+  if (isRecord(value)) return 'a record';
+  if (typeof value === 'string') return `text "${value}"`;
+  return String(value);
+}
+
+// Values from forms and rows arrive as JSON; anything else reads as blank
+function fromInput(value: unknown): FormulaValue {
+  if (value === undefined || typeof value === 'function' || typeof value === 'symbol') {
+    return null;
+  }
+  if (typeof value === 'bigint') {
+    return Number(value);
+  }
+  return value as FormulaValue;
+}
+
+function toNumber(value: unknown, position: number): number {
+  if (isBlank(value)) return 0;
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) return Number(value);
+  if (value instanceof Date) return value.getTime();
+  throw new FormulaError(`Expected a number but got ${typeName(value)}`, position);
+}
+
+function isNumeric(value: unknown): boolean {
+  return typeof value === 'number' ||
+    typeof value === 'boolean' ||
+    (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value)));
+}
+
+function toText(value: unknown, position: number): string {
+  if (isBlank(value)) return '';
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (value instanceof Date) return value.toISOString();
+  throw new FormulaError(`Expected text but got ${typeName(value)}`, position);
+}
+
+function toBoolean(value: unknown, position: number): boolean {
+  if (isBlank(value)) return false;
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value !== 0;
+  if (typeof value === 'string' && /^(true|false)$/i.test(value.trim())) return value.trim().toLowerCase() === 'true';
+  throw new FormulaError(`Expected true or false but got ${typeName(value)}`, position);
+}
+
+function toDate(value: unknown, position: number): Date | null {
+  if (isBlank(value)) return null;
+  if (value instanceof Date) return value;
+  if (typeof value === 'string' || typeof value === 'number') {
+    const date = new Date(value);
+    if (!isNaN(date.getTime())) return date;
+  }
+  throw new FormulaError(`Expected a date but got ${typeName(value)}`, position);
+}
+
+function toTable(value: unknown, position: number): FormulaValue[] {
+  if (isBlank(value)) return [];
+  if (Array.isArray(value)) return value;
+  throw new FormulaError(`Expected a table but got ${typeName(value)}`, position);
+}
+
+// Single-column tables ([1, 2, 3]) hold their values in a Value column
+function recordValue(item: unknown): unknown {
+  return isRecord(item) && Object.keys(item).length === 1 && hasOwn(item, 'Value') ? item.Value : item;
+}
+
+function equal(left: unknown, right: unknown, position: number): boolean {
+  if (isBlank(left) || isBlank(right)) {
+    return isBlank(left) && isBlank(right);
+  }
+  if (left instanceof Date || right instanceof Date) {
+    return toDate(left, position)!.getTime() === toDate(right, position)!.getTime();
+  }
+  if (typeof left === 'number' || typeof right === 'number') {
+    return isNumeric(left) && isNumeric(right) && toNumber(left, position) === toNumber(right, position);
+  }
+  if (typeof left === 'boolean' || typeof right === 'boolean') {
+    return String(left).toLowerCase() === String(right).toLowerCase();
+  }
+  return toText(left, position) === toText(right, position);
+}
+
+function compare(left: unknown, right: unknown, position: number): number {
+  if (left instanceof Date || right instanceof Date) {
+    return (toDate(left, position)?.getTime() ?? 0) - (toDate(right, position)?.getTime() ?? 0);
+  }
+  if ((isNumeric(left) || isBlank(left)) && (isNumeric(right) || isBlank(right))) {
+    return toNumber(left, position) - toNumber(right, position);
+  }
+  const a = toText(left, position);
+  const b = toText(right, position);
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+const TIME_UNITS: Record<string, number> = {
+  milliseconds: 1,
+  seconds: 1000,
+  minutes: 60 * 1000,
+  hours: 60 * 60 * 1000,
+  days: 24 * 60 * 60 * 1000
+};
+
+// Units are written as text ("Days"), a bare name (Days) or TimeUnit.Days
+function timeUnit(node: FormulaNode | undefined, env: Environment): string {
+  if (!node) return 'days';
+  const unit = node.kind === 'name'
+    ? node.name
+    : node.kind === 'member' && node.object.kind === 'name' && node.object.name === 'TimeUnit'
+      ? node.name
+      : toText(evaluate(node, env), node.position);
+  const lower = unit.toLowerCase();
+  if (!hasOwn(TIME_UNITS, lower) && !['months', 'quarters', 'years'].includes(lower)) {
+    throw new FormulaError(`Unknown time unit "${unit}"`, node.position);
+  }
+  return lower;
+}
+
+// Jan 31 plus a month is the last day of February, not a day in March
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date);
+  result.setDate(1);
+  result.setMonth(result.getMonth() + months);
+  const lastDay = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+  result.setDate(Math.min(date.getDate(), lastDay));
+  return result;
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+// Evaluate an expression once per record of a table, with the record's columns in scope
+function perRecord(table: FormulaValue[], expression: FormulaNode, env: Environment): FormulaValue[] {
+  return table.map(item => {
+    const record = isRecord(item) ? item : { Value: item };
+    return evaluate(expression, { ...env, records: [...env.records, record] });
+  });
+}
+
+function matching(table: FormulaValue[], predicates: FormulaNode[], env: Environment): FormulaValue[] {
+  return table.filter(item => {
+    const record = isRecord(item) ? item : { Value: item };
+    const inner = { ...env, records: [...env.records, record] };
+    return predicates.every(predicate => toBoolean(evaluate(predicate, inner), predicate.position));
+  });
+}
+
+// Sum, Average, Min and Max take a table and a formula per record, or the numbers themselves
+function aggregateArgs(args: FormulaNode[], env: Environment): number[] {
+  const first = evaluate(args[0], env);
+  if (Array.isArray(first)) {
+    if (args.length !== 2) {
+      throw new FormulaError('Give a table and a formula to evaluate for each record', args[0].position);
+    }
+    return perRecord(first, args[1], env)
+      .filter(value => !isBlank(value))
+      .map(value => toNumber(value, args[1].position));
+  }
+  return [first, ...args.slice(1).map(arg => evaluate(arg, env))]
+    .map((value, index) => ({ value, position: args[index].position }))
+    .filter(({ value }) => !isBlank(value))
+    .map(({ value, position }) => toNumber(value, position));
+}
+
+function textArgs(fn: (...texts: string[]) => FormulaValue): FormulaFunction['run'] {
+  return (args, env, node) => fn(...args.map((arg, index) => toText(arg, node.args[index].position)));
+}
+
+function dateArg(fn: (date: Date) => FormulaValue): FormulaFunction['run'] {
+  return (args, env, node) => {
+    const date = toDate(args[0], node.args[0].position);
+    return date ? fn(date) : null;
+  };
+}
+
+function round(value: number, digits: number, mode: (n: number) => number): number {
+  const factor = Math.pow(10, digits);
+  return mode(value * factor) / factor;
+}
+
+const FUNCTIONS: Record<string, FormulaFunction> = {
+  // Logic
+  if: {
+    min: 2, max: Infinity, lazy: true,
+    run: (args: FormulaNode[], env) => {
+      // If(condition, result, [condition2, result2, ...], [default])
+      for (let index = 0; index + 1 < args.length; index += 2) {
+        if (toBoolean(evaluate(args[index], env), args[index].position)) {
+          return evaluate(args[index + 1], env);
+        }
+      }
+      return args.length % 2 === 1 ? evaluate(args[args.length - 1], env) : null;
+    }
+  },
+  and: {
+    min: 1, max: Infinity, lazy: true,
+    run: (args: FormulaNode[], env) => args.every(arg => toBoolean(evaluate(arg, env), arg.position))
+  },
+  or: {
+    min: 1, max: Infinity, lazy: true,
+    run: (args: FormulaNode[], env) => args.some(arg => toBoolean(evaluate(arg, env), arg.position))
+  },
+  not: { min: 1, max: 1, run: (args, env, node) => !toBoolean(args[0], node.args[0].position) },
+  coalesce: {
+    min: 1, max: Infinity, lazy: true,
+    run: (args: FormulaNode[], env) => {
+      for (const arg of args) {
+        const value = evaluate(arg, env);
+        if (!isBlank(value)) return value;
+      }
+      return null;
+    }
+  },
+  blank: { min: 0, max: 0, run: () => null },
+  isblank: { min: 1, max: 1, run: args => isBlank(args[0]) },
+  isempty: { min: 1, max: 1, run: args => !Array.isArray(args[0]) || args[0].length === 0 },
+  isnumeric: { min: 1, max: 1, run: args => isNumeric(args[0]) },
+
+  // Tables
+  filter: {
+    min: 2, max: Infinity, lazy: true,
+    run: (args: FormulaNode[], env) => matching(toTable(evaluate(args[0], env), args[0].position), args.slice(1), env)
+  },
+  lookup: {
+    min: 2, max: 3, lazy: true,
+    run: (args: FormulaNode[], env) => {
+      const [found] = matching(toTable(evaluate(args[0], env), args[0].position), [args[1]], env);
+      if (found === undefined) return null;
+      return args[2] ? perRecord([found], args[2], env)[0] : found;
+    }
+  },
+  countrows: { min: 1, max: 1, run: (args, env, node) => toTable(args[0], node.args[0].position).length },
+  countif: {
+    min: 2, max: Infinity, lazy: true,
+    run: (args: FormulaNode[], env) => matching(toTable(evaluate(args[0], env), args[0].position), args.slice(1), env).length
+  },
+  first: { min: 1, max: 1, run: (args, env, node) => toTable(args[0], node.args[0].position)[0] ?? null },
+  last: {
+    min: 1, max: 1,
+    run: (args, env, node) => {
+      const table = toTable(args[0], node.args[0].position);
+      return table[table.length - 1] ?? null;
+    }
+  },
+  sum: { min: 1, max: Infinity, lazy: true, run: (args: FormulaNode[], env) => aggregateArgs(args, env).reduce((sum, value) => sum + value, 0) },
+  average: {
+    min: 1, max: Infinity, lazy: true,
+    run: (args: FormulaNode[], env) => {
+      const values = aggregateArgs(args, env);
+      return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+    }
+  },
+  min: {
+    min: 1, max: Infinity, lazy: true,
+    run: (args: FormulaNode[], env) => {
+      const values = aggregateArgs(args, env);
+      return values.length > 0 ? Math.min(...values) : null;
+    }
+  },
+  max: {
+    min: 1, max: Infinity, lazy: true,
+    run: (args: FormulaNode[], env) => {
+      const values = aggregateArgs(args, env);
+      return values.length > 0 ? Math.max(...values) : null;
+    }
+  },
+
+  // Text
+  len: { min: 1, max: 1, run: textArgs(text => text.length) },
+  upper: { min: 1, max: 1, run: textArgs(text => text.toUpperCase()) },
+  lower: { min: 1, max: 1, run: textArgs(text => text.toLowerCase()) },
+  trim: { min: 1, max: 1, run: textArgs(text => text.trim().replace(/\s+/g, ' ')) },
+  left: { min: 2, max: 2, run: (args, env, node) => toText(args[0], node.args[0].position).slice(0, Math.max(0, toNumber(args[1], node.args[1].position))) },
+  right: {
+    min: 2, max: 2,
+    run: (args, env, node) => {
+      const text = toText(args[0], node.args[0].position);
+      const count = Math.max(0, toNumber(args[1], node.args[1].position));
+      return count === 0 ? '' : text.slice(-count);
+    }
+  },
+  mid: {
+    min: 2, max: 3,
+    run: (args, env, node) => {
+      // Positions start at 1
+      const text = toText(args[0], node.args[0].position);
+      const start = toNumber(args[1], node.args[1].position);
+      if (start < 1) {
+        throw new FormulaError('Mid starts at position 1 or later', node.args[1].position);
+      }
+      return args.length > 2
+        ? text.substr(start - 1, Math.max(0, toNumber(args[2], node.args[2].position)))
+        : text.slice(start - 1);
+    }
+  },
+  concatenate: { min: 1, max: Infinity, run: textArgs((...texts) => texts.join('')) },
+  text: { min: 1, max: 1, run: (args, env, node) => toText(args[0], node.args[0].position) },
+  value: {
+    min: 1, max: 1,
+    run: (args, env, node) => isBlank(args[0]) ? null : toNumber(args[0], node.args[0].position)
+  },
+  startswith: { min: 2, max: 2, run: textArgs((text, prefix) => text.toLowerCase().startsWith(prefix.toLowerCase())) },
+  endswith: { min: 2, max: 2, run: textArgs((text, suffix) => text.toLowerCase().endsWith(suffix.toLowerCase())) },
+  contains: { min: 2, max: 2, run: textArgs((text, part) => text.toLowerCase().includes(part.toLowerCase())) },
+  find: {
+    min: 2, max: 3,
+    run: (args, env, node) => {
+      // Find(text to find, text to search, [start]) is the 1-based position, or blank
+      const start = args.length > 2 ? toNumber(args[2], node.args[2].position) : 1;
+      const index = toText(args[1], node.args[1].position).indexOf(toText(args[0], node.args[0].position), Math.max(0, start - 1));
+      return index === -1 ? null : index + 1;
+    }
+  },
+  substitute: { min: 3, max: 3, run: textArgs((text, old, replacement) => old === '' ? text : text.split(old).join(replacement)) },
+
+  // Dates
+  now: { min: 0, max: 0, run: () => new Date() },
+  today: { min: 0, max: 0, run: () => startOfDay(new Date()) },
+  date: {
+    min: 3, max: 3,
+    run: (args, env, node) => new Date(
+      toNumber(args[0], node.args[0].position),
+      toNumber(args[1], node.args[1].position) - 1,
+      toNumber(args[2], node.args[2].position)
+    )
+  },
+  datevalue: { min: 1, max: 1, run: (args, env, node) => toDate(args[0], node.args[0].position) },
+  year: { min: 1, max: 1, run: dateArg(date => date.getFullYear()) },
+  month: { min: 1, max: 1, run: dateArg(date => date.getMonth() + 1) },
+  day: { min: 1, max: 1, run: dateArg(date => date.getDate()) },
+  hour: { min: 1, max: 1, run: dateArg(date => date.getHours()) },
+  minute: { min: 1, max: 1, run: dateArg(date => date.getMinutes()) },
+  // 1 is Sunday, as in PowerApps
+  weekday: { min: 1, max: 1, run: dateArg(date => date.getDay() + 1) },
+  dateadd: {
+    min: 2, max: 3, lazy: true,
+    run: (args: FormulaNode[], env) => {
+      const date = toDate(evaluate(args[0], env), args[0].position);
+      if (!date) return null;
+      const amount = toNumber(evaluate(args[1], env), args[1].position);
+      const unit = timeUnit(args[2], env);
+      if (unit === 'months' || unit === 'quarters' || unit === 'years') {
+        return addMonths(date, amount * (unit === 'years' ? 12 : unit === 'quarters' ? 3 : 1));
+      }
+      return new Date(date.getTime() + amount * TIME_UNITS[unit]);
+    }
+  },
+  datediff: {
+    min: 2, max: 3, lazy: true,
+    run: (args: FormulaNode[], env) => {
+      const start = toDate(evaluate(args[0], env), args[0].position);
+      const end = toDate(evaluate(args[1], env), args[1].position);
+      if (!start || !end) return null;
+      const unit = timeUnit(args[2], env);
+      if (unit === 'months' || unit === 'quarters' || unit === 'years') {
+        const months = (end.getFullYear() - start.getFullYear()) * 12 + end.getMonth() - start.getMonth();
+        return Math.trunc(months / (unit === 'years' ? 12 : unit === 'quarters' ? 3 : 1));
+      }
+      // Days count calendar days, not 24-hour periods
+      if (unit === 'days') {
+        return Math.round((startOfDay(end).getTime() - startOfDay(start).getTime()) / TIME_UNITS.days);
+      }
+      return Math.trunc((end.getTime() - start.getTime()) / TIME_UNITS[unit]);
+    }
+  },
+
+  // Numbers
+  abs: { min: 1, max: 1, run: (args, env, node) => Math.abs(toNumber(args[0], node.args[0].position)) },
+  mod: {
+    min: 2, max: 2,
+    run: (args, env, node) => {
+      const divisor = toNumber(args[1], node.args[1].position);
+      if (divisor === 0) {
+        throw new FormulaError('Division by zero', node.args[1].position);
+      }
+      const value = toNumber(args[0], node.args[0].position);
+      // The result takes the divisor's sign
+      return ((value % divisor) + divisor) % divisor;
+    }
+  },
+  round: { min: 2, max: 2, run: (args, env, node) => round(toNumber(args[0], node.args[0].position), toNumber(args[1], node.args[1].position), Math.round) },
+  roundup: { min: 2, max: 2, run: (args, env, node) => round(toNumber(args[0], node.args[0].position), toNumber(args[1], node.args[1].position), n => Math.sign(n) * Math.ceil(Math.abs(n))) },
+  rounddown: { min: 2, max: 2, run: (args, env, node) => round(toNumber(args[0], node.args[0].position), toNumber(args[1], node.args[1].position), Math.trunc) },
+
+  // Actions, for button formulas
+  notify: {
+    min: 1, max: 2,
+    run: (args, env, node) => {
+      const notify = env.scope.actions?.notify;
+      if (!notify) {
+        throw new FormulaError('Notify can only be used in button actions', node.position);
+      }
+      notify(toText(args[0], node.args[0].position), args.length > 1 ? toText(args[1], node.args[1].position).toLowerCase() : 'info');
+      return true;
+    }
+  },
+  navigate: {
+    min: 1, max: 1,
+    run: (args, env, node) => {
+      const navigate = env.scope.actions?.navigate;
+      if (!navigate) {
+        throw new FormulaError('Navigate can only be used in button actions', node.position);
+      }
+      navigate(toText(args[0], node.args[0].position));
+      return true;
+    }
+  }
+};
+
+function lookupName(name: string, env: Environment, position: number): FormulaValue {
+  if (name === 'ThisRecord') {
+    const record = env.records[env.records.length - 1];
+    if (!record) {
+      throw new FormulaError('ThisRecord can only be used inside Filter, LookUp and similar functions', position);
+    }
+    return record;
+  }
+  for (let index = env.records.length - 1; index >= 0; index--) {
+    if (hasOwn(env.records[index], name)) {
+      return fromInput(env.records[index][name]);
+    }
+  }
+  const { variables, form } = env.scope;
+  if (variables && hasOwn(variables, name)) {
+    return fromInput(variables[name]);
+  }
+  if (form && hasOwn(form, name)) {
+    return fromInput(form[name]);
+  }
+  // Rows often leave out empty columns
+  return null;
+}
+
+function evaluate(node: FormulaNode, env: Environment): FormulaValue {
+  switch (node.kind) {
+    case 'number':
+    case 'string':
+    case 'boolean':
+      return node.value;
+    case 'name':
+      return lookupName(node.name, env, node.position);
+    case 'formField': {
+      const { form } = env.scope;
+      return form && hasOwn(form, node.name) ? fromInput(form[node.name]) : null;
+    }
+    case 'table':
+      return node.items.map(item => {
+        const value = evaluate(item, env);
+        return isRecord(value) ? value : { Value: value };
+      });
+    case 'member': {
+      const object = evaluate(node.object, env);
+      if (isBlank(object)) return null;
+      if (!isRecord(object)) {
+        throw new FormulaError(`Can't read column "${node.name}" of ${typeName(object)}`, node.position);
+      }
+      return hasOwn(object, node.name) ? fromInput(object[node.name]) : null;
+    }
+    case 'call': {
+      const fn = hasOwn(FUNCTIONS, node.name.toLowerCase()) ? FUNCTIONS[node.name.toLowerCase()] : undefined;
+      if (!fn) {
+        throw new FormulaError(`Unknown function ${node.name}`, node.position);
+      }
+      if (node.args.length < fn.min || node.args.length > fn.max) {
+        const expected = fn.min === fn.max
+          ? `${fn.min} argument${fn.min === 1 ? '' : 's'}`
+          : fn.max === Infinity ? `at least ${fn.min} argument${fn.min === 1 ? '' : 's'}` : `${fn.min} to ${fn.max} arguments`;
+        throw new FormulaError(`${node.name} takes ${expected}, not ${node.args.length}`, node.position);
+      }
+      return fn.run(fn.lazy ? node.args : node.args.map(arg => evaluate(arg, env)), env, node);
+    }
+    case 'unary': {
+      const operand = evaluate(node.operand, env);
+      return node.operator === '-'
+        ? -toNumber(operand, node.operand.position)
+        : !toBoolean(operand, node.operand.position);
+    }
+    case 'sequence': {
+      let result: FormulaValue = null;
+      for (const step of node.steps) {
+        result = evaluate(step, env);
+      }
+      return result;
+    }
+    case 'binary':
+      return evaluateBinary(node, env);
+  }
+}
+
+function evaluateBinary(node: Extract<FormulaNode, { kind: 'binary' }>, env: Environment): FormulaValue {
+  const { operator, position } = node;
+  // The right side of && and || only runs when it decides the result
+  if (operator === '&&' || operator === '||') {
+    const left = toBoolean(evaluate(node.left, env), node.left.position);
+    if (operator === '&&' ? !left : left) {
+      return left;
+    }
+    return toBoolean(evaluate(node.right, env), node.right.position);
+  }
+
+  const left = evaluate(node.left, env);
+  const right = evaluate(node.right, env);
+  switch (operator) {
+    case '=':
+      return equal(left, right, position);
+    case '<>':
+      return !equal(left, right, position);
+    case '<':
+      return compare(left, right, position) < 0;
+    case '<=':
+      return compare(left, right, position) <= 0;
+    case '>':
+      return compare(left, right, position) > 0;
+    case '>=':
+      return compare(left, right, position) >= 0;
+    case 'in':
+      // Membership in a table, or case-insensitive text containment
+      if (Array.isArray(right)) {
+        return right.some(item => equal(left, recordValue(item), position));
+      }
+      return toText(right, node.right.position).toLowerCase().includes(toText(left, node.left.position).toLowerCase());
+    case '&':
+      return toText(left, node.left.position) + toText(right, node.right.position);
+    case '+':
+      // A date plus a number of days
+      if (left instanceof Date) {
+        return new Date(left.getTime() + toNumber(right, node.right.position) * TIME_UNITS.days);
+      }
+      return toNumber(left, node.left.position) + toNumber(right, node.right.position);
+    case '-':
+      if (left instanceof Date && !(right instanceof Date)) {
+        return new Date(left.getTime() - toNumber(right, node.right.position) * TIME_UNITS.days);
+      }
+      return toNumber(left, node.left.position) - toNumber(right, node.right.position);
+    case '*':
+      return toNumber(left, node.left.position) * toNumber(right, node.right.position);
+    case '/': {
+      const divisor = toNumber(right, node.right.position);
+      if (divisor === 0) {
+        throw new FormulaError('Division by zero', node.right.position);
+      }
+      return toNumber(left, node.left.position) / divisor;
+    }
+    case '^':
+      return Math.pow(toNumber(left, node.left.position), toNumber(right, node.right.position));
+  }
+}
+
+// Run a formula (or one parsed beforehand with parseFormula); throws a FormulaError with the position of the problem
+export function evaluateFormula(formula: string | FormulaNode, scope: FormulaScope = {}): FormulaValue {
+  const node = typeof formula === 'string' ? parseFormula(formula) : formula;
+  return evaluate(node, { scope, records: scope.record ? [scope.record] : [] });
+}
+
+// Run a formula that decides something, e.g. whether a row is shown
+export function evaluateCondition(formula: string | FormulaNode, scope: FormulaScope = {}): boolean {
+  const node = typeof formula === 'string' ? parseFormula(formula) : formula;
+  return toBoolean(evaluateFormula(node, scope), node.position);
+}
@@ -0,0 +1,356 @@
+// A small PowerApps-like formula language for data table filters and button
+// rules and actions. Formulas are parsed here and run by the interpreter in
+// formula-eval.ts, in the browser and on the server alike; nothing is ever
+// compiled to JavaScript.
+//
+//   Status = "Open" && DateDiff(Created, Today()) < 30
+//   StartsWith(Title, 'Search Box')
+//   CountRows(Filter(Orders, Amount > 100)) > 0
+//   If(IsBlank('Email'), Notify("Email is required", "error"), Navigate("/done"))
+//
+// Bare names are columns of the current record (inside Filter, LookUp, ...
+// and for each row a table filters) or, outside any record, the form's
+// fields. A name in single quotes is always a form field. Strings use double
+// quotes, with "" for a quote inside one. Formulas can be chained with `;`,
+// which runs each in turn and results in the last.
+
+export class FormulaError extends Error {
+  constructor(message: string, readonly position: number) {
+    super(`${message} (at position ${position + 1})`);
+    this.name = 'FormulaError';
+  }
+}
+
+export type FormulaNode =
+  | { kind: 'number'; value: number; position: number }
+  | { kind: 'string'; value: string; position: number }
+  | { kind: 'boolean'; value: boolean; position: number }
+  | { kind: 'name'; name: string; position: number }
+  | { kind: 'formField'; name: string; position: number }
+  | { kind: 'table'; items: FormulaNode[]; position: number }
+  | { kind: 'member'; object: FormulaNode; name: string; position: number }
+  | { kind: 'call'; name: string; args: FormulaNode[]; position: number }
+  | { kind: 'unary'; operator: '-' | '!'; operand: FormulaNode; position: number }
+  | { kind: 'binary'; operator: BinaryOperator; left: FormulaNode; right: FormulaNode; position: number }
+  | { kind: 'sequence'; steps: FormulaNode[]; position: number };
+
+export type BinaryOperator =
+  | '=' | '<>' | '<' | '<=' | '>' | '>='
+  | '&&' | '||' | '&' | 'in'
+  | '+' | '-' | '*' | '/' | '^';
+
+type Token =
+  | { type: 'number'; value: number; position: number }
+  | { type: 'string'; value: string; position: number }
+  | { type: 'name'; value: string; position: number }
+  | { type: 'quoted'; value: string; position: number }
+  | { type: 'symbol'; value: string; position: number }
+  | { type: 'end'; value: ''; position: number };
+
+// Longest first, so `<=` isn't read as `<` then `=`
+const SYMBOLS = ['<>', '<=', '>=', '&&', '||', '==', '!=', '===', '=', '<', '>', '&', '+', '-', '*', '/', '^', '!', '(', ')', '[', ']', ',', '.', ';']
+  .sort((a, b) => b.length - a.length);
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+  while (index < source.length) {
+    const char = source[index];
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+    // Comments run to the end of the line
+    if (source.startsWith('//', index)) {
+      while (index < source.length && source[index] !== '\n') {
+        index++;
+      }
+      continue;
+    }
+
+    const start = index;
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(source[index + 1] ?? ''))) {
+      const match = /^[0-9]*\.?[0-9]+(?:[eE][+-]?[0-9]+)?|^[0-9]+\.?/.exec(source.slice(index))!;
+      tokens.push({ type: 'number', value: Number(match[0]), position: start });
+      index += match[0].length;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(index))!;
+      tokens.push({ type: 'name', value: match[0], position: start });
+      index += match[0].length;
+    } else if (char === '"' || char === "'") {
+      // A doubled quote stands for the quote itself
+      let value = '';
+      index++;
+      for (;;) {
+        if (index >= source.length) {
+          throw new FormulaError(char === '"' ? 'Text is missing its closing "' : "Name is missing its closing '", start);
+        }
+        if (source[index] === char) {
+          if (source[index + 1] === char) {
+            value += char;
+            index += 2;
+            continue;
+          }
+          index++;
+          break;
+        }
+        value += source[index++];
+      }
+      tokens.push({ type: char === '"' ? 'string' : 'quoted', value, position: start });
+    } else {
+      const symbol = SYMBOLS.find(candidate => source.startsWith(candidate, index));
+      if (!symbol) {
+        throw new FormulaError(`Unexpected character "${char}"`, start);
+      }
+      // JavaScript habits get a pointer to the formula's own operators
+      if (symbol === '==' || symbol === '===') {
+        throw new FormulaError('Use = to compare values', start);
+      }
+      if (symbol === '!=') {
+        throw new FormulaError('Use <> for "not equal"', start);
+      }
+      tokens.push({ type: 'symbol', value: symbol, position: start });
+      index += symbol.length;
+    }
+  }
+  tokens.push({ type: 'end', value: '', position: source.length });
+  return tokens;
+}
+
+// Recursive descent, loosest binding first: ; || && comparisons & + - * / ^ unary
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): FormulaNode {
+    const node = this.sequence();
+    const token = this.peek();
+    if (token.type !== 'end') {
+      throw new FormulaError(`Unexpected ${describe(token)}`, token.position);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private isSymbol(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'symbol' && token.value === value;
+  }
+
+  // The keyword operators And, Or, Not and in, unless used as a function
+  private isKeyword(value: string): boolean {
+    const token = this.peek();
+    const following = this.tokens[this.index + 1];
+    return token.type === 'name' &&
+      token.value.toLowerCase() === value.toLowerCase() &&
+      !(following.type === 'symbol' && following.value === '(');
+  }
+
+  private expect(value: string) {
+    const token = this.next();
+    if (token.type !== 'symbol' || token.value !== value) {
+      throw new FormulaError(`Expected "${value}" but found ${describe(token)}`, token.position);
+    }
+  }
+
+  private sequence(): FormulaNode {
+    const first = this.or();
+    if (!this.isSymbol(';')) {
+      return first;
+    }
+    const steps = [first];
+    while (this.isSymbol(';')) {
+      this.next();
+      // A trailing ; is allowed
+      if (this.peek().type === 'end') {
+        break;
+      }
+      steps.push(this.or());
+    }
+    return { kind: 'sequence', steps, position: first.position };
+  }
+
+  private or(): FormulaNode {
+    let left = this.and();
+    while (this.isSymbol('||') || this.isKeyword('Or')) {
+      const { position } = this.next();
+      left = { kind: 'binary', operator: '||', left, right: this.and(), position };
+    }
+    return left;
+  }
+
+  private and(): FormulaNode {
+    let left = this.comparison();
+    while (this.isSymbol('&&') || this.isKeyword('And')) {
+      const { position } = this.next();
+      left = { kind: 'binary', operator: '&&', left, right: this.comparison(), position };
+    }
+    return left;
+  }
+
+  private comparison(): FormulaNode {
+    let left = this.concat();
+    for (;;) {
+      const token = this.peek();
+      const operator = token.type === 'symbol' && ['=', '<>', '<', '<=', '>', '>='].includes(token.value)
+        ? token.value as BinaryOperator
+        : this.isKeyword('in') ? 'in' : undefined;
+      if (!operator) {
+        return left;
+      }
+      this.next();
+      left = { kind: 'binary', operator, left, right: this.concat(), position: token.position };
+    }
+  }
+
+  private concat(): FormulaNode {
+    let left = this.additive();
+    while (this.isSymbol('&')) {
+      const { position } = this.next();
+      left = { kind: 'binary', operator: '&', left, right: this.additive(), position };
+    }
+    return left;
+  }
+
+  private additive(): FormulaNode {
+    let left = this.multiplicative();
+    while (this.isSymbol('+') || this.isSymbol('-')) {
+      const token = this.next();
+      left = { kind: 'binary', operator: token.value as BinaryOperator, left, right: this.multiplicative(), position: token.position };
+    }
+    return left;
+  }
+
+  private multiplicative(): FormulaNode {
+    let left = this.unary();
+    while (this.isSymbol('*') || this.isSymbol('/')) {
+      const token = this.next();
+      left = { kind: 'binary', operator: token.value as BinaryOperator, left, right: this.unary(), position: token.position };
+    }
+    return left;
+  }
+
+  private unary(): FormulaNode {
+    if (this.isSymbol('-') || this.isSymbol('!') || this.isKeyword('Not')) {
+      const token = this.next();
+      return { kind: 'unary', operator: token.value === '-' ? '-' : '!', operand: this.unary(), position: token.position };
+    }
+    return this.power();
+  }
+
+  private power(): FormulaNode {
+    const base = this.postfix();
+    if (this.isSymbol('^')) {
+      const { position } = this.next();
+      return { kind: 'binary', operator: '^', left: base, right: this.unary(), position };
+    }
+    return base;
+  }
+
+  private postfix(): FormulaNode {
+    let node = this.primary();
+    while (this.isSymbol('.')) {
+      this.next();
+      const token = this.next();
+      if (token.type !== 'name' && token.type !== 'quoted') {
+        throw new FormulaError(`Expected a column name after "." but found ${describe(token)}`, token.position);
+      }
+      node = { kind: 'member', object: node, name: token.value, position: token.position };
+    }
+    return node;
+  }
+
+  private primary(): FormulaNode {
+    const token = this.next();
+    switch (token.type) {
+      case 'number':
+        return { kind: 'number', value: token.value, position: token.position };
+      case 'string':
+        return { kind: 'string', value: token.value, position: token.position };
+      case 'quoted':
+        return { kind: 'formField', name: token.value, position: token.position };
+      case 'name': {
+        if (this.isSymbol('(')) {
+          this.next();
+          return { kind: 'call', name: token.value, args: this.list(')'), position: token.position };
+        }
+        const lower = token.value.toLowerCase();
+        if (lower === 'true' || lower === 'false') {
+          return { kind: 'boolean', value: lower === 'true', position: token.position };
+        }
+        return { kind: 'name', name: token.value, position: token.position };
+      }
+      case 'symbol':
+        if (token.value === '(') {
+          const inner = this.sequence();
+          this.expect(')');
+          return inner;
+        }
+        if (token.value === '[') {
+          return { kind: 'table', items: this.list(']'), position: token.position };
+        }
+        break;
+    }
+    throw new FormulaError(token.type === 'end' ? 'The formula ends too early' : `Unexpected ${describe(token)}`, token.position);
+  }
+
+  // Comma-separated expressions up to the closing symbol
+  private list(close: string): FormulaNode[] {
+    const items: FormulaNode[] = [];
+    if (this.isSymbol(close)) {
+      this.next();
+      return items;
+    }
+    for (;;) {
+      items.push(this.or());
+      if (this.isSymbol(',')) {
+        this.next();
+        continue;
+      }
+      this.expect(close);
+      return items;
+    }
+  }
+}
+
+function describe(token: Token): string {
+  switch (token.type) {
+    case 'end':
+      return 'the end of the formula';
+    case 'string':
+      return 'text';
+    case 'number':
+      return `number ${token.value}`;
+    default:
+      return `"${token.value}"`;
+  }
+}
+
+// Parse a formula, throwing a FormulaError with the position of the first problem
+export function parseFormula(source: string): FormulaNode {
+  return new Parser(tokenize(source)).parse();
+}
+
+// The message of a formula's syntax error, or undefined when it parses (or is blank)
+export function formulaSyntaxError(source: string | undefined): string | undefined {
+  if (!source || !source.trim()) {
+    return undefined;
+  }
+  try {
+    parseFormula(source);
+    return undefined;
+  } catch (error) {
+    if (error instanceof FormulaError) {
+      return error.message;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * Change notifications the server pushes to browsers over Server-Sent Events
+ * (GET /api/events). Events only name what changed and its id; clients
+ * refetch what they show, so nothing is sent that a client couldn't already
+ * read through the API.
+ */
+export type LiveEvent =
+  | { type: "applications"; id?: number }
+  | { type: "forms"; id?: number }
+  | { type: "submissions"; formId: number }
+  | { type: "approvals"; id?: number }
+  | { type: "datasources"; id?: number }
+  | { type: "datasource-rows"; id: number };
@@ -0,0 +1,59 @@
+// Structured form of a database data source's query, edited in the visual
+// query builder and saved as `config.queryBuilder`. The server generates the
+// stored `config.query` from it: SQL for the source's dialect, or a filter
+// document for MongoDB.
+
+export type BuilderOperator =
+  | 'eq'
+  | 'ne'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'contains'
+  | 'startsWith'
+  | 'endsWith'
+  | 'isNull'
+  | 'isNotNull';
+
+export interface BuilderCondition {
+  field: string;
+  operator: BuilderOperator;
+  // A literal to compare with; ignored by isNull and isNotNull
+  value?: string | number | boolean | null;
+  // Or a query parameter instead of the literal: `:fieldName` or `@currentUserId`
+  parameter?: string;
+}
+
+export interface QueryBuilderSpec {
+  table: string;
+  schema?: string;
+  // Columns to return; every column when empty
+  columns: string[];
+  conditions: BuilderCondition[];
+  // Whether rows must match all conditions or any of them
+  match: 'all' | 'any';
+  sort: Array<{ field: string; direction: 'asc' | 'desc' }>;
+  limit: number;
+}
+
+export const DEFAULT_BUILDER_LIMIT = 1000;
+
+export const BUILDER_OPERATORS: Array<{ value: BuilderOperator; label: string }> = [
+  { value: 'eq', label: 'equals' },
+  { value: 'ne', label: 'does not equal' },
+  { value: 'gt', label: 'greater than' },
+  { value: 'gte', label: 'greater than or equal' },
+  { value: 'lt', label: 'less than' },
+  { value: 'lte', label: 'less than or equal' },
+  { value: 'contains', label: 'contains' },
+  { value: 'startsWith', label: 'starts with' },
+  { value: 'endsWith', label: 'ends with' },
+  { value: 'isNull', label: 'is empty' },
+  { value: 'isNotNull', label: 'is not empty' }
+];
+
+// Operators that don't compare with a value
+export function isUnaryOperator(operator: BuilderOperator): boolean {
+  return operator === 'isNull' || operator === 'isNotNull';
+}
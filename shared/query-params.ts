@@ -0,0 +1,125 @@
+// Named parameters in stored data source queries. `:name` takes the value of
+// the form field called `name`; `@currentUserId`, `@currentUsername`,
+// `@currentUserRole` and `@currentUserName` come from the signed-in user.
+// In MongoDB filters and pipelines a parameter is a string value that is only the
+// parameter, e.g. { "region": ":region" }.
+
+export const USER_PARAMETERS = ['currentUserId', 'currentUsername', 'currentUserRole', 'currentUserName'] as const;
+
+export type UserParameter = typeof USER_PARAMETERS[number];
+
+export interface QueryParameterToken {
+  name: string;
+  source: 'form' | 'user';
+  // Position of the token (including its prefix) in the query text
+  start: number;
+  end: number;
+}
+
+const NAME_START = /[A-Za-z_]/;
+const NAME_PART = /[A-Za-z0-9_]/;
+
+function readName(query: string, from: number): string {
+  let end = from;
+  while (end < query.length && NAME_PART.test(query[end])) end++;
+  return query.slice(from, end);
+}
+
+/**
+ * Find the parameters of a SQL query. String literals, quoted identifiers and
+ * comments are skipped, as are PostgreSQL casts (`::int`), MySQL assignments
+ * (`:=`) and `@` variables other than the user parameters.
+ */
+export function scanSqlParameters(query: string): QueryParameterToken[] {
+  const tokens: QueryParameterToken[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+    const next = query[i + 1];
+
+    if (char === "'" || char === '"' || char === '`') {
+      // Quoted text ends at the matching quote; doubled quotes are escapes
+      i++;
+      while (i < query.length) {
+        if (query[i] === char && query[i + 1] === char) {
+          i += 2;
+        } else if (query[i] === char) {
+          i++;
+          break;
+        } else {
+          i++;
+        }
+      }
+    } else if (char === '[') {
+      const close = query.indexOf(']', i);
+      i = close === -1 ? query.length : close + 1;
+    } else if (char === '-' && next === '-') {
+      const lineEnd = query.indexOf('\n', i);
+      i = lineEnd === -1 ? query.length : lineEnd + 1;
+    } else if (char === '/' && next === '*') {
+      const close = query.indexOf('*/', i + 2);
+      i = close === -1 ? query.length : close + 2;
+    } else if (char === ':' && next === ':') {
+      i += 2;
+    } else if (char === ':' && next !== undefined && NAME_START.test(next) && !NAME_PART.test(query[i - 1] ?? '')) {
+      const name = readName(query, i + 1);
+      tokens.push({ name, source: 'form', start: i, end: i + 1 + name.length });
+      i += 1 + name.length;
+    } else if (char === '@' && next !== undefined && NAME_START.test(next) && query[i - 1] !== '@') {
+      const name = readName(query, i + 1);
+      if ((USER_PARAMETERS as readonly string[]).includes(name)) {
+        tokens.push({ name, source: 'user', start: i, end: i + 1 + name.length });
+      }
+      i += 1 + name.length;
+    } else {
+      i++;
+    }
+  }
+  return tokens;
+}
+
+// The parameter named by a MongoDB filter value, if it is one
+export function documentParameter(value: unknown): { name: string; source: 'form' | 'user' } | undefined {
+  if (typeof value !== 'string') return undefined;
+  const match = value.match(/^([:@])([A-Za-z_][A-Za-z0-9_]*)$/);
+  if (!match) return undefined;
+  if (match[1] === '@') {
+    return (USER_PARAMETERS as readonly string[]).includes(match[2]) ? { name: match[2], source: 'user' } : undefined;
+  }
+  return { name: match[2], source: 'form' };
+}
+
+function documentParameterNames(value: unknown, names: Set<string>) {
+  const parameter = documentParameter(value);
+  if (parameter?.source === 'form') {
+    names.add(parameter.name);
+  } else if (Array.isArray(value)) {
+    value.forEach(item => documentParameterNames(item, names));
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach(item => documentParameterNames(item, names));
+  }
+}
+
+// Names of the form fields a stored query (SQL or a MongoDB filter) needs
+export function formParameterNames(query: string | undefined | null): string[] {
+  if (!query || !query.trim()) {
+    return [];
+  }
+
+  const names = new Set<string>();
+  const trimmed = query.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    try {
+      documentParameterNames(JSON.parse(trimmed), names);
+      return Array.from(names);
+    } catch {
+      // Not JSON, so scan it as SQL
+    }
+  }
+
+  for (const token of scanSqlParameters(query)) {
+    if (token.source === 'form') names.add(token.name);
+  }
+  return Array.from(names);
+}
@@ -0,0 +1,63 @@
+// Rows of writable data sources are addressed by the values of their key
+// columns, encoded as a JSON array so composite and typed keys survive the URL.
+
+export function encodeRowKey(row: Record<string, any>, keyColumns: string[]): string {
+  return JSON.stringify(keyColumns.map(column => row[column] ?? null));
+}
+
+// Key values are compared for equality only; objects (such as Mongo operators) are never keys
+function checkKeyValue(column: string, value: unknown): void {
+  if (value !== null && typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'boolean') {
+    throw new Error(`Key value for "${column}" must be a string, number, boolean or null`);
+  }
+}
+
+export function decodeRowKey(encoded: string, keyColumns: string[]): Record<string, any> {
+  let values: any[];
+  try {
+    const parsed = JSON.parse(encoded);
+    values = Array.isArray(parsed) ? parsed : [parsed];
+  } catch {
+    // Allow a plain value for single-column keys, e.g. /data/42
+    values = [encoded];
+  }
+
+  if (values.length !== keyColumns.length) {
+    throw new Error(`Expected ${keyColumns.length} key value(s) but got ${values.length}`);
+  }
+
+  const key: Record<string, any> = {};
+  keyColumns.forEach((column, index) => {
+    checkKeyValue(column, values[index]);
+    key[column] = values[index];
+  });
+  return key;
+}
+
+// A row key given as an object: exactly the key columns, each one present
+export function rowKeyFromObject(value: unknown, keyColumns: string[]): Record<string, any> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Key must be an object of key column values');
+  }
+  const source = value as Record<string, unknown>;
+
+  const key: Record<string, any> = {};
+  for (const column of keyColumns) {
+    if (!(column in source)) {
+      throw new Error(`Missing value for key column "${column}"`);
+    }
+    checkKeyValue(column, source[column]);
+    key[column] = source[column];
+  }
+  return key;
+}
+
+// Names of the fields flagged as key columns on a data source
+export function getKeyColumns(fields: unknown): string[] {
+  if (!Array.isArray(fields)) {
+    return [];
+  }
+  return fields
+    .filter((field: any) => field && field.primaryKey)
+    .map((field: any) => field.name as string);
+}
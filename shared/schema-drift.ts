@@ -0,0 +1,117 @@
+/**
+ * Schema drift: columns a data source's stored fields list that its backing
+ * table, file or API no longer has, or now has with another type. Form
+ * elements bound to such a column render blanks until the source is re-synced
+ * or the form is changed.
+ */
+
+import type { Field, Form, FormElement } from './schema';
+import { normalizeFieldType } from './field-types';
+import { elementSourceIds, walkElements } from './data-source-usage';
+
+export interface FieldDrift {
+  field: string;
+  kind: 'missing' | 'retyped';
+  storedType: string;
+  currentType?: string;
+}
+
+// A form element reading a drifted column
+export interface DriftedElement {
+  formId: number;
+  formName: string;
+  elementId: string;
+  elementLabel: string;
+  field: string;
+}
+
+// The outcome of the last check of a data source
+export interface SchemaDriftReport {
+  dataSourceId: number;
+  checkedAt: string;
+  drifts: FieldDrift[];
+  affected: DriftedElement[];
+  // Set when the source couldn't be read; nothing is flagged then
+  error?: string;
+}
+
+// Types a user may have picked in place of the detected one: any type for a
+// text column (dates or emails stored as text), and number for integer
+function compatibleTypes(storedType: string, currentType: string): boolean {
+  const stored = normalizeFieldType(storedType);
+  const current = normalizeFieldType(currentType);
+  return stored === current ||
+    current === 'text' ||
+    (stored === 'number' && current === 'integer');
+}
+
+// Stored fields that are gone from the source or no longer hold the same type
+export function compareFields(stored: Field[], current: Field[]): FieldDrift[] {
+  const currentTypes = new Map(current.map(field => [field.name, field.type]));
+  const drifts: FieldDrift[] = [];
+  for (const field of stored) {
+    const currentType = currentTypes.get(field.name);
+    if (currentType === undefined) {
+      drifts.push({ field: field.name, kind: 'missing', storedType: field.type });
+    } else if (!compatibleTypes(field.type, currentType)) {
+      drifts.push({ field: field.name, kind: 'retyped', storedType: field.type, currentType });
+    }
+  }
+  return drifts;
+}
+
+// Columns of its data source an element shows or stores
+function elementFields(element: FormElement): string[] {
+  const fields = [element.dataField, element.displayField, element.valueField, element.dataSource?.field];
+  if (element.type === 'datatable') {
+    fields.push(...(element.columns || []).map((column: { field?: string }) => column.field));
+  }
+  return fields.filter((field): field is string => typeof field === 'string' && field !== '');
+}
+
+// Elements of any form bound to the data source that read one of the drifted columns
+export function driftedElements(forms: Form[], dataSourceId: number, drifts: FieldDrift[]): DriftedElement[] {
+  const drifted = new Set(drifts.map(drift => drift.field));
+  const affected: DriftedElement[] = [];
+  for (const form of forms) {
+    walkElements(Array.isArray(form.elements) ? form.elements as FormElement[] : [], element => {
+      if (!elementSourceIds(element).includes(dataSourceId)) {
+        return;
+      }
+      for (const field of Array.from(new Set(elementFields(element)))) {
+        if (drifted.has(field)) {
+          affected.push({
+            formId: form.id,
+            formName: form.name,
+            elementId: element.id,
+            elementLabel: element.label || element.name || element.id,
+            field
+          });
+        }
+      }
+    });
+  }
+  return affected;
+}
+
+// Stored fields replaced by the source's current ones, keeping what the user
+// set on columns that are still there (key columns, formats, picked types)
+export function resyncFields(
+  stored: Field[],
+  current: Field[],
+  selectedFields: string[]
+): { fields: Field[]; selectedFields: string[] } {
+  const storedByName = new Map(stored.map(field => [field.name, field]));
+  const fields = current.map(field => {
+    const previous = storedByName.get(field.name);
+    if (!previous) {
+      return { name: field.name, type: field.type, ...(field.primaryKey ? { primaryKey: true } : {}) };
+    }
+    return {
+      ...previous,
+      type: compatibleTypes(previous.type, field.type) ? previous.type : field.type
+    };
+  });
+  const names = new Set(fields.map(field => field.name));
+  return { fields, selectedFields: selectedFields.filter(name => names.has(name)) };
+}
@@ -116,6 +116,9 @@ const formElementBase = z.object({
   exportable: z.boolean().optional(),
   resizableColumns: z.boolean().optional(),
   rowsPerPage: z.number().optional(),
+  // Let users add and delete rows in the connected table
+  allowInsert: z.boolean().optional(),
+  allowDelete: z.boolean().optional(),
   
   // PowerApps-like Items formula for filtering
   filterExpression: z.string().optional(),
@@ -138,6 +141,22 @@ export const formElementSchema: z.ZodType<any> = formElementBase.extend({
 
 export type FormElement = z.infer<typeof formElementSchema>;
 
+// Where a form's submissions are also written: a row of a database data source's table
+export const submissionTargetSchema = z.object({
+  dataSourceId: z.number(),
+  // Form field → column of the data source's table
+  mappings: z.array(z.object({
+    field: z.string(),
+    column: z.string()
+  })).min(1),
+  // Upserts update the row with the same key values, and insert when there is none
+  mode: z.enum(["insert", "upsert"]).default("insert"),
+  // Columns matched on when upserting; the data source's key columns when empty
+  keyColumns: z.array(z.string()).optional(),
+});
+
+export type SubmissionTarget = z.infer<typeof submissionTargetSchema>;
+
 // Forms schema
 export const forms = pgTable("forms", {
   id: serial("id").primaryKey(),
@@ -146,6 +165,7 @@ export const forms = pgTable("forms", {
   applicationId: integer("application_id"), // Link to the application
   elements: jsonb("elements").notNull(),
   dataSourceId: text("data_source_id"),
+  submissionTarget: jsonb("submission_target"), // SubmissionTarget, or null to only keep submissions here
   isPublished: boolean("is_published").default(false),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -155,6 +175,8 @@ export const insertFormSchema = createInsertSchema(forms).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  submissionTarget: submissionTargetSchema.nullable().optional(),
 });
 
 export type InsertForm = z.infer<typeof insertFormSchema>;
@@ -165,6 +187,10 @@ export const fieldSchema = z.object({
   name: z.string(),
   type: z.string(),
   selected: z.boolean().optional(),
+  // Key columns identify a row when writing back to the data source
+  primaryKey: z.boolean().optional(),
+  // Display format for the field's type (see FIELD_FORMATS)
+  format: z.string().optional(),
 });
 
 export type Field = z.infer<typeof fieldSchema>;
@@ -173,7 +199,7 @@ export type Field = z.infer<typeof fieldSchema>;
 export const dataSources = pgTable("data_sources", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
-  type: text("type").notNull(), // "database", "sharepoint", or "excel"
+  type: text("type").notNull(), // "database", "sharepoint", "excel", "rest", "submissions" or "join"
   formId: integer("form_id"), // Link to the form that owns this data source
   config: jsonb("config").notNull(),
   fields: jsonb("fields").default('[]'), // Store the field mappings
@@ -0,0 +1,14 @@
+// Which data source config values are secrets. They are encrypted at rest
+// and only ever sent to the browser as SECRET_PLACEHOLDER.
+
+export const SECRET_PLACEHOLDER = '********';
+
+// Top-level config keys holding credentials (connection strings can embed a password)
+export const SECRET_CONFIG_KEYS = ['password', 'clientSecret', 'token', 'apiKeyValue', 'connectionString', 'uri'];
+
+// REST request headers that carry credentials
+const SECRET_HEADER_PATTERN = /authorization|api[-_]?key|token|secret|password|cookie/i;
+
+export function isSecretHeader(name: string): boolean {
+  return SECRET_HEADER_PATTERN.test(name);
+}